@@ -1,33 +1,96 @@
 
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { ImageUploader } from './components/ImageUploader';
 import { ResultDisplay } from './components/ResultDisplay';
 import { Spinner } from './components/Spinner';
 import { ImageEditor } from './components/ImageEditor';
-import { analyzeImageStyle, editImageWithGemini, generateCreativeTitle, extractStylesFromText } from './services/geminiService';
-import { AnalysisResult, GeneratedItem, STYLE_PRESETS, StyleExtractionResult } from './types';
-import { GithubIcon, MagicIcon, WandIcon, HistoryIcon, PlusIcon, DownloadIcon, XIcon, CopyIcon, ChatBubbleIcon, TextIcon, FilterIcon, SparklesIcon } from './components/icons';
-import JSZip from 'jszip';
+import { SavedLibrary } from './components/SavedLibrary';
+import { ProviderSettingsPanel } from './components/ProviderSettingsPanel';
+import { BatchScanner } from './components/BatchScanner';
+import { EmbeddedMetadataPanel } from './components/EmbeddedMetadataPanel';
+import { PresetLibrary } from './components/PresetLibrary';
+import { StyleCompare } from './components/StyleCompare';
+import { ValidationNotice } from './components/ValidationNotice';
+import { VariationGrid } from './components/VariationGrid';
+import { WildcardManager } from './components/WildcardManager';
+import { XYMatrix } from './components/XYMatrix';
+import { UsagePanel } from './components/UsagePanel';
+import { HistoryFilterBar } from './components/HistoryFilterBar';
+import { HistoryItemControls } from './components/HistoryItemControls';
+import { ReferenceSlots } from './components/ReferenceSlots';
+import { StyleLockPanel } from './components/StyleLockPanel';
+import { ImagePreprocessor } from './components/ImagePreprocessor';
+import { analyzeImageStyle, editImageWithGemini, generateCreativeTitle, extractStylesFromText, getProviderSettings, saveProviderSettings, PROVIDER_OPTIONS } from './services/geminiService';
+import {
+  loadHistory, saveHistoryItem, deleteHistoryItem,
+  loadAnalyses, saveAnalysis, deleteAnalysis,
+  loadExtractions, saveExtraction, deleteExtraction,
+  loadPresets, savePresets, deletePreset,
+  loadWildcards, saveWildcard, deleteWildcard,
+  clearAllStoredData, clearCachedResults, getStorageUsage
+} from './services/storageService';
+import { downloadBlob, downloadText } from './services/fileUtils';
+import { exportGeneratedPng } from './services/pngProvenance';
+import { buildHistoryArchive, readHistoryArchive } from './services/historyArchive';
+import { buildGalleryArchive } from './services/galleryExport';
+import { buildStyleTransferInstruction, createStyleLock, styleLockModifiers, toggleStyleLockField } from './services/styleTransfer';
+import { EMPTY_HISTORY_FILTER, HistoryFilter, collectModifiers, collectTags, filterHistory, isFilterActive } from './services/historyFilter';
+import { readImageMetadataFromDataUrl, readImageMetadataFromFile } from './services/imageMetadata';
+import { FULL_CROP, PreprocessResult, getPreprocessSettings, preprocessImage, savePreprocessSettings } from './services/imagePreprocess';
+import { formatBytes } from './services/storageService';
+import { getErrorMessage } from './services/serviceErrors';
+import { formatCost, subscribeUsage, summarizeUsage, todayRecords } from './services/usageService';
+import { composePresetPrompt, createPreset, presetModifiersFromExtraction } from './services/presetService';
+import { TemplateContext, createRandom, expandTemplate, findTemplateProblems, findVariables, isTemplate } from './services/promptTemplate';
+import { FORMAT_EXTENSIONS, FORMAT_LABELS, FORMAT_MIME_TYPES, SERIALIZATION_FORMATS, formatHistoryLog, formatStyleReport } from './services/exportFormats';
+import { AnalysisResult, BatchItem, CropRect, EmbeddedMetadata, GeneratedItem, PreprocessSettings, ProviderSettings, ReferenceImage, SavedAnalysis, SavedExtraction, SerializationFormat, StorageUsage, StyleExtractionResult, StyleLock, StylePreset, Variation, WildcardList } from './types';
+import { GithubIcon, MagicIcon, WandIcon, HistoryIcon, PlusIcon, DownloadIcon, XIcon, CopyIcon, ChatBubbleIcon, TextIcon, FilterIcon, SparklesIcon, TrashIcon, CogIcon } from './components/icons';
+
+// Summary of the scanned style, stored with generated images so their logs explain the look
+const describeStyleContext = (analysis: AnalysisResult | null) => analysis
+  ? `A ${analysis.style} style image, in the style of ${analysis.artist}. Featuring ${analysis.mood.toLowerCase()} tones, with a color palette of ${analysis.colorPalette.join(', ')}. Key techniques include ${analysis.techniques.join(', ')}.`
+  : "";
 
 const App: React.FC = () => {
   const [imageFile, setImageFile] = useState<File | null>(null);
   const [imageUrl, setImageUrl] = useState<string | null>(null);
+  // Uploads are oriented, cropped and downscaled before they are sent (see services/imagePreprocess.ts)
+  const [preprocessSettings, setPreprocessSettings] = useState<PreprocessSettings>(getPreprocessSettings);
+  const [cropRect, setCropRect] = useState<CropRect>(FULL_CROP);
+  const [preprocessInfo, setPreprocessInfo] = useState<PreprocessResult | null>(null);
+  const [isPreprocessing, setIsPreprocessing] = useState(false);
+  const [showPreprocessor, setShowPreprocessor] = useState(false);
+  const preprocessTokenRef = useRef(0);
   
   // Analysis State
   const [analysisResult, setAnalysisResult] = useState<AnalysisResult | null>(null);
+  const [analysisIssues, setAnalysisIssues] = useState<string[]>([]);
+  const [analysisCachedAt, setAnalysisCachedAt] = useState<number | null>(null);
   const [intensity, setIntensity] = useState<number>(1);
+  const [embeddedMetadata, setEmbeddedMetadata] = useState<EmbeddedMetadata | null>(null);
   
   // Generation/Creator State
   const [userIdea, setUserIdea] = useState('');
+  // Prompt templates: values for {variables} and the __wildcard__ word lists
+  const [templateVariables, setTemplateVariables] = useState<Record<string, string>>({});
+  const [wildcardLists, setWildcardLists] = useState<WildcardList[]>([]);
+  const [templateSeed, setTemplateSeed] = useState(() => Date.now());
+  const [showWildcards, setShowWildcards] = useState(false);
+  const [showMatrix, setShowMatrix] = useState(false);
   const [selectedModifiers, setSelectedModifiers] = useState<string[]>([]);
   const [customModifier, setCustomModifier] = useState('');
+  const [presets, setPresets] = useState<StylePreset[]>([]);
+  const [activePresetIds, setActivePresetIds] = useState<string[]>([]);
   const [generatedHistory, setGeneratedHistory] = useState<GeneratedItem[]>([]);
   
   // Style Distiller State
   const [distillInput, setDistillInput] = useState('');
   const [extractedStyles, setExtractedStyles] = useState<StyleExtractionResult | null>(null);
+  const [distillIssues, setDistillIssues] = useState<string[]>([]);
+  const [distillCachedAt, setDistillCachedAt] = useState<number | null>(null);
   const [isDistilling, setIsDistilling] = useState(false);
   const [distillCopied, setDistillCopied] = useState(false);
+  const [distillFormat, setDistillFormat] = useState<SerializationFormat>('txt');
 
   // Editing State
   const [editingItem, setEditingItem] = useState<GeneratedItem | null>(null);
@@ -35,53 +98,233 @@ const App: React.FC = () => {
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [isGenerating, setIsGenerating] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
+  // In-flight requests, so they can be cancelled from the UI or when the image is replaced
+  const analysisRequestRef = useRef<AbortController | null>(null);
+  const generationRequestRef = useRef<AbortController | null>(null);
   const [copiedLogId, setCopiedLogId] = useState<string | null>(null);
+  const [logFormat, setLogFormat] = useState<SerializationFormat>('txt');
+  const [historyNotice, setHistoryNotice] = useState<string | null>(null);
+  const [isExportingGallery, setIsExportingGallery] = useState(false);
+  const [isExportingZip, setIsExportingZip] = useState(false);
+  const [historyFilter, setHistoryFilter] = useState<HistoryFilter>(EMPTY_HISTORY_FILTER);
+  const historyZipInputRef = useRef<HTMLInputElement>(null);
+
+  // Persistence State
+  const [savedAnalyses, setSavedAnalyses] = useState<SavedAnalysis[]>([]);
+  const [savedExtractions, setSavedExtractions] = useState<SavedExtraction[]>([]);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  const [showCompare, setShowCompare] = useState(false);
+  const [showVariations, setShowVariations] = useState(false);
+  const [references, setReferences] = useState<ReferenceImage[]>([]);
+  const [styleLock, setStyleLock] = useState<StyleLock | null>(null);
+
+  // Batch Scan State
+  const [batchItems, setBatchItems] = useState<BatchItem[]>([]);
+  const [showBatch, setShowBatch] = useState(false);
+
+  // Provider State
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(getProviderSettings);
+  const [showProviderSettings, setShowProviderSettings] = useState(false);
+  const [showUsage, setShowUsage] = useState(false);
+  const [, setUsageVersion] = useState(0);
+  const activeProviderLabel = PROVIDER_OPTIONS.find(p => p.id === providerSettings.providerId)?.label ?? providerSettings.providerId;
+
+  const refreshStorageUsage = useCallback(() => {
+    getStorageUsage().then(setStorageUsage).catch(e => console.error("Failed to estimate storage", e));
+  }, []);
+
+  // Keeps the header's cost badge current as calls complete anywhere in the app
+  useEffect(() => subscribeUsage(() => setUsageVersion(v => v + 1)), []);
+
+  // Restore everything persisted in IndexedDB on startup
+  useEffect(() => {
+    Promise.all([loadHistory(), loadAnalyses(), loadExtractions(), loadPresets(), loadWildcards()])
+      .then(([history, analyses, extractions, storedPresets, storedWildcards]) => {
+        // Keep anything generated while the database was still opening
+        setGeneratedHistory(prev => [...prev, ...history.filter(item => !prev.some(p => p.id === item.id))]);
+        setSavedAnalyses(analyses);
+        setSavedExtractions(extractions);
+        setPresets(storedPresets);
+        setWildcardLists(storedWildcards);
+      })
+      .catch(e => {
+        console.error("Failed to restore saved data", e);
+        setError("Could not load saved history from this browser.");
+      })
+      .finally(refreshStorageUsage);
+  }, [refreshStorageUsage]);
+
+  const templateContext: TemplateContext = {
+    variables: templateVariables,
+    wildcards: Object.fromEntries(wildcardLists.map(list => [list.name, list.words])),
+  };
+  // Seeded, so the preview under the textarea is exactly what gets rendered
+  const expandedIdea = isTemplate(userIdea) ? expandTemplate(userIdea, { ...templateContext, random: createRandom(templateSeed) }) : userIdea;
+  const ideaVariables = findVariables(userIdea);
+
+  // A style lock adds the locked analysis' modifiers, and its instruction ahead of the idea
+  const lockInstruction = styleLock ? buildStyleTransferInstruction(styleLock) : '';
+  const renderModifiers = styleLock ? [...selectedModifiers, ...styleLockModifiers(styleLock, selectedModifiers)] : selectedModifiers;
+  const renderIdea = [lockInstruction, expandedIdea].filter(Boolean).join(' ');
+  const renderStyleContext = describeStyleContext(styleLock?.analysis ?? analysisResult);
+  const canRender = !!userIdea || renderModifiers.length > 0 || !!lockInstruction;
+
+  // An analysis belongs to the image it was started for; drop it once that image is replaced
+  const cancelAnalysis = () => {
+    analysisRequestRef.current?.abort();
+    analysisRequestRef.current = null;
+    setIsLoading(false);
+  };
+
+  const handleCancelGeneration = () => {
+    generationRequestRef.current?.abort();
+    generationRequestRef.current = null;
+    setIsGenerating(false);
+  };
+
+  const clearPreprocessing = () => {
+    preprocessTokenRef.current++;
+    setIsPreprocessing(false);
+    setPreprocessInfo(null);
+    setCropRect(FULL_CROP);
+  };
+
+  // Later calls win, so a slow re-encode can't overwrite a newer upload or crop
+  const applyPreprocessing = (file: File, settings: PreprocessSettings, crop: CropRect) => {
+    const token = ++preprocessTokenRef.current;
+    setIsPreprocessing(true);
+    preprocessImage(file, settings, crop)
+      .then(result => {
+        if (token !== preprocessTokenRef.current) return;
+        setImageUrl(result.dataUrl);
+        setPreprocessInfo(result);
+      })
+      .catch(e => {
+        if (token !== preprocessTokenRef.current) return;
+        console.error("Failed to preprocess image", e);
+        setError(getErrorMessage(e, "Could not read this image. Try saving it as PNG or JPEG."));
+      })
+      .finally(() => {
+        if (token === preprocessTokenRef.current) setIsPreprocessing(false);
+      });
+  };
 
   const handleImageChange = (file: File) => {
+    cancelAnalysis();
+    handleCancelGeneration();
     setImageFile(file);
+    setImageUrl(null);
     setAnalysisResult(null);
+    setAnalysisIssues([]);
+    setAnalysisCachedAt(null);
+    setEmbeddedMetadata(null);
     setError(null);
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      setImageUrl(reader.result as string);
-    };
-    reader.readAsDataURL(file);
+    setCropRect(FULL_CROP);
+    setPreprocessInfo(null);
+    applyPreprocessing(file, preprocessSettings, FULL_CROP);
+    // Read from the original file bytes so nothing is lost to re-encoding
+    readImageMetadataFromFile(file)
+      .then(setEmbeddedMetadata)
+      .catch(e => console.warn("Could not read embedded metadata", e));
   };
 
-  const handleAnalyzeClick = useCallback(async () => {
+  const handleApplyPreprocessing = (settings: PreprocessSettings, crop: CropRect) => {
+    setShowPreprocessor(false);
+    setPreprocessSettings(settings);
+    savePreprocessSettings(settings);
+    setCropRect(crop);
+    if (!imageFile) return;
+    // The scan and any render in flight were of the previous pixels
+    cancelAnalysis();
+    handleCancelGeneration();
+    setAnalysisResult(null);
+    setAnalysisIssues([]);
+    setAnalysisCachedAt(null);
+    applyPreprocessing(imageFile, settings, crop);
+  };
+
+  const loadEmbeddedMetadata = (dataUrl: string) => {
+    setEmbeddedMetadata(null);
+    readImageMetadataFromDataUrl(dataUrl)
+      .then(setEmbeddedMetadata)
+      .catch(e => console.warn("Could not read embedded metadata", e));
+  };
+
+  const runAnalysis = useCallback(async (fresh: boolean = false) => {
     if (!imageUrl) {
       setError("Please upload an image first.");
       return;
     }
 
+    analysisRequestRef.current?.abort();
+    const controller = new AbortController();
+    analysisRequestRef.current = controller;
     setIsLoading(true);
     setError(null);
     setAnalysisResult(null);
+    setAnalysisIssues([]);
+    setAnalysisCachedAt(null);
 
     try {
       const base64Data = imageUrl.split(',')[1];
       const mimeType = imageUrl.split(',')[0].split(':')[1].split(';')[0];
       
-      const result = await analyzeImageStyle(base64Data, mimeType, intensity);
+      const { result, issues, cachedAt } = await analyzeImageStyle(base64Data, mimeType, intensity, { signal: controller.signal, fresh });
+      if (controller.signal.aborted) return;
       setAnalysisResult(result);
+      setAnalysisIssues(issues);
+      setAnalysisCachedAt(cachedAt ?? null);
+      // A cache hit was saved to the library when it first ran
+      if (cachedAt) return;
+
+      const saved: SavedAnalysis = {
+        id: Date.now().toString(),
+        imageUrl,
+        result,
+        intensity,
+        timestamp: Date.now()
+      };
+      setSavedAnalyses(prev => [saved, ...prev]);
+      saveAnalysis(saved)
+        .then(refreshStorageUsage)
+        .catch(e => console.error("Failed to save analysis", e));
     } catch (err) {
+      if (controller.signal.aborted) return;
       console.error(err);
-      setError("Failed to analyze. Check console.");
+      setError(getErrorMessage(err, "Failed to analyze. Check console."));
     } finally {
-      setIsLoading(false);
+      if (analysisRequestRef.current === controller) {
+        analysisRequestRef.current = null;
+        setIsLoading(false);
+      }
     }
-  }, [imageUrl, intensity]);
+  }, [imageUrl, intensity, refreshStorageUsage]);
+
+  const addToHistory = useCallback((item: GeneratedItem) => {
+    setGeneratedHistory(prev => [item, ...prev.filter(p => p.id !== item.id)]);
+    saveHistoryItem(item)
+        .then(refreshStorageUsage)
+        .catch(e => console.error("Failed to save history item", e));
+  }, [refreshStorageUsage]);
 
   const handleGenerateClick = useCallback(async () => {
     if (!imageUrl) {
         setError("Please upload a reference image.");
         return;
     }
-    if (!userIdea && selectedModifiers.length === 0) {
+    if (!canRender) {
         setError("Please enter an idea or select styles.");
         return;
     }
+    const templateProblems = findTemplateProblems(userIdea, templateContext);
+    if (templateProblems.length > 0) {
+        setError(templateProblems.join(' '));
+        return;
+    }
 
+    generationRequestRef.current?.abort();
+    const controller = new AbortController();
+    generationRequestRef.current = controller;
     setIsGenerating(true);
     setError(null);
 
@@ -89,83 +332,107 @@ const App: React.FC = () => {
         const base64Data = imageUrl.split(',')[1];
         const mimeType = imageUrl.split(',')[0].split(':')[1].split(';')[0];
 
+        // Active presets wrap the idea with their prompt prefix/suffix
+        const prompt = composePresetPrompt(renderIdea, presets.filter(p => activePresetIds.includes(p.id)));
+
         // 1. Generate Image
-        const { imageUrl: generatedImgUrl } = await editImageWithGemini(
+        const { imageUrl: generatedImgUrl, executedPrompt, model } = await editImageWithGemini(
             base64Data, 
             mimeType, 
-            userIdea, 
-            selectedModifiers
+            prompt, 
+            renderModifiers,
+            { signal: controller.signal, references }
         );
 
         // 2. Generate Title
-        const title = await generateCreativeTitle(userIdea, selectedModifiers);
+        const title = await generateCreativeTitle(expandedIdea, renderModifiers, { signal: controller.signal });
+        if (controller.signal.aborted) return;
         
-        // 3. Create style context string if analysis exists
-        let styleCtx = "";
-        if (analysisResult) {
-             styleCtx = `A ${analysisResult.style} style image, in the style of ${analysisResult.artist}. Featuring ${analysisResult.mood.toLowerCase()} tones, with a color palette of ${analysisResult.colorPalette.join(', ')}. Key techniques include ${analysisResult.techniques.join(', ')}.`;
-        }
-
-        // 4. Save to History
-        const newItem: GeneratedItem = {
+        // 3. Save to History
+        addToHistory({
             id: Date.now().toString(),
             imageUrl: generatedImgUrl,
             title: title,
-            prompt: userIdea,
-            modifiers: selectedModifiers,
-            styleContext: styleCtx,
-            timestamp: Date.now()
-        };
-
-        setGeneratedHistory(prev => [newItem, ...prev]);
+            prompt,
+            modifiers: renderModifiers,
+            styleContext: renderStyleContext,
+            executedPrompt,
+            model,
+            timestamp: Date.now(),
+            ...(references.length > 0 ? { references } : {}),
+        });
+        // Fresh wildcard and alternation picks for the next render
+        if (isTemplate(userIdea)) setTemplateSeed(Date.now());
 
     } catch (err) {
+        if (controller.signal.aborted) return;
         console.error(err);
-        setError("Failed to generate image. Please try again.");
+        setError(getErrorMessage(err, "Failed to generate image. Please try again."));
     } finally {
-        setIsGenerating(false);
+        if (generationRequestRef.current === controller) {
+            generationRequestRef.current = null;
+            setIsGenerating(false);
+        }
     }
-  }, [imageUrl, userIdea, selectedModifiers, analysisResult]);
+  }, [imageUrl, userIdea, expandedIdea, renderIdea, templateContext, canRender, renderModifiers, presets, activePresetIds, references, renderStyleContext, addToHistory]);
+
+  const variationToItem = (variation: Variation, title: string): GeneratedItem => ({
+      id: variation.id,
+      imageUrl: variation.imageUrl!,
+      title,
+      prompt: variation.prompt,
+      modifiers: renderModifiers,
+      styleContext: renderStyleContext,
+      executedPrompt: variation.executedPrompt,
+      model: variation.model,
+      timestamp: Date.now()
+  });
+
+  const handleVariationToHistory = async (variation: Variation) => {
+      let title = "Untitled Variation";
+      try {
+          title = await generateCreativeTitle(expandedIdea, renderModifiers);
+      } catch (e) {
+          console.warn("Could not title variation", e);
+      }
+      addToHistory(variationToItem(variation, title));
+  };
 
-  const handleDistillClick = async () => {
+  const runDistill = async (fresh: boolean = false) => {
       if (!distillInput.trim()) return;
       setIsDistilling(true);
       setExtractedStyles(null);
+      setDistillIssues([]);
+      setDistillCachedAt(null);
       try {
-          const result = await extractStylesFromText(distillInput);
+          const { result, issues, cachedAt } = await extractStylesFromText(distillInput, { fresh });
           setExtractedStyles(result);
+          setDistillIssues(issues);
+          setDistillCachedAt(cachedAt ?? null);
+          // A cache hit was saved to the library when it first ran
+          if (cachedAt) return;
+
+          const saved: SavedExtraction = {
+              id: Date.now().toString(),
+              sourceText: distillInput,
+              result,
+              timestamp: Date.now()
+          };
+          setSavedExtractions(prev => [saved, ...prev]);
+          saveExtraction(saved)
+              .then(refreshStorageUsage)
+              .catch(err => console.error("Failed to save distillation", err));
       } catch (e) {
           console.error(e);
-          setError("Failed to distill styles.");
+          setError(getErrorMessage(e, "Failed to distill styles."));
       } finally {
           setIsDistilling(false);
       }
   };
 
-  const formatDistilledOutput = (styles: StyleExtractionResult) => {
-      return `STYLE DISTILLATION REPORT
-${new Date().toLocaleString()}
-
-LIGHTING:
-${styles.lighting.join(', ') || 'None'}
-
-MEDIUM:
-${styles.medium.join(', ') || 'None'}
-
-TEXTURES:
-${styles.textures.join(', ') || 'None'}
-
-TECHNIQUES:
-${styles.techniques.join(', ') || 'None'}
-
-VIBE:
-${styles.vibe.join(', ') || 'None'}
-`;
-  };
-
   const handleCopyDistilled = () => {
       if (!extractedStyles) return;
-      const text = formatDistilledOutput(extractedStyles);
+      const text = formatStyleReport(extractedStyles, distillFormat);
       navigator.clipboard.writeText(text);
       setDistillCopied(true);
       setTimeout(() => setDistillCopied(false), 2000);
@@ -173,16 +440,8 @@ ${styles.vibe.join(', ') || 'None'}
 
   const handleDownloadDistilled = () => {
       if (!extractedStyles) return;
-      const text = formatDistilledOutput(extractedStyles);
-      const blob = new Blob([text], { type: 'text/plain;charset=utf-8' });
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = `style-dna-${Date.now()}.txt`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      URL.revokeObjectURL(url);
+      const text = formatStyleReport(extractedStyles, distillFormat);
+      downloadText(text, `style-dna-${Date.now()}.${FORMAT_EXTENSIONS[distillFormat]}`, FORMAT_MIME_TYPES[distillFormat]);
   };
 
   const applyDistilledStyles = () => {
@@ -198,9 +457,62 @@ ${styles.vibe.join(', ') || 'None'}
       const uniqueTags = allTags.filter(tag => !selectedModifiers.includes(tag));
       setSelectedModifiers(prev => [...prev, ...uniqueTags]);
       setExtractedStyles(null);
+      setDistillIssues([]);
+      setDistillCachedAt(null);
       setDistillInput('');
   };
 
+  const handleSaveDistilledAsPreset = () => {
+      if (!extractedStyles) return;
+      const name = window.prompt("Name for the new preset:", extractedStyles.vibe[0] || "Distilled Style");
+      if (!name?.trim()) return;
+      handleSavePresets([createPreset({
+          name: name.trim(),
+          modifiers: presetModifiersFromExtraction(extractedStyles),
+          description: distillInput.trim().slice(0, 140),
+      }, presets)]);
+  };
+
+  const handleTogglePreset = (preset: StylePreset) => {
+      const isActive = activePresetIds.includes(preset.id);
+      const remaining = activePresetIds.filter(id => id !== preset.id);
+      setActivePresetIds(isActive ? remaining : [...activePresetIds, preset.id]);
+      if (isActive) {
+          // Keep modifiers that another active preset still contributes
+          const stillProvided = new Set(presets.filter(p => remaining.includes(p.id)).flatMap(p => p.modifiers));
+          setSelectedModifiers(prev => prev.filter(m => !preset.modifiers.includes(m) || stillProvided.has(m)));
+      } else {
+          setSelectedModifiers(prev => [...prev, ...preset.modifiers.filter(m => !prev.includes(m))]);
+      }
+  };
+
+  const handleSavePresets = (changed: StylePreset[]) => {
+      if (changed.length === 0) return;
+      setPresets(prev => [...prev.filter(p => !changed.some(c => c.id === p.id)), ...changed]);
+      savePresets(changed).catch(e => console.error("Failed to save presets", e));
+  };
+
+  const handleDeletePreset = (id: string) => {
+      setPresets(prev => prev.filter(p => p.id !== id));
+      setActivePresetIds(prev => prev.filter(p => p !== id));
+      deletePreset(id).catch(e => console.error("Failed to delete preset", e));
+  };
+
+  const handleSaveWildcard = (list: WildcardList) => {
+      setWildcardLists(prev => [list, ...prev.filter(l => l.id !== list.id)]);
+      saveWildcard(list).catch(e => console.error("Failed to save word list", e));
+  };
+
+  const handleDeleteWildcard = (id: string) => {
+      setWildcardLists(prev => prev.filter(l => l.id !== id));
+      deleteWildcard(id).catch(e => console.error("Failed to delete word list", e));
+  };
+
+  const handleBlendStyles = (modifiers: string[]) => {
+      setSelectedModifiers(prev => [...prev, ...modifiers.filter(m => !prev.includes(m))]);
+      setShowCompare(false);
+  };
+
   const toggleModifier = (mod: string) => {
     setSelectedModifiers(prev => 
         prev.includes(mod) ? prev.filter(m => m !== mod) : [...prev, mod]
@@ -215,11 +527,16 @@ ${styles.vibe.join(', ') || 'None'}
   };
 
   const handleReset = () => {
+    cancelAnalysis();
+    handleCancelGeneration();
     setImageFile(null);
+    clearPreprocessing();
     setImageUrl(null);
     setAnalysisResult(null);
+    setAnalysisIssues([]);
+    setAnalysisCachedAt(null);
+    setEmbeddedMetadata(null);
     setError(null);
-    setIsLoading(false);
     setIntensity(1);
   };
 
@@ -227,19 +544,145 @@ ${styles.vibe.join(', ') || 'None'}
       handleReset();
   }
 
-  const generateLogText = (item: GeneratedItem) => {
-      return `${item.title}
-${new Date(item.timestamp).toLocaleString()}
+  const handleAddBatchFiles = async (files: File[]) => {
+      setShowBatch(true);
+      // Same orientation, downscale and format handling as a single upload, without a crop.
+      // One at a time: decoding a folder of full-size photos at once can exhaust memory
+      const newItems: BatchItem[] = [];
+      const skipped: string[] = [];
+      for (const [idx, file] of files.entries()) {
+          const fileName = file.webkitRelativePath || file.name;
+          try {
+              newItems.push({
+                  id: `${Date.now()}-${idx}`,
+                  fileName,
+                  imageUrl: (await preprocessImage(file, preprocessSettings)).dataUrl,
+                  status: 'queued',
+              });
+          } catch (e) {
+              console.error(`Failed to read ${fileName}`, e);
+              skipped.push(fileName);
+          }
+      }
+      if (newItems.length > 0) setBatchItems(prev => [...prev, ...newItems]);
+      if (skipped.length > 0) {
+          setError(`Skipped ${skipped.length} file${skipped.length === 1 ? '' : 's'} that couldn't be read: ${skipped.join(', ')}`);
+      }
+  };
+
+  const handleBatchResult = useCallback((item: BatchItem, result: AnalysisResult) => {
+      const saved: SavedAnalysis = {
+          id: `batch-${item.id}`,
+          imageUrl: item.imageUrl,
+          result,
+          intensity,
+          timestamp: Date.now()
+      };
+      setSavedAnalyses(prev => [saved, ...prev.filter(a => a.id !== saved.id)]);
+      saveAnalysis(saved)
+          .then(refreshStorageUsage)
+          .catch(e => console.error("Failed to save analysis", e));
+  }, [intensity, refreshStorageUsage]);
+
+  const handleOpenBatchResult = (item: BatchItem) => {
+      if (!item.result) return;
+      cancelAnalysis();
+      handleCancelGeneration();
+      setImageFile(null);
+      clearPreprocessing();
+      setImageUrl(item.imageUrl);
+      loadEmbeddedMetadata(item.imageUrl);
+      setAnalysisResult(item.result);
+      setAnalysisIssues(item.issues ?? []);
+      setAnalysisCachedAt(null);
+      setError(null);
+  };
+
+  const handleRestoreAnalysis = (saved: SavedAnalysis) => {
+      cancelAnalysis();
+      handleCancelGeneration();
+      setImageFile(null);
+      clearPreprocessing();
+      setImageUrl(saved.imageUrl);
+      loadEmbeddedMetadata(saved.imageUrl);
+      setAnalysisResult(saved.result);
+      setAnalysisIssues([]);
+      setAnalysisCachedAt(null);
+      setIntensity(saved.intensity);
+      setError(null);
+  };
+
+  const handleDeleteAnalysis = (id: string) => {
+      setSavedAnalyses(prev => prev.filter(a => a.id !== id));
+      deleteAnalysis(id)
+          .then(refreshStorageUsage)
+          .catch(e => console.error("Failed to delete analysis", e));
+  };
+
+  const handleRestoreExtraction = (saved: SavedExtraction) => {
+      setDistillInput(saved.sourceText);
+      setExtractedStyles(saved.result);
+      setDistillIssues([]);
+      setDistillCachedAt(null);
+  };
+
+  const handleDeleteExtraction = (id: string) => {
+      setSavedExtractions(prev => prev.filter(x => x.id !== id));
+      deleteExtraction(id)
+          .then(refreshStorageUsage)
+          .catch(e => console.error("Failed to delete distillation", e));
+  };
 
-Prompt:
-${item.prompt}
+  const updateHistoryItem = (id: string, patch: Partial<GeneratedItem>) => {
+      const current = generatedHistory.find(item => item.id === id);
+      if (!current) return;
+      const updated = { ...current, ...patch };
+      setGeneratedHistory(prev => prev.map(item => item.id === id ? updated : item));
+      saveHistoryItem(updated).catch(e => console.error("Failed to update history item", e));
+  };
 
-Styles:
-${item.modifiers.join(', ') || 'None'}
+  const handleDeleteHistoryItem = (id: string) => {
+      setGeneratedHistory(prev => prev.filter(item => item.id !== id));
+      deleteHistoryItem(id)
+          .then(refreshStorageUsage)
+          .catch(e => console.error("Failed to delete history item", e));
+  };
 
-${item.styleContext ? `Original Style Context:\n${item.styleContext}` : ''}`;
+  const handleClearStorage = async () => {
+      if (!window.confirm("Delete all saved history, scans, distillations and cached results from this browser?")) return;
+      try {
+          await clearAllStoredData();
+          setGeneratedHistory([]);
+          setSavedAnalyses([]);
+          setSavedExtractions([]);
+      } catch (e) {
+          console.error(e);
+          setError("Failed to clear saved data.");
+      } finally {
+          refreshStorageUsage();
+      }
   };
 
+  const handleClearCache = async () => {
+      try {
+          await clearCachedResults();
+      } catch (e) {
+          console.error(e);
+          setError("Failed to clear the result cache.");
+      } finally {
+          refreshStorageUsage();
+      }
+  };
+
+  const handleSaveProviderSettings = (next: ProviderSettings) => {
+      saveProviderSettings(next);
+      setProviderSettings(next);
+      setShowProviderSettings(false);
+      setError(null);
+  };
+
+  const generateLogText = (item: GeneratedItem) => formatHistoryLog(item, logFormat);
+
   const handleCopyLog = (item: GeneratedItem) => {
       const text = generateLogText(item);
       navigator.clipboard.writeText(text);
@@ -249,47 +692,78 @@ ${item.styleContext ? `Original Style Context:\n${item.styleContext}` : ''}`;
 
   const handleDownloadLog = (item: GeneratedItem) => {
       const text = generateLogText(item);
-      const blob = new Blob([text], { type: 'text/plain;charset=utf-8' });
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = `${item.title.replace(/\s+/g, '-').toLowerCase()}-log.txt`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      URL.revokeObjectURL(url);
+      downloadText(text, `${item.title.replace(/\s+/g, '-').toLowerCase()}-log.${FORMAT_EXTENSIONS[logFormat]}`, FORMAT_MIME_TYPES[logFormat]);
   };
 
+  const handleDownloadImage = async (item: GeneratedItem) => {
+      try {
+          downloadBlob(await exportGeneratedPng(item), `nano-render-${item.id}.png`);
+      } catch (e) {
+          console.error(e);
+          setError(getErrorMessage(e, "Failed to export the image."));
+      }
+  };
+
+  // Exports cover whatever the history filter currently shows
+  const visibleHistory: GeneratedItem[] = filterHistory(generatedHistory, historyFilter);
+  const historyFiltered = isFilterActive(historyFilter);
+  const historyTags = collectTags(generatedHistory);
+
   const handleDownloadAllZip = async () => {
-      if (generatedHistory.length === 0) return;
-      
-      const zip = new JSZip();
-      const folder = zip.folder("nano-banana-logs");
-      
-      // Add images and logs
-      for (const item of generatedHistory) {
-          // Add Text Log
-          const logText = generateLogText(item);
-          folder?.file(`logs/${item.title.replace(/\s+/g, '_')}_${item.id}.txt`, logText);
+      if (visibleHistory.length === 0) return;
+      setIsExportingZip(true);
+      try {
+          const content = await buildHistoryArchive(visibleHistory, logFormat);
+          downloadBlob(content, `nano_banana_history_${Date.now()}.zip`);
+      } catch (e) {
+          console.error(e);
+          setError("Failed to build the history ZIP.");
+      } finally {
+          setIsExportingZip(false);
+      }
+  };
 
-          // Add Image (Need to fetch blob from data URL)
-          try {
-             const response = await fetch(item.imageUrl);
-             const blob = await response.blob();
-             folder?.file(`images/${item.title.replace(/\s+/g, '_')}_${item.id}.png`, blob);
-          } catch (e) {
-              console.error("Failed to add image to zip", e);
-          }
+  const handleExportGallery = async () => {
+      if (visibleHistory.length === 0) return;
+      setIsExportingGallery(true);
+      try {
+          const content = await buildGalleryArchive(visibleHistory);
+          downloadBlob(content, `nano_banana_gallery_${Date.now()}.zip`);
+      } catch (e) {
+          console.error(e);
+          setError("Failed to build the gallery export.");
+      } finally {
+          setIsExportingGallery(false);
       }
+  };
 
-      const content = await zip.generateAsync({ type: "blob" });
-      const url = URL.createObjectURL(content);
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = `nano_banana_history_${Date.now()}.zip`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
+  const handleImportHistoryZip = async (event: React.ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      event.target.value = '';
+      if (!file) return;
+      try {
+          const { items, skipped } = await readHistoryArchive(file);
+          // Skip ids already in history, and repeats within a hand-merged archive
+          const known = new Set(generatedHistory.map(item => item.id));
+          const added = items.filter(item => {
+              if (known.has(item.id)) return false;
+              known.add(item.id);
+              return true;
+          });
+          await Promise.all(added.map(saveHistoryItem));
+          setGeneratedHistory(prev => [...prev, ...added].sort((a, b) => b.timestamp - a.timestamp));
+          const duplicates = items.length - added.length;
+          setHistoryNotice([
+              `Imported ${added.length} item${added.length === 1 ? '' : 's'}`,
+              duplicates > 0 ? `${duplicates} duplicate${duplicates === 1 ? '' : 's'} skipped` : '',
+              skipped > 0 ? `${skipped} unreadable` : '',
+          ].filter(Boolean).join(' · ') + '.');
+      } catch (e) {
+          console.error(e);
+          setError("Could not read that archive. Is it a history ZIP exported from this app?");
+      } finally {
+          refreshStorageUsage();
+      }
   };
 
   return (
@@ -299,15 +773,31 @@ ${item.styleContext ? `Original Style Context:\n${item.styleContext}` : ''}`;
           <WandIcon className="w-6 h-6 text-purple-400" />
           Art Style Scanner <span className="text-xs font-bold text-gray-400 bg-[#1a1c29] px-2 py-0.5 rounded border border-gray-700">Nano Banana</span>
         </h1>
-         <a
-          href="https://github.com/google/genai-js"
-          target="_blank"
-          rel="noopener noreferrer"
-          className="text-gray-500 hover:text-white transition-colors"
-          aria-label="View source on GitHub"
-        >
-          <GithubIcon className="w-6 h-6" />
-        </a>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => setShowUsage(true)}
+            className="text-xs font-bold font-mono text-gray-400 hover:text-white bg-[#1a1c29] px-2 py-1 rounded border border-gray-700 transition-colors"
+            title="Token usage and estimated cost"
+          >
+            {formatCost(summarizeUsage(todayRecords()).cost)} today
+          </button>
+          <button
+            onClick={() => setShowProviderSettings(true)}
+            className="text-xs font-bold flex items-center gap-1 text-gray-400 hover:text-white bg-[#1a1c29] px-2 py-1 rounded border border-gray-700 transition-colors"
+            title="AI provider settings"
+          >
+            <CogIcon className="w-4 h-4" /> {activeProviderLabel}
+          </button>
+          <a
+            href="https://github.com/google/genai-js"
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-gray-500 hover:text-white transition-colors"
+            aria-label="View source on GitHub"
+          >
+            <GithubIcon className="w-6 h-6" />
+          </a>
+        </div>
       </header>
       
       <main className="flex-grow container mx-auto p-4 md:p-6">
@@ -324,11 +814,30 @@ ${item.styleContext ? `Original Style Context:\n${item.styleContext}` : ''}`;
                     </h2>
                     
                     <div className="mb-4 relative">
-                        <label className="block text-xs font-bold text-gray-500 mb-1 uppercase tracking-wide">Your Idea</label>
+                        <div className="flex justify-between items-center mb-1">
+                            <label className="block text-xs font-bold text-gray-500 uppercase tracking-wide">Your Idea</label>
+                            <div className="flex gap-1">
+                                <button
+                                    onClick={() => setShowWildcards(true)}
+                                    className="text-[10px] font-bold px-2 py-0.5 rounded border border-gray-700 text-gray-400 hover:text-white"
+                                    title="Manage __wildcard__ word lists"
+                                >
+                                    Wildcards
+                                </button>
+                                <button
+                                    onClick={() => setShowMatrix(true)}
+                                    disabled={!imageUrl || !userIdea.trim()}
+                                    className="text-[10px] font-bold px-2 py-0.5 rounded border border-gray-700 text-gray-400 hover:text-white disabled:opacity-40"
+                                    title="Render a grid across two axes, e.g. subjects × style presets"
+                                >
+                                    X/Y Matrix
+                                </button>
+                            </div>
+                        </div>
                         <div className="relative">
                             <textarea 
                                 className="w-full bg-[#0b0c15] border border-gray-700 rounded-lg p-3 text-sm text-white placeholder-gray-600 focus:ring-2 focus:ring-purple-500 focus:border-transparent outline-none resize-none h-28 pr-8"
-                                placeholder="E.g., A futuristic city, a cat eating pizza, explosion of flowers..."
+                                placeholder="E.g., A futuristic city, a cat eating pizza, explosion of flowers... Templates: {subject}, __animal__, {dawn|dusk}"
                                 value={userIdea}
                                 onChange={(e) => setUserIdea(e.target.value)}
                             />
@@ -342,23 +851,47 @@ ${item.styleContext ? `Original Style Context:\n${item.styleContext}` : ''}`;
                                 </button>
                             )}
                         </div>
+                        {ideaVariables.length > 0 && (
+                            <div className="mt-2 grid grid-cols-2 gap-2">
+                                {ideaVariables.map(name => (
+                                    <input
+                                        key={name}
+                                        value={templateVariables[name] ?? ''}
+                                        onChange={(e) => setTemplateVariables(prev => ({ ...prev, [name]: e.target.value }))}
+                                        placeholder={`{${name}}`}
+                                        className="bg-[#0b0c15] border border-gray-700 rounded px-2 py-1.5 text-xs text-white font-mono focus:outline-none focus:border-purple-500 placeholder-gray-600"
+                                    />
+                                ))}
+                            </div>
+                        )}
+                        {isTemplate(userIdea) && (
+                            <div className="mt-2 flex items-start gap-2 text-[11px] text-gray-400 bg-[#0b0c15] border border-gray-800 rounded px-2 py-1.5">
+                                <span className="font-bold text-gray-500 uppercase shrink-0">Preview</span>
+                                <span className="flex-1">{expandedIdea}</span>
+                                <button onClick={() => setTemplateSeed(Date.now())} className="shrink-0 text-gray-500 hover:text-white" title="Re-roll wildcards and alternations">↻</button>
+                            </div>
+                        )}
                     </div>
 
+                    {styleLock && (
+                        <StyleLockPanel
+                            lock={styleLock}
+                            onToggleField={(field) => setStyleLock(prev => prev && toggleStyleLockField(prev, field))}
+                            onRelease={() => setStyleLock(null)}
+                        />
+                    )}
+
+                    <ReferenceSlots references={references} onChange={setReferences} />
+
                     <div className="mb-6">
-                        <label className="block text-xs font-bold text-gray-500 mb-2 uppercase tracking-wide">Style DNA</label>
-                        <div className="flex flex-wrap gap-2 mb-3">
-                            {STYLE_PRESETS.map(style => (
-                                <button 
-                                    key={style}
-                                    onClick={() => toggleModifier(style)}
-                                    className={`text-xs font-medium px-3 py-1.5 rounded-md border transition-all duration-200 ${selectedModifiers.includes(style) 
-                                        ? 'bg-purple-600 border-purple-500 text-white shadow-[0_0_10px_rgba(147,51,234,0.4)]' 
-                                        : 'bg-[#1a1c29] border-gray-700 text-gray-400 hover:border-gray-500 hover:text-gray-200'}`}
-                                >
-                                    {style}
-                                </button>
-                            ))}
-                        </div>
+                        <PresetLibrary
+                            presets={presets}
+                            activePresetIds={activePresetIds}
+                            selectedModifiers={selectedModifiers}
+                            onTogglePreset={handleTogglePreset}
+                            onSavePresets={handleSavePresets}
+                            onDeletePreset={handleDeletePreset}
+                        />
                         <div className="flex gap-2">
                             <input 
                                 type="text"
@@ -387,13 +920,31 @@ ${item.styleContext ? `Original Style Context:\n${item.styleContext}` : ''}`;
                         )}
                     </div>
 
-                    <button 
-                        onClick={handleGenerateClick}
-                        disabled={!imageUrl || isGenerating || (!userIdea && selectedModifiers.length === 0)}
-                        className="w-full bg-gradient-to-r from-purple-600 to-cyan-600 hover:from-purple-500 hover:to-cyan-500 disabled:opacity-50 disabled:cursor-not-allowed text-white font-bold py-3 px-4 rounded-lg transition-all shadow-lg shadow-purple-900/20 flex justify-center items-center gap-2"
-                    >
-                        {isGenerating ? <Spinner /> : <><MagicIcon className="w-5 h-5" /> Nano Render</>}
-                    </button>
+                    <div className="flex gap-2">
+                        <button 
+                            onClick={handleGenerateClick}
+                            disabled={!imageUrl || isGenerating || !canRender}
+                            className="flex-1 bg-gradient-to-r from-purple-600 to-cyan-600 hover:from-purple-500 hover:to-cyan-500 disabled:opacity-50 disabled:cursor-not-allowed text-white font-bold py-3 px-4 rounded-lg transition-all shadow-lg shadow-purple-900/20 flex justify-center items-center gap-2"
+                        >
+                            {isGenerating ? <Spinner /> : <><MagicIcon className="w-5 h-5" /> Nano Render</>}
+                        </button>
+                        <button
+                            onClick={() => setShowVariations(true)}
+                            disabled={!imageUrl || !canRender}
+                            className="px-4 rounded-lg border border-gray-700 text-gray-300 hover:text-white hover:border-purple-500 disabled:opacity-50 disabled:cursor-not-allowed text-sm font-bold transition-colors"
+                            title="Render several variations of this idea side by side"
+                        >
+                            Variations
+                        </button>
+                        {isGenerating && (
+                            <button
+                                onClick={handleCancelGeneration}
+                                className="px-4 rounded-lg border border-gray-700 text-gray-300 hover:text-white hover:border-red-500 text-sm font-bold transition-colors"
+                            >
+                                Cancel
+                            </button>
+                        )}
+                    </div>
                 </div>
 
                 {/* STYLE DISTILLER CARD */}
@@ -425,7 +976,7 @@ ${item.styleContext ? `Original Style Context:\n${item.styleContext}` : ''}`;
                     </div>
                     
                     <button 
-                        onClick={handleDistillClick}
+                        onClick={() => runDistill()}
                         disabled={!distillInput || isDistilling}
                         className="w-full bg-gray-800 hover:bg-gray-700 border border-gray-600 text-gray-200 font-bold py-2 px-4 rounded-lg transition-all flex justify-center items-center gap-2 text-sm disabled:opacity-50"
                     >
@@ -434,9 +985,30 @@ ${item.styleContext ? `Original Style Context:\n${item.styleContext}` : ''}`;
 
                     {extractedStyles && (
                         <div className="mt-4 bg-[#0b0c15] rounded border border-amber-900/30 p-3 animate-fade-in">
+                            <ValidationNotice issues={distillIssues} />
                             <div className="flex justify-between items-center mb-2">
-                                <span className="text-xs font-bold text-amber-500 uppercase">Extracted DNA</span>
+                                <span className="text-xs font-bold text-amber-500 uppercase flex items-center gap-2">
+                                    Extracted DNA
+                                    {distillCachedAt && (
+                                        <button
+                                            onClick={() => runDistill(true)}
+                                            disabled={isDistilling}
+                                            className="text-[9px] font-bold normal-case text-cyan-300 border border-cyan-900/50 bg-cyan-900/10 px-1.5 py-0.5 rounded hover:text-white disabled:opacity-50"
+                                            title={`Cached result from ${new Date(distillCachedAt).toLocaleString()}. Click to run it fresh.`}
+                                        >
+                                            Cached ↻
+                                        </button>
+                                    )}
+                                </span>
                                 <div className="flex gap-1 items-center">
+                                    <select
+                                        value={distillFormat}
+                                        onChange={(e) => setDistillFormat(e.target.value as SerializationFormat)}
+                                        className="bg-[#13141f] border border-gray-700 rounded px-1 py-0.5 text-[10px] text-gray-300 focus:outline-none"
+                                        title="Report format"
+                                    >
+                                        {SERIALIZATION_FORMATS.map(f => <option key={f} value={f}>{FORMAT_LABELS[f]}</option>)}
+                                    </select>
                                      <button 
                                         onClick={handleCopyDistilled}
                                         className="text-gray-400 hover:text-white p-1.5 rounded hover:bg-gray-800 transition-colors"
@@ -451,6 +1023,13 @@ ${item.styleContext ? `Original Style Context:\n${item.styleContext}` : ''}`;
                                     >
                                         <DownloadIcon className="w-3 h-3" />
                                     </button>
+                                    <button 
+                                        onClick={handleSaveDistilledAsPreset}
+                                        className="text-[10px] border border-amber-700 text-amber-300 hover:text-white px-2 py-1 rounded font-bold ml-1"
+                                        title="Save these tags as a style preset"
+                                    >
+                                        Save Preset
+                                    </button>
                                     <button 
                                         onClick={applyDistilledStyles}
                                         className="text-[10px] bg-amber-600 hover:bg-amber-500 text-white px-2 py-1 rounded font-bold ml-1"
@@ -475,6 +1054,20 @@ ${item.styleContext ? `Original Style Context:\n${item.styleContext}` : ''}`;
                         </div>
                     )}
                 </div>
+
+                {/* SAVED LIBRARY CARD */}
+                <SavedLibrary
+                    analyses={savedAnalyses}
+                    extractions={savedExtractions}
+                    usage={storageUsage}
+                    onRestoreAnalysis={handleRestoreAnalysis}
+                    onDeleteAnalysis={handleDeleteAnalysis}
+                    onRestoreExtraction={handleRestoreExtraction}
+                    onDeleteExtraction={handleDeleteExtraction}
+                    onClearAll={handleClearStorage}
+                    onClearCache={handleClearCache}
+                    onCompare={() => setShowCompare(true)}
+                />
             </div>
 
             {/* RIGHT COLUMN: Visuals */}
@@ -488,6 +1081,12 @@ ${item.styleContext ? `Original Style Context:\n${item.styleContext}` : ''}`;
                                     Clear All
                                 </button>
                             )}
+                            <button
+                                onClick={() => setShowBatch(prev => !prev)}
+                                className={`text-xs font-normal border px-2 py-0.5 rounded transition-colors ${showBatch ? 'text-purple-300 border-purple-700/50 bg-purple-900/20' : 'text-gray-400 border-gray-700 bg-[#1a1c29] hover:text-gray-200'}`}
+                            >
+                                Batch{batchItems.length > 0 && ` (${batchItems.length})`}
+                            </button>
                         </h3>
                         
                         {/* CONTROLS HEADER: Intensity & Scan */}
@@ -512,57 +1111,167 @@ ${item.styleContext ? `Original Style Context:\n${item.styleContext}` : ''}`;
                                 </div>
 
                                 <button 
-                                    onClick={handleAnalyzeClick}
+                                    onClick={() => runAnalysis()}
                                     disabled={isLoading}
                                     className="text-xs font-bold bg-gradient-to-r from-blue-600 to-cyan-600 hover:from-blue-500 hover:to-cyan-500 px-4 py-2 rounded text-white transition-all shadow-lg shadow-cyan-900/20 tracking-wide"
                                 >
                                     {isLoading ? 'SCANNING...' : 'SCAN IMAGE'}
                                 </button>
+                                {isLoading && (
+                                    <button
+                                        onClick={cancelAnalysis}
+                                        className="text-xs font-bold px-3 py-2 rounded border border-gray-700 text-gray-300 hover:text-white hover:border-red-500 transition-colors tracking-wide"
+                                    >
+                                        CANCEL
+                                    </button>
+                                )}
                             </div>
                         )}
                      </div>
                      
                      <ImageUploader 
                         onImageChange={handleImageChange} 
+                        onMultipleImages={handleAddBatchFiles}
                         imageUrl={imageUrl} 
                         onReset={handleReset}
                     />
 
+                    {imageFile && (isPreprocessing || preprocessInfo) && (
+                        <div className="mt-3 flex flex-wrap items-center gap-2 text-[11px] text-gray-400">
+                            {isPreprocessing || !preprocessInfo ? (
+                                <span>Preparing image…</span>
+                            ) : (
+                                <>
+                                    <span className="font-mono">{preprocessInfo.width} × {preprocessInfo.height}</span>
+                                    <span>·</span>
+                                    <span>{preprocessInfo.mimeType.replace('image/', '').toUpperCase()}</span>
+                                    <span>·</span>
+                                    <span title="Size of the image sent to the provider">
+                                        <span className="text-white font-mono">{formatBytes(preprocessInfo.bytes)}</span>
+                                        {preprocessInfo.reencoded && <span className="text-gray-600"> (from {formatBytes(preprocessInfo.originalBytes)})</span>}
+                                    </span>
+                                    {preprocessInfo.orientation > 1 && <span className="text-cyan-400">· rotated upright</span>}
+                                </>
+                            )}
+                            <button
+                                onClick={() => setShowPreprocessor(true)}
+                                className="ml-auto text-[10px] font-bold px-2 py-0.5 rounded border border-gray-700 text-gray-400 hover:text-white"
+                                title="Crop, resize or convert the image before it is sent"
+                            >
+                                Adjust
+                            </button>
+                        </div>
+                    )}
+
                     {error && <div className="mt-4 text-center text-red-300 bg-red-900/20 border border-red-900/50 p-3 rounded-lg text-sm font-medium">{error}</div>}
                 </div>
 
+                {/* Hidden rather than unmounted: the scanner owns the queue dispatcher, which must keep running */}
+                <div className={showBatch ? '' : 'hidden'}>
+                    <BatchScanner
+                        items={batchItems}
+                        onItemsChange={setBatchItems}
+                        onAddFiles={handleAddBatchFiles}
+                        onOpenResult={handleOpenBatchResult}
+                        onResult={handleBatchResult}
+                        intensity={intensity}
+                    />
+                </div>
+
+                {/* Generation data found inside the file, next to the AI's own reading */}
+                {embeddedMetadata && (
+                    <EmbeddedMetadataPanel metadata={embeddedMetadata} analysisPrompt={analysisResult?.creativePrompt} />
+                )}
+
                 {/* Analysis Result Display */}
                 {analysisResult && (
                     <div className="animate-fade-in">
-                        <ResultDisplay result={analysisResult} />
+                        <ResultDisplay
+                            result={analysisResult}
+                            imageUrl={imageUrl}
+                            issues={analysisIssues}
+                            cachedAt={analysisCachedAt}
+                            onRunFresh={isLoading ? undefined : () => runAnalysis(true)}
+                            isStyleLocked={styleLock?.analysis === analysisResult}
+                            onLockStyle={() => imageUrl && setStyleLock(createStyleLock(analysisResult, imageUrl))}
+                        />
                     </div>
                 )}
                 
                 {/* HISTORY SECTION */}
-                {generatedHistory.length > 0 && (
-                    <div className="space-y-4 animate-fade-in">
+                <div className="space-y-4 animate-fade-in">
                         <div className="flex justify-between items-end">
                              <h3 className="text-xl font-bold text-gray-200 flex items-center gap-2">
                                 <HistoryIcon className="w-5 h-5 text-gray-400" />
                                 History Log
                              </h3>
-                             <button 
-                                onClick={handleDownloadAllZip}
-                                className="text-xs flex items-center gap-1 text-cyan-400 hover:text-cyan-300 font-bold bg-cyan-900/20 border border-cyan-900/50 px-3 py-1.5 rounded transition-colors"
-                             >
-                                <DownloadIcon className="w-3 h-3" /> Save All (ZIP)
-                             </button>
+                             <div className="flex items-center gap-2">
+                                 <select
+                                    value={logFormat}
+                                    onChange={(e) => setLogFormat(e.target.value as SerializationFormat)}
+                                    className="bg-[#0b0c15] border border-gray-700 rounded px-2 py-1 text-xs text-gray-300 focus:outline-none"
+                                    title="Log format"
+                                 >
+                                    {SERIALIZATION_FORMATS.map(f => <option key={f} value={f}>{FORMAT_LABELS[f]} logs</option>)}
+                                 </select>
+                                 <button
+                                    onClick={() => historyZipInputRef.current?.click()}
+                                    className="text-xs font-bold text-gray-400 hover:text-white bg-[#0b0c15] border border-gray-700 px-3 py-1.5 rounded transition-colors"
+                                    title="Restore renders from a history ZIP exported earlier"
+                                 >
+                                    Import ZIP
+                                 </button>
+                                 <input ref={historyZipInputRef} type="file" accept=".zip,application/zip" className="hidden" onChange={handleImportHistoryZip} />
+                                 <button
+                                    onClick={handleExportGallery}
+                                    disabled={visibleHistory.length === 0 || isExportingGallery}
+                                    className="text-xs font-bold text-gray-400 hover:text-white bg-[#0b0c15] border border-gray-700 px-3 py-1.5 rounded transition-colors disabled:opacity-40"
+                                    title="Offline HTML gallery with filtering, plus a printable contact sheet"
+                                 >
+                                    {isExportingGallery ? 'Building…' : historyFiltered ? `Gallery of ${visibleHistory.length}` : 'Gallery (HTML)'}
+                                 </button>
+                                 <button 
+                                    onClick={handleDownloadAllZip}
+                                    disabled={visibleHistory.length === 0 || isExportingZip}
+                                    className="text-xs flex items-center gap-1 text-cyan-400 hover:text-cyan-300 font-bold bg-cyan-900/20 border border-cyan-900/50 px-3 py-1.5 rounded transition-colors disabled:opacity-40"
+                                 >
+                                    <DownloadIcon className="w-3 h-3" /> {isExportingZip ? 'Zipping…' : historyFiltered ? `Save ${visibleHistory.length} Shown (ZIP)` : 'Save All (ZIP)'}
+                                 </button>
+                             </div>
                         </div>
+
+                        {historyNotice && (
+                            <div className="flex justify-between items-center text-xs text-cyan-300 bg-cyan-900/10 border border-cyan-900/50 rounded px-3 py-2">
+                                <span>{historyNotice}</span>
+                                <button onClick={() => setHistoryNotice(null)}><XIcon className="w-3 h-3" /></button>
+                            </div>
+                        )}
                          
+                         {generatedHistory.length > 0 && (
+                            <HistoryFilterBar
+                                filter={historyFilter}
+                                onChange={setHistoryFilter}
+                                modifiers={collectModifiers(generatedHistory)}
+                                tags={historyTags}
+                                shown={visibleHistory.length}
+                                total={generatedHistory.length}
+                            />
+                         )}
+
+                         {generatedHistory.length === 0 ? (
+                            <p className="text-sm text-gray-600">No renders yet. Generate an image or import a history ZIP.</p>
+                         ) : visibleHistory.length === 0 ? (
+                            <p className="text-sm text-gray-600">Nothing matches these filters.</p>
+                         ) : (
                          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                            {generatedHistory.map((item) => (
+                            {visibleHistory.map((item) => (
                                 <div key={item.id} className="bg-[#1a1c29] border border-gray-700 rounded-lg overflow-hidden group hover:border-purple-500/50 transition-all duration-300 flex flex-col shadow-lg">
                                     <div className="relative aspect-video bg-[#0b0c15]">
                                         <img src={item.imageUrl} alt={item.title} className="w-full h-full object-cover" />
                                         <div className="absolute inset-0 bg-[#0b0c15]/70 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center gap-2 backdrop-blur-sm">
-                                            <a href={item.imageUrl} download={`nano-render-${item.id}.png`} className="p-2 bg-white/10 hover:bg-white/20 rounded-full text-white border border-white/10" title="Download Image">
+                                            <button onClick={() => handleDownloadImage(item)} className="p-2 bg-white/10 hover:bg-white/20 rounded-full text-white border border-white/10" title="Download Image">
                                                 <DownloadIcon className="w-5 h-5" />
-                                            </a>
+                                            </button>
                                             <button 
                                                 onClick={() => setEditingItem(item)}
                                                 className="p-2 bg-purple-600 hover:bg-purple-500 rounded-full text-white shadow-lg shadow-purple-500/30"
@@ -570,6 +1279,13 @@ ${item.styleContext ? `Original Style Context:\n${item.styleContext}` : ''}`;
                                             >
                                                 <ChatBubbleIcon className="w-5 h-5" />
                                             </button>
+                                            <button 
+                                                onClick={() => handleDeleteHistoryItem(item.id)}
+                                                className="p-2 bg-white/10 hover:bg-red-500/80 rounded-full text-white border border-white/10"
+                                                title="Delete"
+                                            >
+                                                <TrashIcon className="w-5 h-5" />
+                                            </button>
                                         </div>
                                         <div className="absolute top-2 left-2 bg-black/60 backdrop-blur-md px-2 py-0.5 rounded text-[10px] font-bold text-cyan-300 border border-cyan-500/30 uppercase tracking-wide">
                                             Nano Banana
@@ -602,16 +1318,91 @@ ${item.styleContext ? `Original Style Context:\n${item.styleContext}` : ''}`;
                                                 <span key={mod} className="text-[10px] bg-[#0b0c15] text-gray-400 px-1.5 py-0.5 rounded border border-gray-700">{mod}</span>
                                             ))}
                                         </div>
+                                        {item.references && item.references.length > 0 && (
+                                            <div className="flex gap-1 mt-2">
+                                                {item.references.map(ref => (
+                                                    <img key={ref.id} src={ref.imageUrl} alt={ref.role} title={`${ref.role} reference · ${Math.round(ref.weight * 100)}%`} className="w-8 h-8 object-cover rounded border border-gray-700" />
+                                                ))}
+                                            </div>
+                                        )}
+                                        <HistoryItemControls
+                                            item={item}
+                                            knownTags={historyTags}
+                                            onUpdate={(patch) => updateHistoryItem(item.id, patch)}
+                                        />
                                     </div>
                                 </div>
                             ))}
                          </div>
-                    </div>
-                )}
+                         )}
+                </div>
             </div>
         </div>
       </main>
 
+      {showProviderSettings && (
+          <ProviderSettingsPanel
+            settings={providerSettings}
+            onSave={handleSaveProviderSettings}
+            onClose={() => setShowProviderSettings(false)}
+          />
+      )}
+
+      {showUsage && <UsagePanel onClose={() => setShowUsage(false)} />}
+
+      {showPreprocessor && imageFile && (
+          <ImagePreprocessor
+            file={imageFile}
+            settings={preprocessSettings}
+            crop={cropRect}
+            onApply={handleApplyPreprocessing}
+            onClose={() => setShowPreprocessor(false)}
+          />
+      )}
+
+      {showCompare && (
+          <StyleCompare
+            analyses={savedAnalyses}
+            extractions={savedExtractions}
+            onBlend={handleBlendStyles}
+            onClose={() => setShowCompare(false)}
+          />
+      )}
+
+      {showVariations && imageUrl && (
+          <VariationGrid
+            sourceImageUrl={imageUrl}
+            prompt={composePresetPrompt(renderIdea, presets.filter(p => activePresetIds.includes(p.id)))}
+            modifiers={renderModifiers}
+            onSendToHistory={handleVariationToHistory}
+            onEdit={(variation) => setEditingItem(variationToItem(variation, "Untitled Variation"))}
+            onClose={() => setShowVariations(false)}
+          />
+      )}
+
+      {showWildcards && (
+          <WildcardManager
+            lists={wildcardLists}
+            onSave={handleSaveWildcard}
+            onDelete={handleDeleteWildcard}
+            onClose={() => setShowWildcards(false)}
+          />
+      )}
+
+      {showMatrix && imageUrl && (
+          <XYMatrix
+            sourceImageUrl={imageUrl}
+            template={[lockInstruction, userIdea].filter(Boolean).join(' ')}
+            context={templateContext}
+            modifiers={renderModifiers}
+            presets={presets}
+            styleContext={renderStyleContext}
+            onCellResult={addToHistory}
+            onGridResult={addToHistory}
+            onClose={() => setShowMatrix(false)}
+          />
+      )}
+
       {/* Modal Editor */}
       {editingItem && (
           <ImageEditor 
@@ -621,7 +1412,7 @@ ${item.styleContext ? `Original Style Context:\n${item.styleContext}` : ''}`;
       )}
 
        <footer className="text-center py-6 text-xs text-gray-600 border-t border-gray-800 mt-8 bg-[#0b0c15]">
-        Powered by Google Gemini 2.5 Flash & Flash Image
+        Powered by {activeProviderLabel}
       </footer>
     </div>
   );
@@ -0,0 +1,223 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { AnalysisResult, BatchExportFormat, BatchItem } from '../types';
+import { analyzeImageStyle } from '../services/geminiService';
+import { BATCH_EXPORT_MIME, formatBatchExport } from '../services/batchExport';
+import { collectDroppedImages, downloadText, isImageFile, parseDataUrl } from '../services/fileUtils';
+import { getErrorMessage } from '../services/serviceErrors';
+import { DownloadIcon, TrashIcon, UploadIcon, XIcon } from './icons';
+
+interface BatchScannerProps {
+  items: BatchItem[];
+  onItemsChange: React.Dispatch<React.SetStateAction<BatchItem[]>>;
+  onAddFiles: (files: File[]) => void;
+  onOpenResult: (item: BatchItem) => void;
+  onResult: (item: BatchItem, result: AnalysisResult) => void;
+  intensity: number;
+}
+
+const STATUS_STYLES: Record<BatchItem['status'], string> = {
+  queued: 'text-gray-400 border-gray-700 bg-gray-800/40',
+  running: 'text-cyan-300 border-cyan-700/50 bg-cyan-900/20 animate-pulse',
+  done: 'text-green-300 border-green-800/50 bg-green-900/20',
+  error: 'text-red-300 border-red-800/50 bg-red-900/20',
+};
+
+export const BatchScanner: React.FC<BatchScannerProps> = ({ items, onItemsChange, onAddFiles, onOpenResult, onResult, intensity }) => {
+  const [isPaused, setIsPaused] = useState(false);
+  const [concurrency, setConcurrency] = useState(2);
+  const [exportFormat, setExportFormat] = useState<BatchExportFormat>('json');
+  const inFlight = useRef<Set<string>>(new Set());
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+
+  const counts = {
+    queued: items.filter(i => i.status === 'queued').length,
+    running: items.filter(i => i.status === 'running').length,
+    done: items.filter(i => i.status === 'done').length,
+    error: items.filter(i => i.status === 'error').length,
+  };
+
+  const runItem = async (item: BatchItem) => {
+    try {
+      const { base64Data, mimeType } = parseDataUrl(item.imageUrl);
+      const { result, issues } = await analyzeImageStyle(base64Data, mimeType, intensity);
+      onItemsChange(prev => prev.map(i => i.id === item.id ? { ...i, status: 'done', result, issues } : i));
+      onResult(item, result);
+    } catch (err) {
+      console.error(err);
+      const message = getErrorMessage(err, err instanceof Error ? err.message : 'Analysis failed.');
+      onItemsChange(prev => prev.map(i => i.id === item.id ? { ...i, status: 'error', error: message } : i));
+    } finally {
+      inFlight.current.delete(item.id);
+    }
+  };
+
+  // Dispatcher: whenever the queue changes, fill any free concurrency slots
+  useEffect(() => {
+    if (isPaused) return;
+    const slots = concurrency - inFlight.current.size;
+    if (slots <= 0) return;
+    const next = items.filter(i => i.status === 'queued' && !inFlight.current.has(i.id)).slice(0, slots);
+    if (next.length === 0) return;
+
+    next.forEach(item => inFlight.current.add(item.id));
+    const startedIds = new Set(next.map(i => i.id));
+    onItemsChange(prev => prev.map(i => startedIds.has(i.id) ? { ...i, status: 'running', error: undefined } : i));
+    next.forEach(runItem);
+    // runItem is left out of the deps on purpose: it only closes over stable setters and the current intensity
+  }, [items, isPaused, concurrency]);
+
+  const retryItem = (id: string) => {
+    onItemsChange(prev => prev.map(i => i.id === id ? { ...i, status: 'queued', error: undefined } : i));
+  };
+
+  const retryFailed = () => {
+    onItemsChange(prev => prev.map(i => i.status === 'error' ? { ...i, status: 'queued', error: undefined } : i));
+  };
+
+  const removeItem = (id: string) => {
+    onItemsChange(prev => prev.filter(i => i.id !== id || i.status === 'running'));
+  };
+
+  const clearFinished = () => {
+    onItemsChange(prev => prev.filter(i => i.status === 'queued' || i.status === 'running'));
+  };
+
+  const handleExport = () => {
+    const text = formatBatchExport(items, exportFormat);
+    downloadText(text, `batch-scan-${Date.now()}.${exportFormat}`, BATCH_EXPORT_MIME[exportFormat]);
+  };
+
+  const handleFileInput = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = Array.from(event.target.files || []);
+    const images = files.filter(isImageFile);
+    if (images.length > 0) onAddFiles(images);
+    event.target.value = '';
+  };
+
+  const handleDrop = async (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    event.stopPropagation();
+    const files = await collectDroppedImages(event.dataTransfer);
+    if (files.length > 0) onAddFiles(files);
+  };
+
+  const handleDragOver = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    event.stopPropagation();
+  };
+
+  return (
+    <div className="bg-[#13141f] rounded-xl p-6 border border-gray-700/60 shadow-xl animate-fade-in">
+      <input type="file" ref={fileInputRef} onChange={handleFileInput} accept="image/*" multiple className="hidden" />
+      <input
+        type="file"
+        ref={folderInputRef}
+        onChange={handleFileInput}
+        className="hidden"
+        {...({ webkitdirectory: '', directory: '' } as Record<string, string>)}
+      />
+
+      <div className="flex justify-between items-center mb-4 flex-wrap gap-2">
+        <h3 className="text-gray-200 font-bold flex items-center gap-2">
+          Batch Scan
+          <span className="text-xs font-mono text-gray-500">
+            {counts.done}/{items.length} done{counts.error > 0 && ` · ${counts.error} failed`}
+          </span>
+        </h3>
+        <div className="flex items-center gap-2 flex-wrap">
+          <label className="text-[10px] text-gray-500 uppercase font-bold flex items-center gap-1">
+            Parallel
+            <select
+              value={concurrency}
+              onChange={(e) => setConcurrency(Number(e.target.value))}
+              className="bg-[#0b0c15] border border-gray-700 rounded px-1 py-0.5 text-xs text-white"
+            >
+              {[1, 2, 3, 4, 6].map(n => <option key={n} value={n}>{n}</option>)}
+            </select>
+          </label>
+          <button
+            onClick={() => setIsPaused(p => !p)}
+            className={`text-xs font-bold px-3 py-1 rounded border transition-colors ${isPaused ? 'bg-green-900/20 border-green-800/50 text-green-300 hover:text-green-200' : 'bg-amber-900/20 border-amber-800/50 text-amber-300 hover:text-amber-200'}`}
+          >
+            {isPaused ? 'Resume' : 'Pause'}
+          </button>
+          {counts.error > 0 && (
+            <button onClick={retryFailed} className="text-xs font-bold px-3 py-1 rounded border bg-red-900/20 border-red-800/50 text-red-300 hover:text-red-200 transition-colors">
+              Retry Failed
+            </button>
+          )}
+          <button onClick={clearFinished} className="text-xs font-bold px-3 py-1 rounded border bg-gray-800 border-gray-700 text-gray-400 hover:text-white transition-colors">
+            Clear Finished
+          </button>
+        </div>
+      </div>
+
+      <div
+        onDrop={handleDrop}
+        onDragOver={handleDragOver}
+        className="border-2 border-dashed border-gray-700 rounded-lg p-3 mb-4 flex items-center justify-center gap-3 text-xs text-gray-500 hover:border-purple-500 transition-colors"
+      >
+        <UploadIcon className="w-5 h-5" />
+        <span>Drop images or folders here, or</span>
+        <button onClick={() => fileInputRef.current?.click()} className="text-purple-400 hover:text-purple-300 font-bold">add files</button>
+        <span>/</span>
+        <button onClick={() => folderInputRef.current?.click()} className="text-purple-400 hover:text-purple-300 font-bold">add folder</button>
+      </div>
+
+      <div className="space-y-2 max-h-80 overflow-y-auto scrollbar-thin mb-4">
+        {items.map(item => (
+          <div key={item.id} className="flex items-center gap-3 bg-[#0b0c15] border border-gray-800 rounded-lg p-2">
+            <img src={item.imageUrl} alt={item.fileName} className="w-10 h-10 object-cover rounded border border-gray-700" />
+            <button
+              onClick={() => item.status === 'done' && onOpenResult(item)}
+              disabled={item.status !== 'done'}
+              className="flex-1 min-w-0 text-left disabled:cursor-default"
+              title={item.status === 'done' ? 'Open this result' : undefined}
+            >
+              <p className="text-xs font-bold text-gray-200 truncate">{item.fileName}</p>
+              <p className="text-[10px] text-gray-500 truncate">{item.error || item.result?.style || ' '}</p>
+            </button>
+            {item.issues && item.issues.length > 0 && (
+              <span className="text-[10px] font-bold text-amber-300" title={item.issues.join('\n')}>⚠ {item.issues.length}</span>
+            )}
+            <span className={`text-[10px] font-bold uppercase px-2 py-0.5 rounded border ${STATUS_STYLES[item.status]}`}>{item.status}</span>
+            {item.status === 'error' && (
+              <button onClick={() => retryItem(item.id)} className="text-[10px] font-bold text-red-300 hover:text-white px-1">Retry</button>
+            )}
+            <button
+              onClick={() => removeItem(item.id)}
+              disabled={item.status === 'running'}
+              className="text-gray-600 hover:text-red-400 p-1 rounded hover:bg-gray-800 transition-colors disabled:opacity-30"
+              title="Remove from queue"
+            >
+              {item.status === 'done' ? <TrashIcon className="w-4 h-4" /> : <XIcon className="w-4 h-4" />}
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between gap-3 pt-4 border-t border-gray-700/50">
+        <div className="flex bg-[#0b0c15] rounded-lg p-1 border border-gray-700">
+          {(['json', 'jsonl', 'csv'] as BatchExportFormat[]).map(format => (
+            <button
+              key={format}
+              onClick={() => setExportFormat(format)}
+              className={`px-3 py-1 text-xs font-bold rounded-md transition-all ${exportFormat === format ? 'bg-purple-600 text-white shadow-md' : 'text-gray-400 hover:bg-gray-800 hover:text-gray-200'}`}
+            >
+              {format.toUpperCase()}
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={handleExport}
+          disabled={counts.done === 0}
+          className="flex items-center gap-2 bg-gradient-to-r from-cyan-600 to-blue-600 hover:from-cyan-500 hover:to-blue-500 text-white text-sm font-bold py-2 px-4 rounded-lg transition-colors shadow-lg shadow-cyan-900/20 disabled:opacity-50"
+        >
+          <DownloadIcon className="w-4 h-4" />
+          Export {counts.done} Result{counts.done === 1 ? '' : 's'}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { EmbeddedMetadata, MetadataSource } from '../types';
+import { CopyIcon } from './icons';
+
+interface EmbeddedMetadataPanelProps {
+  metadata: EmbeddedMetadata;
+  analysisPrompt?: string; // The AI's creativePrompt, shown alongside for comparison once a scan exists
+}
+
+const SOURCE_LABELS: Record<MetadataSource, string> = {
+  a1111: 'Stable Diffusion WebUI',
+  comfyui: 'ComfyUI',
+  exif: 'EXIF UserComment',
+  text: 'Text metadata',
+  provenance: 'Art Style Scanner export',
+};
+
+const PromptBox: React.FC<{ label: string; text?: string; accent: string }> = ({ label, text, accent }) => {
+  const [copied, setCopied] = useState(false);
+  const handleCopy = () => {
+    if (!text) return;
+    navigator.clipboard.writeText(text);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className={`bg-[#0b0c15] rounded-lg p-3 border ${accent} min-w-0`}>
+      <div className="flex justify-between items-center mb-1.5">
+        <span className="text-[10px] font-bold uppercase tracking-wider text-gray-400">{label}</span>
+        {text && (
+          <button onClick={handleCopy} className="text-gray-500 hover:text-white" title="Copy">
+            {copied ? <span className="text-[10px] text-green-400 font-bold">Copied</span> : <CopyIcon className="w-3.5 h-3.5" />}
+          </button>
+        )}
+      </div>
+      <p className="text-xs text-gray-300 leading-relaxed whitespace-pre-wrap break-words">{text || <span className="text-gray-600 italic">Not present</span>}</p>
+    </div>
+  );
+};
+
+export const EmbeddedMetadataPanel: React.FC<EmbeddedMetadataPanelProps> = ({ metadata, analysisPrompt }) => {
+  const [showRaw, setShowRaw] = useState(false);
+
+  const parameters: [string, string | undefined][] = [
+    ['Sampler', metadata.sampler],
+    ['Seed', metadata.seed],
+    ['Steps', metadata.steps],
+    ['CFG', metadata.cfgScale],
+    ['Model', metadata.model],
+    ['Size', metadata.size],
+  ];
+  const present = parameters.filter(([, value]) => value);
+
+  return (
+    <div className="bg-[#13141f] border border-gray-700/60 rounded-xl shadow-xl p-5 animate-fade-in">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-sm font-bold text-gray-200">Embedded Generation Data</h3>
+        <span className="text-[10px] font-bold uppercase tracking-wider bg-cyan-900/30 text-cyan-300 border border-cyan-800/50 px-2 py-0.5 rounded">
+          {SOURCE_LABELS[metadata.source]}
+        </span>
+      </div>
+
+      <div className={`grid grid-cols-1 ${analysisPrompt ? 'md:grid-cols-2' : ''} gap-3 mb-3`}>
+        <PromptBox label="Embedded Prompt" text={metadata.prompt} accent="border-cyan-500/30" />
+        {analysisPrompt && <PromptBox label="AI Reading (Creative Prompt)" text={analysisPrompt} accent="border-purple-500/30" />}
+      </div>
+
+      {metadata.negativePrompt && (
+        <div className="mb-3">
+          <PromptBox label="Negative Prompt" text={metadata.negativePrompt} accent="border-red-500/20" />
+        </div>
+      )}
+
+      {present.length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-3">
+          {present.map(([label, value]) => (
+            <span key={label} className="text-[11px] bg-[#1a1c29] border border-gray-700 rounded px-2 py-1 text-gray-300">
+              <span className="text-gray-500">{label}:</span> <span className="font-mono">{value}</span>
+            </span>
+          ))}
+        </div>
+      )}
+
+      <button onClick={() => setShowRaw(!showRaw)} className="text-[10px] text-gray-500 hover:text-gray-300 font-bold uppercase tracking-wider">
+        {showRaw ? 'Hide' : 'Show'} raw entries ({Object.keys(metadata.raw).length})
+      </button>
+      {showRaw && (
+        <div className="mt-2 space-y-2 max-h-64 overflow-y-auto">
+          {Object.entries(metadata.raw).map(([key, value]) => (
+            <div key={key}>
+              <div className="text-[10px] font-mono text-cyan-400">{key}</div>
+              <pre className="text-[10px] font-mono text-gray-400 bg-[#0b0c15] border border-gray-800 rounded p-2 whitespace-pre-wrap break-all">{value}</pre>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,69 @@
+import React from 'react';
+import { HISTORY_SORT_LABELS, HistoryFilter, HistorySort, EMPTY_HISTORY_FILTER, isFilterActive } from '../services/historyFilter';
+import { FilterIcon, XIcon } from './icons';
+
+interface HistoryFilterBarProps {
+  filter: HistoryFilter;
+  onChange: (filter: HistoryFilter) => void;
+  modifiers: string[]; // Every modifier used in history
+  tags: string[];
+  shown: number;
+  total: number;
+}
+
+const controlClass = "bg-[#0b0c15] border border-gray-700 rounded px-2 py-1 text-xs text-gray-300 focus:outline-none focus:border-purple-500";
+
+export const HistoryFilterBar: React.FC<HistoryFilterBarProps> = ({ filter, onChange, modifiers, tags, shown, total }) => {
+  const update = (patch: Partial<HistoryFilter>) => onChange({ ...filter, ...patch });
+  const active = isFilterActive(filter);
+
+  return (
+    <div className="bg-[#13141f] border border-gray-700/60 rounded-lg p-3 space-y-2">
+      <div className="flex items-center gap-2">
+        <FilterIcon className="w-4 h-4 text-gray-500 shrink-0" />
+        <input
+          type="search"
+          value={filter.query}
+          onChange={(e) => update({ query: e.target.value })}
+          placeholder="Search titles, prompts, styles and tags…"
+          className={`${controlClass} flex-1 text-white placeholder-gray-600`}
+        />
+        <select value={filter.sort} onChange={(e) => update({ sort: e.target.value as HistorySort })} className={controlClass} title="Sort order">
+          {(Object.keys(HISTORY_SORT_LABELS) as HistorySort[]).map(key => <option key={key} value={key}>{HISTORY_SORT_LABELS[key]}</option>)}
+        </select>
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <select value={filter.modifier} onChange={(e) => update({ modifier: e.target.value })} className={`${controlClass} max-w-[160px]`} title="Style modifier">
+          <option value="">Any style</option>
+          {modifiers.map(m => <option key={m} value={m}>{m}</option>)}
+        </select>
+        <select value={filter.tag} onChange={(e) => update({ tag: e.target.value })} className={`${controlClass} max-w-[140px]`} title="Tag" disabled={tags.length === 0}>
+          <option value="">Any tag</option>
+          {tags.map(t => <option key={t} value={t}>#{t}</option>)}
+        </select>
+        <select value={filter.minRating} onChange={(e) => update({ minRating: Number(e.target.value) })} className={controlClass} title="Minimum rating">
+          <option value={0}>Any rating</option>
+          {[1, 2, 3, 4, 5].map(n => <option key={n} value={n}>{'★'.repeat(n)}{n < 5 ? '+' : ''}</option>)}
+        </select>
+        <label className="flex items-center gap-1 text-xs text-gray-400">
+          From <input type="date" value={filter.from} onChange={(e) => update({ from: e.target.value })} className={controlClass} />
+        </label>
+        <label className="flex items-center gap-1 text-xs text-gray-400">
+          to <input type="date" value={filter.to} onChange={(e) => update({ to: e.target.value })} className={controlClass} />
+        </label>
+        <button
+          onClick={() => update({ favoritesOnly: !filter.favoritesOnly })}
+          className={`text-xs px-2 py-1 rounded border transition-colors ${filter.favoritesOnly ? 'bg-amber-500/20 border-amber-500/60 text-amber-300' : 'border-gray-700 text-gray-400 hover:text-amber-200'}`}
+        >
+          ♥ Favorites
+        </button>
+        <span className="text-xs text-gray-500 ml-auto">{active ? `${shown} of ${total}` : `${total} items`}</span>
+        {active && (
+          <button onClick={() => onChange({ ...EMPTY_HISTORY_FILTER, sort: filter.sort })} className="text-xs text-gray-400 hover:text-white flex items-center gap-1" title="Clear filters">
+            <XIcon className="w-3 h-3" /> Clear
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
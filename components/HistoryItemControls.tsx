@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { GeneratedItem } from '../types';
+import { normalizeTag } from '../services/historyFilter';
+import { XIcon } from './icons';
+
+interface HistoryItemControlsProps {
+  item: GeneratedItem;
+  knownTags: string[]; // Offered as suggestions while typing
+  onUpdate: (patch: Partial<GeneratedItem>) => void;
+}
+
+// Favorite, star rating and tag editing for one history card
+export const HistoryItemControls: React.FC<HistoryItemControlsProps> = ({ item, knownTags, onUpdate }) => {
+  const [draftTag, setDraftTag] = useState('');
+  const [isAdding, setIsAdding] = useState(false);
+  const tags = item.tags ?? [];
+
+  const addTag = () => {
+    const tag = normalizeTag(draftTag);
+    if (tag && !tags.includes(tag)) onUpdate({ tags: [...tags, tag] });
+    setDraftTag('');
+    setIsAdding(false);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mt-3 pt-3 border-t border-gray-800">
+      <button
+        onClick={() => onUpdate({ favorite: !item.favorite })}
+        className={`text-sm leading-none ${item.favorite ? 'text-amber-300' : 'text-gray-600 hover:text-amber-200'}`}
+        title={item.favorite ? 'Remove from favorites' : 'Add to favorites'}
+      >
+        ♥
+      </button>
+      <div className="flex" title={item.rating ? `Rated ${item.rating} of 5; click the same star to clear` : 'Rate'}>
+        {[1, 2, 3, 4, 5].map(n => (
+          <button
+            key={n}
+            onClick={() => onUpdate({ rating: item.rating === n ? undefined : n })}
+            className={`text-sm leading-none px-px ${(item.rating ?? 0) >= n ? 'text-amber-300' : 'text-gray-700 hover:text-amber-200'}`}
+          >
+            ★
+          </button>
+        ))}
+      </div>
+      {tags.map(tag => (
+        <span key={tag} className="text-[10px] bg-purple-900/20 text-purple-300 pl-1.5 pr-1 py-0.5 rounded border border-purple-900/50 flex items-center gap-1">
+          #{tag}
+          <button onClick={() => onUpdate({ tags: tags.filter(t => t !== tag) })} className="hover:text-white" title="Remove tag">
+            <XIcon className="w-2.5 h-2.5" />
+          </button>
+        </span>
+      ))}
+      {isAdding ? (
+        <>
+          <input
+            autoFocus
+            value={draftTag}
+            list={`history-tags-${item.id}`}
+            onChange={(e) => setDraftTag(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') addTag();
+              if (e.key === 'Escape') { setDraftTag(''); setIsAdding(false); }
+            }}
+            onBlur={addTag}
+            placeholder="tag"
+            className="w-24 bg-[#0b0c15] border border-gray-700 rounded px-1.5 py-0.5 text-[10px] text-white focus:outline-none focus:border-purple-500"
+          />
+          <datalist id={`history-tags-${item.id}`}>
+            {knownTags.filter(t => !tags.includes(t)).map(t => <option key={t} value={t} />)}
+          </datalist>
+        </>
+      ) : (
+        <button onClick={() => setIsAdding(true)} className="text-[10px] text-gray-500 hover:text-white border border-dashed border-gray-700 rounded px-1.5 py-0.5">
+          + tag
+        </button>
+      )}
+    </div>
+  );
+};
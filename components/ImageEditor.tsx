@@ -1,9 +1,15 @@
-
 import React, { useState, useEffect, useRef } from 'react';
-import { ChatMessage, GeneratedItem } from '../types';
-import { SendIcon, XIcon, DownloadIcon } from './icons';
+import { ChatMessage, EditNode, GeneratedItem } from '../types';
+import { SendIcon, XIcon, DownloadIcon, UndoIcon, RedoIcon } from './icons';
 import { Spinner } from './Spinner';
+import { VersionTree } from './VersionTree';
+import { MaskCanvas } from './MaskCanvas';
 import { editImageWithGemini } from '../services/geminiService';
+import { exportGeneratedPng } from '../services/pngProvenance';
+import { createRootNode, exportBranchZip, getBranch } from '../services/versionTree';
+import { downloadBlob } from '../services/fileUtils';
+import { compositeWithMask } from '../services/maskUtils';
+import { getErrorMessage } from '../services/serviceErrors';
 
 interface ImageEditorProps {
   initialItem: GeneratedItem;
@@ -11,14 +17,37 @@ interface ImageEditorProps {
 }
 
 export const ImageEditor: React.FC<ImageEditorProps> = ({ initialItem, onClose }) => {
-  const [currentImage, setCurrentImage] = useState<string>(initialItem.imageUrl);
+  const [nodes, setNodes] = useState<EditNode[]>(() => [createRootNode(initialItem)]);
+  const [currentId, setCurrentId] = useState<string>(() => createRootNode(initialItem).id);
+  const [redoStack, setRedoStack] = useState<string[]>([]);
+  const [compareId, setCompareId] = useState<string | null>(null);
+  const [panel, setPanel] = useState<'chat' | 'versions'>('chat');
+  const [isExporting, setIsExporting] = useState(false);
+  const [maskMode, setMaskMode] = useState(false);
+  const [mask, setMask] = useState<string | null>(null);
   const [inputValue, setInputValue] = useState('');
   const [isProcessing, setIsProcessing] = useState(false);
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const chatEndRef = useRef<HTMLDivElement>(null);
+  const requestRef = useRef<AbortController | null>(null);
+
+  const currentNode = nodes.find(n => n.id === currentId) ?? nodes[0];
+  const compareNode = compareId ? nodes.find(n => n.id === compareId) : undefined;
+  const canUndo = !!currentNode.parentId;
+  const redoTarget = redoStack.length > 0 ? nodes.find(n => n.id === redoStack[redoStack.length - 1]) : undefined;
+  const canRedo = redoTarget?.parentId === currentNode.id;
 
   useEffect(() => {
-    // Initialize chat with the history item context
+    // Initialize chat and version tree with the history item context; an edit of the
+    // previous item can't land in this tree, so stop it
+    requestRef.current?.abort();
+    requestRef.current = null;
+    setIsProcessing(false);
+    const root = createRootNode(initialItem);
+    setNodes([root]);
+    setCurrentId(root.id);
+    setRedoStack([]);
+    setCompareId(null);
     setMessages([
       {
         id: 'init',
@@ -29,55 +58,173 @@ export const ImageEditor: React.FC<ImageEditorProps> = ({ initialItem, onClose }
     ]);
   }, [initialItem]);
 
+  useEffect(() => () => requestRef.current?.abort(), []);
+
   useEffect(() => {
     chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages]);
 
+  // Jumping anywhere in the tree starts a fresh redo trail
+  const selectNode = (id: string) => {
+    setCurrentId(id);
+    setRedoStack([]);
+    if (compareId === id) setCompareId(null);
+  };
+
+  // Undo walks up to the parent; redo walks back down the way undo came
+  const handleUndo = () => {
+    if (!currentNode.parentId) return;
+    setRedoStack(prev => [...prev, currentNode.id]);
+    setCurrentId(currentNode.parentId);
+  };
+
+  const handleRedo = () => {
+    if (!canRedo || !redoTarget) return;
+    setRedoStack(prev => prev.slice(0, -1));
+    setCurrentId(redoTarget.id);
+  };
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      // Leave text fields their own undo
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if (key === 'y' || (key === 'z' && e.shiftKey)) {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  const handleToggleCompare = (id: string) => {
+    setCompareId(prev => (prev === id ? null : id));
+  };
+
+  const handleExportBranch = async (id: string) => {
+    setIsExporting(true);
+    try {
+      const blob = await exportBranchZip(getBranch(nodes, id), initialItem);
+      downloadBlob(blob, `${initialItem.title.replace(/\s+/g, '_')}_branch_${Date.now()}.zip`);
+    } catch (e) {
+      console.error("Failed to export branch", e);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
   const handleSend = async () => {
     if (!inputValue.trim() || isProcessing) return;
 
     const userPrompt = inputValue.trim();
+    const activeMask = maskMode ? mask : null;
     setInputValue('');
+    const controller = new AbortController();
+    requestRef.current = controller;
     setIsProcessing(true);
 
     // Add user message
     const userMsg: ChatMessage = {
       id: Date.now().toString(),
       role: 'user',
-      text: userPrompt,
+      text: activeMask ? `${userPrompt} (masked)` : userPrompt,
       timestamp: Date.now()
     };
     setMessages(prev => [...prev, userMsg]);
 
+    // The edit branches from whatever version was active when it was sent
+    const parent = currentNode;
+
     try {
-        const base64Data = currentImage.split(',')[1];
-        const mimeType = currentImage.split(',')[0].split(':')[1].split(';')[0];
+        const base64Data = parent.imageUrl.split(',')[1];
+        const mimeType = parent.imageUrl.split(',')[0].split(':')[1].split(';')[0];
 
         // Generate new image based on current image + user prompt
-        const result = await editImageWithGemini(base64Data, mimeType, userPrompt, []);
+        const result = await editImageWithGemini(base64Data, mimeType, userPrompt, [], { mask: activeMask ?? undefined, signal: controller.signal });
+        if (activeMask) {
+            // Models don't always respect the mask; restore everything outside it
+            result.imageUrl = await compositeWithMask(parent.imageUrl, result.imageUrl, activeMask);
+        }
+        if (controller.signal.aborted) return;
 
-        setCurrentImage(result.imageUrl);
+        const node: EditNode = {
+            id: Date.now().toString(),
+            parentId: parent.id,
+            imageUrl: result.imageUrl,
+            prompt: userPrompt,
+            executedPrompt: result.executedPrompt,
+            model: result.model,
+            timestamp: Date.now()
+        };
+        setNodes(prev => [...prev, node]);
+        selectNode(node.id);
 
         const modelMsg: ChatMessage = {
             id: (Date.now() + 1).toString(),
             role: 'model',
             imageUrl: result.imageUrl,
             executedPrompt: result.executedPrompt,
+            model: result.model,
+            nodeId: node.id,
             timestamp: Date.now()
         };
         setMessages(prev => [...prev, modelMsg]);
 
     } catch (error) {
+        if (controller.signal.aborted) return;
         console.error(error);
         const errorMsg: ChatMessage = {
             id: (Date.now() + 1).toString(),
             role: 'model',
-            text: "Sorry, I couldn't generate that edit. Please try again.",
+            text: getErrorMessage(error, "Sorry, I couldn't generate that edit. Please try again."),
             timestamp: Date.now()
         };
         setMessages(prev => [...prev, errorMsg]);
     } finally {
-        setIsProcessing(false);
+        if (requestRef.current === controller) {
+            requestRef.current = null;
+            setIsProcessing(false);
+        }
+    }
+  };
+
+  const handleCancel = () => {
+    requestRef.current?.abort();
+    requestRef.current = null;
+    setIsProcessing(false);
+    setMessages(prev => [...prev, {
+      id: Date.now().toString(),
+      role: 'model',
+      text: "Edit cancelled.",
+      timestamp: Date.now()
+    }]);
+  };
+
+  const handleDownload = async () => {
+    // Describe the version actually on screen, not the item the editor was opened with
+    const item: GeneratedItem = {
+      ...initialItem,
+      imageUrl: currentNode.imageUrl,
+      prompt: currentNode.prompt,
+      executedPrompt: currentNode.executedPrompt,
+      model: currentNode.model,
+      timestamp: currentNode.timestamp
+    };
+    try {
+      downloadBlob(await exportGeneratedPng(item), `nano-edit-${Date.now()}.png`);
+    } catch (error) {
+      console.error(error);
+      setMessages(prev => [...prev, {
+        id: Date.now().toString(),
+        role: 'model',
+        text: getErrorMessage(error, "Sorry, I couldn't export that image."),
+        timestamp: Date.now()
+      }]);
     }
   };
 
@@ -99,8 +246,42 @@ export const ImageEditor: React.FC<ImageEditorProps> = ({ initialItem, onClose }
                     Nano Editor
                 </h3>
                 <p className="text-xs text-gray-400 truncate">{initialItem.title}</p>
+                <div className="flex items-center justify-between mt-3">
+                    <div className="flex bg-[#0b0c15] rounded p-0.5 border border-gray-700">
+                        {(['chat', 'versions'] as const).map(tab => (
+                            <button
+                                key={tab}
+                                onClick={() => setPanel(tab)}
+                                className={`px-3 py-1 text-[10px] font-bold uppercase tracking-wider rounded ${panel === tab ? 'bg-purple-600 text-white' : 'text-gray-400 hover:text-white'}`}
+                            >
+                                {tab === 'chat' ? 'Chat' : `Versions (${nodes.length})`}
+                            </button>
+                        ))}
+                    </div>
+                    <div className="flex gap-1">
+                        <button onClick={handleUndo} disabled={!canUndo} className="p-1.5 rounded border border-gray-700 text-gray-300 hover:text-white disabled:opacity-30" title="Undo (Ctrl+Z)">
+                            <UndoIcon className="w-4 h-4" />
+                        </button>
+                        <button onClick={handleRedo} disabled={!canRedo} className="p-1.5 rounded border border-gray-700 text-gray-300 hover:text-white disabled:opacity-30" title="Redo (Ctrl+Shift+Z)">
+                            <RedoIcon className="w-4 h-4" />
+                        </button>
+                    </div>
+                </div>
             </div>
 
+            {panel === 'versions' ? (
+            <div className="flex-1 overflow-y-auto p-4 scrollbar-thin scrollbar-thumb-gray-700">
+                <p className="text-[10px] text-gray-500 mb-3">Select a version to continue editing from it; new edits branch from the active version. {isExporting && 'Exporting branch...'}</p>
+                <VersionTree
+                    nodes={nodes}
+                    currentId={currentNode.id}
+                    compareId={compareId}
+                    onSelect={selectNode}
+                    onToggleCompare={handleToggleCompare}
+                    onExportBranch={handleExportBranch}
+                />
+            </div>
+            ) : (
             <div className="flex-1 overflow-y-auto p-4 space-y-4 scrollbar-thin scrollbar-thumb-gray-700">
                 {messages.map((msg) => (
                     <div key={msg.id} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
@@ -112,7 +293,7 @@ export const ImageEditor: React.FC<ImageEditorProps> = ({ initialItem, onClose }
                             {msg.text && <p>{msg.text}</p>}
                             {msg.imageUrl && (
                                 <div className="space-y-2">
-                                    <div className="rounded overflow-hidden border border-gray-600 cursor-pointer hover:border-purple-400 transition-colors" onClick={() => setCurrentImage(msg.imageUrl!)}>
+                                    <div className="rounded overflow-hidden border border-gray-600 cursor-pointer hover:border-purple-400 transition-colors" onClick={() => msg.nodeId && selectNode(msg.nodeId)}>
                                         <img src={msg.imageUrl} alt="Edit result" className="w-full h-auto" />
                                     </div>
                                     {msg.executedPrompt && (
@@ -131,11 +312,13 @@ export const ImageEditor: React.FC<ImageEditorProps> = ({ initialItem, onClose }
                          <div className="bg-[#282a36] rounded-lg p-3 rounded-tl-none flex items-center gap-2 border border-gray-600">
                             <Spinner />
                             <span className="text-xs text-gray-400">Rendering...</span>
+                            <button onClick={handleCancel} className="text-[10px] font-bold text-gray-400 hover:text-red-400 ml-1">Cancel</button>
                          </div>
                     </div>
                 )}
                 <div ref={chatEndRef} />
             </div>
+            )}
 
             <div className="p-4 bg-[#1a1c29] border-t border-gray-700">
                 <div className="relative">
@@ -169,21 +352,50 @@ export const ImageEditor: React.FC<ImageEditorProps> = ({ initialItem, onClose }
 
         {/* Right Panel: Main Preview */}
         <div className="flex-1 bg-[#0b0c15] flex flex-col relative">
+            {compareNode && !maskMode ? (
+            <div className="flex-1 grid grid-cols-2 gap-4 p-6 pt-16 min-h-0">
+                {[{ node: compareNode, label: 'Compare' }, { node: currentNode, label: 'Active' }].map(({ node, label }) => (
+                    <div key={label} className="flex flex-col min-h-0">
+                        <div className="flex justify-between items-center mb-2">
+                            <span className={`text-[10px] font-bold uppercase tracking-wider ${label === 'Active' ? 'text-purple-300' : 'text-cyan-300'}`}>{label}</span>
+                            {label === 'Compare' && (
+                                <button onClick={() => setCompareId(null)} className="text-[10px] text-gray-500 hover:text-white">Close compare</button>
+                            )}
+                        </div>
+                        <div className="flex-1 min-h-0 flex items-center justify-center">
+                            <img src={node.imageUrl} alt={label} className="max-w-full max-h-full object-contain rounded-lg border border-gray-800" />
+                        </div>
+                        <p className="mt-2 text-[10px] text-gray-400 font-mono line-clamp-3" title={node.executedPrompt || node.prompt}>{node.prompt || 'Original'}</p>
+                    </div>
+                ))}
+            </div>
+            ) : maskMode ? (
+            <div className="flex-1 flex items-center justify-center p-6 pt-16 bg-[#0b0c15] min-h-0">
+                <MaskCanvas imageUrl={currentNode.imageUrl} onMaskChange={setMask} />
+            </div>
+            ) : (
             <div className="flex-1 flex items-center justify-center p-6 bg-[#0b0c15]">
                  <img 
-                    src={currentImage} 
+                    src={currentNode.imageUrl} 
                     alt="Current Edit" 
                     className="max-w-full max-h-full object-contain shadow-2xl rounded-lg border border-gray-800" 
                  />
             </div>
+            )}
              <div className="absolute bottom-6 right-6 flex gap-3">
-                 <a 
-                    href={currentImage} 
-                    download={`nano-edit-${Date.now()}.png`} 
+                 <button
+                    onClick={() => { setMaskMode(!maskMode); setMask(null); }} // The paint layer doesn't survive leaving mask mode
+                    className={`flex items-center gap-2 px-4 py-2 rounded-lg shadow-lg transition-all font-bold border ${maskMode ? 'bg-pink-600 border-pink-500 text-white' : 'bg-[#1a1c29] border-gray-600 text-gray-200 hover:text-white'}`}
+                    title="Paint a mask so edits only touch part of the image"
+                 >
+                    {maskMode ? (mask ? 'Mask On' : 'Paint Mask') : 'Mask'}
+                 </button>
+                 <button 
+                    onClick={handleDownload}
                     className="flex items-center gap-2 bg-cyan-600 hover:bg-cyan-500 text-white px-4 py-2 rounded-lg shadow-lg transition-all font-bold hover:shadow-cyan-500/20"
                  >
                     <DownloadIcon className="w-5 h-5" /> Download
-                 </a>
+                 </button>
              </div>
         </div>
 
@@ -0,0 +1,269 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CropRect, PreprocessFormat, PreprocessSettings } from '../types';
+import {
+  ASPECT_PRESETS, FORMAT_OPTIONS, FULL_CROP, MAX_EDGE_OPTIONS, PreprocessResult, clampCrop, fitCropToAspect, preprocessImage
+} from '../services/imagePreprocess';
+import { formatBytes } from '../services/storageService';
+import { XIcon } from './icons';
+
+interface ImagePreprocessorProps {
+  file: File;
+  settings: PreprocessSettings;
+  crop: CropRect;
+  onApply: (settings: PreprocessSettings, crop: CropRect) => void;
+  onClose: () => void;
+}
+
+type DragMode = 'move' | 'resize' | 'draw';
+
+interface DragState {
+  mode: DragMode;
+  originX: number;
+  originY: number;
+  startCrop: CropRect;
+}
+
+const controlClass = "bg-[#0b0c15] border border-gray-700 rounded px-2 py-1 text-xs text-gray-300 focus:outline-none focus:border-purple-500";
+
+// Live payload preview waits for the sliders to settle before re-encoding
+const PREVIEW_DELAY_MS = 300;
+
+export const ImagePreprocessor: React.FC<ImagePreprocessorProps> = ({ file, settings, crop, onApply, onClose }) => {
+  const [draftSettings, setDraftSettings] = useState<PreprocessSettings>(settings);
+  const [draftCrop, setDraftCrop] = useState<CropRect>(crop);
+  const [aspect, setAspect] = useState<number | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+  const [result, setResult] = useState<PreprocessResult | null>(null);
+  const [isMeasuring, setIsMeasuring] = useState(false);
+  const frameRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+
+  // Object URL of the original; <img> applies the EXIF orientation, so the crop is drawn on the upright image
+  useEffect(() => {
+    const url = URL.createObjectURL(file);
+    setPreviewUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [file]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsMeasuring(true);
+    const timer = setTimeout(() => {
+      preprocessImage(file, draftSettings, draftCrop)
+        .then(next => { if (!cancelled) setResult(next); })
+        .catch(e => console.warn("Could not preview the processed image", e))
+        .finally(() => { if (!cancelled) setIsMeasuring(false); });
+    }, PREVIEW_DELAY_MS);
+    return () => { cancelled = true; clearTimeout(timer); };
+  }, [file, draftSettings, draftCrop]);
+
+  const updateSettings = (patch: Partial<PreprocessSettings>) => setDraftSettings(prev => ({ ...prev, ...patch }));
+
+  const chooseAspect = (ratio: number | null) => {
+    setAspect(ratio);
+    if (ratio && imageSize) setDraftCrop(fitCropToAspect(draftCrop, ratio, imageSize.width, imageSize.height));
+  };
+
+  const toFramePoint = (e: PointerEvent) => {
+    const rect = frameRef.current!.getBoundingClientRect();
+    return {
+      x: Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)),
+      y: Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height)),
+    };
+  };
+
+  // Height that keeps the locked aspect for a given width, both as fractions of the image
+  const lockedHeight = (width: number) => aspect && imageSize ? width * imageSize.width / (aspect * imageSize.height) : null;
+
+  const handlePointerDown = (mode: DragMode) => (e: PointerEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    frameRef.current?.setPointerCapture(e.pointerId);
+    const point = toFramePoint(e);
+    dragRef.current = { mode, originX: point.x, originY: point.y, startCrop: draftCrop };
+  };
+
+  const handlePointerMove = (e: PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const point = toFramePoint(e);
+    const { startCrop } = drag;
+
+    if (drag.mode === 'move') {
+      setDraftCrop(clampCrop({
+        ...startCrop,
+        x: startCrop.x + point.x - drag.originX,
+        y: startCrop.y + point.y - drag.originY,
+      }));
+      return;
+    }
+
+    // Resize drags the bottom-right corner; drawing starts a fresh box at the press point
+    const left = drag.mode === 'resize' ? startCrop.x : Math.min(drag.originX, point.x);
+    const top = drag.mode === 'resize' ? startCrop.y : Math.min(drag.originY, point.y);
+    let width = drag.mode === 'resize' ? point.x - left : Math.abs(point.x - drag.originX);
+    let height = drag.mode === 'resize' ? point.y - top : Math.abs(point.y - drag.originY);
+    // A plain click on the image shouldn't collapse the crop
+    if (drag.mode === 'draw' && width < 0.01 && height < 0.01) return;
+    const locked = lockedHeight(width);
+    if (locked !== null) {
+      height = Math.min(locked, 1 - top);
+      width = height === locked ? width : height * (aspect! * imageSize!.height) / imageSize!.width;
+    }
+    setDraftCrop(clampCrop({ x: left, y: top, width: Math.min(width, 1 - left), height }));
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const isCropped = draftCrop.x > 0 || draftCrop.y > 0 || draftCrop.width < 1 || draftCrop.height < 1;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-[#0b0c15]/90 backdrop-blur-md flex items-center justify-center p-4 animate-fade-in">
+      <div className="w-full max-w-4xl max-h-[90vh] overflow-y-auto bg-[#13141f] border border-gray-700 rounded-2xl shadow-2xl p-6 relative">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 p-2 bg-black/50 hover:bg-red-500/80 rounded-full text-white transition-colors"
+        >
+          <XIcon className="w-5 h-5" />
+        </button>
+
+        <h2 className="text-lg font-bold text-gray-100 mb-1">Prepare Image</h2>
+        <p className="text-xs text-gray-500 mb-4">Drag on the image to crop it. The processed image is what gets scanned and rendered.</p>
+
+        <div className="flex flex-col md:flex-row gap-6">
+          <div className="flex-1 flex items-center justify-center bg-[#0b0c15] border border-gray-800 rounded-lg p-2 min-h-[240px]">
+            {previewUrl && (
+              <div
+                ref={frameRef}
+                className="relative overflow-hidden select-none touch-none cursor-crosshair"
+                onPointerDown={handlePointerDown('draw')}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerUp}
+              >
+                <img
+                  src={previewUrl}
+                  alt="Crop preview"
+                  draggable={false}
+                  onLoad={(e) => {
+                    const img = e.target as HTMLImageElement;
+                    setImageSize({ width: img.naturalWidth, height: img.naturalHeight });
+                  }}
+                  className="block max-h-[60vh] max-w-full"
+                />
+                <div
+                  className="absolute border-2 border-cyan-400 cursor-move"
+                  style={{
+                    left: `${draftCrop.x * 100}%`,
+                    top: `${draftCrop.y * 100}%`,
+                    width: `${draftCrop.width * 100}%`,
+                    height: `${draftCrop.height * 100}%`,
+                    boxShadow: '0 0 0 9999px rgba(11, 12, 21, 0.65)',
+                  }}
+                  onPointerDown={handlePointerDown('move')}
+                >
+                  <div
+                    className="absolute right-0 bottom-0 w-3 h-3 bg-cyan-400 rounded-sm cursor-nwse-resize"
+                    onPointerDown={handlePointerDown('resize')}
+                  />
+                </div>
+              </div>
+            )}
+          </div>
+
+          <div className="md:w-64 space-y-4">
+            <div>
+              <label className="block text-xs font-bold text-gray-500 uppercase tracking-wide mb-2">Crop</label>
+              <div className="flex flex-wrap gap-1">
+                {ASPECT_PRESETS.map(preset => (
+                  <button
+                    key={preset.label}
+                    onClick={() => chooseAspect(preset.ratio)}
+                    className={`text-[11px] px-2 py-1 rounded border transition-colors ${aspect === preset.ratio ? 'bg-cyan-500/20 border-cyan-500/60 text-cyan-300' : 'border-gray-700 text-gray-400 hover:text-white'}`}
+                  >
+                    {preset.label}
+                  </button>
+                ))}
+              </div>
+              {isCropped && (
+                <button onClick={() => { setDraftCrop(FULL_CROP); setAspect(null); }} className="mt-2 text-[11px] text-gray-400 hover:text-white">
+                  Reset crop
+                </button>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-xs font-bold text-gray-500 uppercase tracking-wide mb-1">Max Edge</label>
+              <select
+                value={draftSettings.maxEdge}
+                onChange={(e) => updateSettings({ maxEdge: Number(e.target.value) })}
+                className={`${controlClass} w-full`}
+              >
+                {MAX_EDGE_OPTIONS.map(edge => <option key={edge} value={edge}>{edge ? `${edge}px` : 'Original size'}</option>)}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-xs font-bold text-gray-500 uppercase tracking-wide mb-1">Format</label>
+              <select
+                value={draftSettings.format}
+                onChange={(e) => updateSettings({ format: e.target.value as PreprocessFormat })}
+                className={`${controlClass} w-full`}
+              >
+                {(Object.keys(FORMAT_OPTIONS) as PreprocessFormat[]).map(format => <option key={format} value={format}>{FORMAT_OPTIONS[format]}</option>)}
+              </select>
+            </div>
+
+            <div>
+              <div className="flex justify-between items-center mb-1">
+                <label className="block text-xs font-bold text-gray-500 uppercase tracking-wide">Quality</label>
+                <span className="text-[10px] text-gray-400 font-mono">{Math.round(draftSettings.quality * 100)}%</span>
+              </div>
+              <input
+                type="range"
+                min={0.5}
+                max={1}
+                step={0.05}
+                value={draftSettings.quality}
+                onChange={(e) => updateSettings({ quality: Number(e.target.value) })}
+                className="w-full accent-purple-500"
+                title="Used for JPEG and WebP output"
+              />
+            </div>
+
+            <div className="bg-[#0b0c15] border border-gray-800 rounded-lg p-3 text-[11px] text-gray-400 space-y-1">
+              <p className="text-[10px] font-bold text-gray-500 uppercase tracking-wider">Payload {isMeasuring && <span className="normal-case font-normal text-gray-600">· updating…</span>}</p>
+              {result ? (
+                <>
+                  <p className="text-lg font-bold text-white font-mono">{formatBytes(result.bytes)}</p>
+                  <p>{result.width} × {result.height} · {result.mimeType.replace('image/', '').toUpperCase()}</p>
+                  <p className="text-gray-600">Original {formatBytes(result.originalBytes)}{result.orientation > 1 ? ' · rotated upright' : ''}</p>
+                </>
+              ) : (
+                <p className="text-gray-600">Measuring…</p>
+              )}
+            </div>
+
+            <div className="flex gap-2">
+              <button
+                onClick={onClose}
+                className="flex-1 text-xs font-bold px-3 py-2 rounded border border-gray-700 text-gray-300 hover:text-white transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={() => onApply(draftSettings, draftCrop)}
+                className="flex-1 text-xs font-bold bg-gradient-to-r from-purple-600 to-cyan-600 hover:from-purple-500 hover:to-cyan-500 px-3 py-2 rounded text-white transition-all"
+              >
+                Apply
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
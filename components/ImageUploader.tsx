@@ -1,34 +1,41 @@
 
 import React, { useRef } from 'react';
 import { UploadIcon, XIcon } from './icons';
+import { collectDroppedImages, isImageFile } from '../services/fileUtils';
 
 interface ImageUploaderProps {
   onImageChange: (file: File) => void;
+  onMultipleImages?: (files: File[]) => void; // Several files or a folder: hand off to the batch queue
   imageUrl: string | null;
   onReset: () => void;
 }
 
-export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageChange, imageUrl, onReset }) => {
+export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageChange, onMultipleImages, imageUrl, onReset }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) {
-      onImageChange(file);
+  const handleFiles = (files: File[]) => {
+    if (files.length > 1 && onMultipleImages) {
+      onMultipleImages(files);
+    } else if (files[0]) {
+      onImageChange(files[0]);
     }
   };
 
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = Array.from(event.target.files || []);
+    const images = files.filter(isImageFile);
+    handleFiles(images);
+    event.target.value = '';
+  };
+
   const handleClick = () => {
     fileInputRef.current?.click();
   };
 
-  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+  const handleDrop = async (event: React.DragEvent<HTMLDivElement>) => {
     event.preventDefault();
     event.stopPropagation();
-    const file = event.dataTransfer.files?.[0];
-    if (file && file.type.startsWith('image/')) {
-      onImageChange(file);
-    }
+    handleFiles(await collectDroppedImages(event.dataTransfer));
   };
 
   const handleDragOver = (event: React.DragEvent<HTMLDivElement>) => {
@@ -43,6 +50,7 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageChange, ima
         ref={fileInputRef}
         onChange={handleFileChange}
         accept="image/*"
+        multiple={!!onMultipleImages}
         className="hidden"
       />
       {imageUrl ? (
@@ -69,7 +77,9 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageChange, ima
           <p className="text-gray-400 font-semibold">
             <span className="text-purple-400">Click to upload</span> or drag and drop
           </p>
-          <p className="text-xs text-gray-500 mt-1">PNG, JPG, WEBP, etc.</p>
+          <p className="text-xs text-gray-500 mt-1">
+            PNG, JPG, WEBP, etc.{onMultipleImages && ' Drop several files or a folder to batch scan.'}
+          </p>
         </div>
       )}
     </div>
@@ -0,0 +1,184 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { exportMask, isMaskLayerEmpty } from '../services/maskUtils';
+
+interface MaskCanvasProps {
+  imageUrl: string;
+  onMaskChange: (mask: string | null) => void; // Black/white PNG data URL, or null when nothing is painted
+}
+
+type MaskTool = 'brush' | 'lasso';
+
+const PAINT_COLOR = 'rgba(236, 72, 153, 1)';
+
+export const MaskCanvas: React.FC<MaskCanvasProps> = ({ imageUrl, onMaskChange }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const pathRef = useRef<{ x: number; y: number }[]>([]);
+  const drawingRef = useRef(false);
+  const [tool, setTool] = useState<MaskTool>('brush');
+  const [erasing, setErasing] = useState(false);
+  const [brushSize, setBrushSize] = useState(40);
+  const [feather, setFeather] = useState(8);
+
+  const publish = () => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    onMaskChange(isMaskLayerEmpty(canvas) ? null : exportMask(canvas, feather));
+  };
+
+  // The paint layer lives at the image's native resolution; keep it while the size matches,
+  // so the same mask can be reused across successive edits
+  useEffect(() => {
+    const img = new Image();
+    img.onload = () => {
+      const canvas = canvasRef.current;
+      if (!canvas) return;
+      if (canvas.width !== img.naturalWidth || canvas.height !== img.naturalHeight) {
+        canvas.width = img.naturalWidth;
+        canvas.height = img.naturalHeight;
+        onMaskChange(null);
+      }
+    };
+    img.src = imageUrl;
+    return () => { img.onload = null; };
+  }, [imageUrl]);
+
+  useEffect(() => {
+    publish();
+  }, [feather]);
+
+  const toCanvasPoint = (e: PointerEvent) => {
+    const canvas = canvasRef.current!;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * canvas.width,
+      y: ((e.clientY - rect.top) / rect.height) * canvas.height,
+    };
+  };
+
+  // Brush size is picked in screen pixels, so convert it to the layer's resolution
+  const scaledBrush = () => {
+    const canvas = canvasRef.current!;
+    return brushSize * (canvas.width / canvas.getBoundingClientRect().width);
+  };
+
+  const getContext = () => {
+    const ctx = canvasRef.current!.getContext('2d')!;
+    ctx.globalCompositeOperation = erasing ? 'destination-out' : 'source-over';
+    ctx.fillStyle = PAINT_COLOR;
+    ctx.strokeStyle = PAINT_COLOR;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    return ctx;
+  };
+
+  const handlePointerDown = (e: PointerEvent) => {
+    e.preventDefault();
+    (e.target as HTMLCanvasElement).setPointerCapture(e.pointerId);
+    drawingRef.current = true;
+    const point = toCanvasPoint(e);
+    pathRef.current = [point];
+    if (tool === 'brush') {
+      const ctx = getContext();
+      ctx.beginPath();
+      ctx.arc(point.x, point.y, scaledBrush() / 2, 0, Math.PI * 2);
+      ctx.fill();
+    }
+  };
+
+  const handlePointerMove = (e: PointerEvent) => {
+    if (!drawingRef.current) return;
+    const point = toCanvasPoint(e);
+    const last = pathRef.current[pathRef.current.length - 1];
+    pathRef.current.push(point);
+    if (tool === 'brush') {
+      const ctx = getContext();
+      ctx.lineWidth = scaledBrush();
+      ctx.beginPath();
+      ctx.moveTo(last.x, last.y);
+      ctx.lineTo(point.x, point.y);
+      ctx.stroke();
+    } else {
+      // Lasso outline preview; the area is filled on release
+      const ctx = getContext();
+      ctx.globalCompositeOperation = 'source-over';
+      ctx.lineWidth = Math.max(1, scaledBrush() / 10);
+      ctx.beginPath();
+      ctx.moveTo(last.x, last.y);
+      ctx.lineTo(point.x, point.y);
+      ctx.stroke();
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (!drawingRef.current) return;
+    drawingRef.current = false;
+    const path = pathRef.current;
+    if (tool === 'lasso' && path.length > 2) {
+      const ctx = getContext();
+      ctx.beginPath();
+      ctx.moveTo(path[0].x, path[0].y);
+      path.slice(1).forEach(p => ctx.lineTo(p.x, p.y));
+      ctx.closePath();
+      ctx.fill();
+      if (erasing) {
+        // The preview outline was painted, so clear it along with the area
+        ctx.lineWidth = Math.max(1, scaledBrush() / 10) + 2;
+        ctx.stroke();
+      }
+    }
+    pathRef.current = [];
+    publish();
+  };
+
+  const handleInvert = () => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ctx = canvas.getContext('2d')!;
+    ctx.globalCompositeOperation = 'xor';
+    ctx.fillStyle = PAINT_COLOR;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.globalCompositeOperation = 'source-over';
+    publish();
+  };
+
+  const handleClear = () => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    canvas.getContext('2d')!.clearRect(0, 0, canvas.width, canvas.height);
+    publish();
+  };
+
+  const toolButton = (active: boolean) =>
+    `px-2 py-1 rounded text-[10px] font-bold uppercase tracking-wider border ${active ? 'bg-pink-600/30 border-pink-500 text-pink-200' : 'border-gray-700 text-gray-400 hover:text-white'}`;
+
+  return (
+    <div className="flex flex-col items-center gap-3 max-w-full max-h-full min-h-0">
+      <div className="flex flex-wrap items-center gap-2 bg-[#13141f]/90 border border-gray-700 rounded-lg px-3 py-2">
+        <button onClick={() => setTool('brush')} className={toolButton(tool === 'brush')}>Brush</button>
+        <button onClick={() => setTool('lasso')} className={toolButton(tool === 'lasso')}>Lasso</button>
+        <button onClick={() => setErasing(!erasing)} className={toolButton(erasing)}>Erase</button>
+        <label className="flex items-center gap-1 text-[10px] text-gray-400">
+          Size
+          <input type="range" min={4} max={160} value={brushSize} onChange={(e) => setBrushSize(Number(e.target.value))} className="w-20 accent-pink-500" />
+        </label>
+        <label className="flex items-center gap-1 text-[10px] text-gray-400">
+          Feather
+          <input type="range" min={0} max={40} value={feather} onChange={(e) => setFeather(Number(e.target.value))} className="w-16 accent-pink-500" />
+        </label>
+        <button onClick={handleInvert} className={toolButton(false)}>Invert</button>
+        <button onClick={handleClear} className={toolButton(false)}>Clear</button>
+      </div>
+      <div className="relative inline-block max-w-full min-h-0">
+        <img src={imageUrl} alt="Mask source" className="block max-w-full max-h-[65vh] object-contain rounded-lg border border-gray-800 select-none" draggable={false} />
+        <canvas
+          ref={canvasRef}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerLeave={handlePointerUp}
+          className="absolute inset-0 w-full h-full opacity-50 cursor-crosshair touch-none rounded-lg"
+        />
+      </div>
+    </div>
+  );
+};
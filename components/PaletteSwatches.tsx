@@ -0,0 +1,79 @@
+import React, { useState, useEffect } from 'react';
+import { PaletteColor } from '../types';
+import { extractPalette, toAse, toCssVariables, toGpl } from '../services/paletteService';
+import { downloadBlob, downloadText } from '../services/fileUtils';
+
+interface PaletteSwatchesProps {
+  imageUrl: string;
+  name: string; // Palette name written into the exported files
+}
+
+export const PaletteSwatches: React.FC<PaletteSwatchesProps> = ({ imageUrl, name }) => {
+  const [colors, setColors] = useState<PaletteColor[]>([]);
+  const [colorCount, setColorCount] = useState(6);
+  const [copiedHex, setCopiedHex] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setFailed(false);
+    extractPalette(imageUrl, colorCount)
+      .then(result => { if (!cancelled) setColors(result); })
+      .catch(e => {
+        console.error(e);
+        if (!cancelled) setFailed(true);
+      });
+    return () => { cancelled = true; };
+  }, [imageUrl, colorCount]);
+
+  const handleCopy = (hex: string) => {
+    navigator.clipboard.writeText(hex);
+    setCopiedHex(hex);
+    setTimeout(() => setCopiedHex(null), 2000);
+  };
+
+  const fileBase = `palette-${Date.now()}`;
+
+  if (failed) {
+    return <p className="text-xs text-gray-600">Could not read pixels from this image.</p>;
+  }
+
+  return (
+    <div className="mt-3">
+      <div className="flex h-6 rounded overflow-hidden border border-gray-700 mb-2">
+        {colors.map((color, idx) => (
+          <div key={idx} style={{ backgroundColor: color.hex, width: `${color.proportion * 100}%` }} title={`${color.hex} · ${(color.proportion * 100).toFixed(1)}%`} />
+        ))}
+      </div>
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-2 mb-3">
+        {colors.map((color, idx) => (
+          <button
+            key={idx}
+            onClick={() => handleCopy(color.hex)}
+            className="flex items-center gap-2 bg-[#0b0c15] border border-gray-700 rounded p-1.5 text-left hover:border-purple-500/50 transition-colors"
+            title="Copy hex"
+          >
+            <span className="w-6 h-6 rounded border border-gray-600 shrink-0" style={{ backgroundColor: color.hex }} />
+            <span className="min-w-0">
+              <span className="block text-[11px] font-mono text-gray-200">{copiedHex === color.hex ? 'Copied!' : color.hex}</span>
+              <span className="block text-[10px] font-mono text-gray-500">rgb({color.rgb.join(', ')}) · {Math.round(color.proportion * 100)}%</span>
+            </span>
+          </button>
+        ))}
+      </div>
+      <div className="flex items-center gap-2 flex-wrap">
+        <select
+          value={colorCount}
+          onChange={(e) => setColorCount(Number(e.target.value))}
+          className="bg-[#0b0c15] border border-gray-700 rounded px-1 py-0.5 text-[10px] text-gray-300 focus:outline-none"
+          title="Number of colors"
+        >
+          {[4, 6, 8, 12].map(n => <option key={n} value={n}>{n} colors</option>)}
+        </select>
+        <button onClick={() => downloadText(toGpl(colors, name), `${fileBase}.gpl`)} className="text-[10px] font-bold px-2 py-1 rounded bg-gray-800 border border-gray-700 text-gray-300 hover:text-white">.GPL</button>
+        <button onClick={() => downloadBlob(new Blob([toAse(colors)], { type: 'application/octet-stream' }), `${fileBase}.ase`)} className="text-[10px] font-bold px-2 py-1 rounded bg-gray-800 border border-gray-700 text-gray-300 hover:text-white">.ASE</button>
+        <button onClick={() => downloadText(toCssVariables(colors), `${fileBase}.css`, 'text/css')} className="text-[10px] font-bold px-2 py-1 rounded bg-gray-800 border border-gray-700 text-gray-300 hover:text-white">CSS</button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,198 @@
+import React, { useState, useRef } from 'react';
+import { StylePreset } from '../types';
+import { createPreset, exportPresets, groupPresetsByFolder, importPresets, movePreset } from '../services/presetService';
+import { downloadText } from '../services/fileUtils';
+import { DownloadIcon, PlusIcon, TrashIcon, XIcon } from './icons';
+
+interface PresetLibraryProps {
+  presets: StylePreset[];
+  activePresetIds: string[];
+  selectedModifiers: string[]; // Offered as the modifiers of a new preset
+  onTogglePreset: (preset: StylePreset) => void;
+  onSavePresets: (presets: StylePreset[]) => void; // Insert or update
+  onDeletePreset: (id: string) => void;
+}
+
+interface PresetDraft {
+  id?: string; // Set when editing an existing preset
+  name: string;
+  folder: string;
+  description: string;
+  promptPrefix: string;
+  promptSuffix: string;
+  modifiers: string; // Comma separated while editing
+}
+
+const toDraft = (preset: StylePreset): PresetDraft => ({
+  id: preset.id,
+  name: preset.name,
+  folder: preset.folder,
+  description: preset.description || '',
+  promptPrefix: preset.promptPrefix || '',
+  promptSuffix: preset.promptSuffix || '',
+  modifiers: preset.modifiers.join(', '),
+});
+
+const inputClass = "w-full bg-[#0b0c15] border border-gray-700 rounded px-2 py-1.5 text-xs text-white focus:outline-none focus:border-purple-500 placeholder-gray-600";
+
+export const PresetLibrary: React.FC<PresetLibraryProps> = ({
+  presets,
+  activePresetIds,
+  selectedModifiers,
+  onTogglePreset,
+  onSavePresets,
+  onDeletePreset,
+}) => {
+  const [draft, setDraft] = useState<PresetDraft | null>(null);
+  const [managing, setManaging] = useState(false);
+  const [collapsed, setCollapsed] = useState<string[]>([]);
+  const [notice, setNotice] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const groups = groupPresetsByFolder(presets);
+  const folders = groups.map(([folder]) => folder).filter(Boolean);
+
+  const handleSaveDraft = () => {
+    if (!draft) return;
+    const modifiers: string[] = [...new Set<string>(draft.modifiers.split(',').map(m => m.trim()).filter(Boolean))];
+    if (!draft.name.trim() || (modifiers.length === 0 && !draft.promptPrefix.trim() && !draft.promptSuffix.trim())) {
+      setNotice("A preset needs a name and at least one modifier or prompt prefix/suffix.");
+      return;
+    }
+    const fields = {
+      name: draft.name.trim(),
+      modifiers,
+      folder: draft.folder.trim(),
+      description: draft.description.trim(),
+      promptPrefix: draft.promptPrefix.trim(),
+      promptSuffix: draft.promptSuffix.trim(),
+    };
+    const existing = draft.id ? presets.find(p => p.id === draft.id) : undefined;
+    if (existing) {
+      // Moving folders puts the preset at the end of its new folder
+      const order = existing.folder === fields.folder ? existing.order : presets.filter(p => p.folder === fields.folder).length;
+      onSavePresets([{ ...existing, ...fields, order }]);
+    } else {
+      onSavePresets([createPreset(fields, presets)]);
+    }
+    setDraft(null);
+    setNotice(null);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const imported = importPresets(await file.text(), presets);
+      onSavePresets(imported);
+      setNotice(`Imported ${imported.length} preset${imported.length === 1 ? '' : 's'}.`);
+    } catch (e) {
+      setNotice(e instanceof Error ? e.message : "Failed to import presets.");
+    }
+  };
+
+  const toggleFolder = (folder: string) => {
+    setCollapsed(prev => prev.includes(folder) ? prev.filter(f => f !== folder) : [...prev, folder]);
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-2">
+        <label className="block text-xs font-bold text-gray-500 uppercase tracking-wide">Style DNA</label>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => setDraft({ name: '', folder: '', description: '', promptPrefix: '', promptSuffix: '', modifiers: selectedModifiers.join(', ') })}
+            className="text-[10px] font-bold px-2 py-0.5 rounded border border-gray-700 text-gray-400 hover:text-white flex items-center gap-1"
+            title="Save the selected styles as a preset"
+          >
+            <PlusIcon className="w-3 h-3" /> Preset
+          </button>
+          <button
+            onClick={() => setManaging(!managing)}
+            className={`text-[10px] font-bold px-2 py-0.5 rounded border ${managing ? 'border-purple-500 text-purple-300' : 'border-gray-700 text-gray-400 hover:text-white'}`}
+          >
+            {managing ? 'Done' : 'Manage'}
+          </button>
+          <button onClick={() => fileInputRef.current?.click()} className="text-[10px] font-bold px-2 py-0.5 rounded border border-gray-700 text-gray-400 hover:text-white" title="Import presets from JSON">
+            Import
+          </button>
+          <button onClick={() => downloadText(exportPresets(presets), `style-presets-${Date.now()}.json`, 'application/json')} className="p-1 rounded border border-gray-700 text-gray-400 hover:text-white" title="Export presets as JSON">
+            <DownloadIcon className="w-3 h-3" />
+          </button>
+          <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+        </div>
+      </div>
+
+      {notice && (
+        <div className="flex justify-between items-center text-[10px] text-amber-300 bg-amber-900/20 border border-amber-900/40 rounded px-2 py-1 mb-2">
+          <span>{notice}</span>
+          <button onClick={() => setNotice(null)}><XIcon className="w-3 h-3" /></button>
+        </div>
+      )}
+
+      {draft && (
+        <div className="bg-[#0b0c15] border border-purple-500/30 rounded-lg p-3 mb-3 space-y-2 animate-fade-in">
+          <div className="grid grid-cols-2 gap-2">
+            <input className={inputClass} placeholder="Preset name" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} />
+            <input className={inputClass} placeholder="Folder (optional)" list="preset-folders" value={draft.folder} onChange={(e) => setDraft({ ...draft, folder: e.target.value })} />
+            <datalist id="preset-folders">
+              {folders.map(f => <option key={f} value={f} />)}
+            </datalist>
+          </div>
+          <input className={inputClass} placeholder="Modifiers, comma separated" value={draft.modifiers} onChange={(e) => setDraft({ ...draft, modifiers: e.target.value })} />
+          <input className={inputClass} placeholder="Description (optional)" value={draft.description} onChange={(e) => setDraft({ ...draft, description: e.target.value })} />
+          <div className="grid grid-cols-2 gap-2">
+            <input className={inputClass} placeholder="Prompt prefix" value={draft.promptPrefix} onChange={(e) => setDraft({ ...draft, promptPrefix: e.target.value })} />
+            <input className={inputClass} placeholder="Prompt suffix" value={draft.promptSuffix} onChange={(e) => setDraft({ ...draft, promptSuffix: e.target.value })} />
+          </div>
+          <div className="flex justify-end gap-2">
+            <button onClick={() => { setDraft(null); setNotice(null); }} className="text-[10px] font-bold px-3 py-1 rounded text-gray-400 hover:text-white">Cancel</button>
+            <button onClick={handleSaveDraft} className="text-[10px] font-bold px-3 py-1 rounded bg-purple-600 hover:bg-purple-500 text-white">{draft.id ? 'Update' : 'Save'} Preset</button>
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-2 mb-3">
+        {groups.map(([folder, items]) => (
+          <div key={folder || '(root)'}>
+            {folder && (
+              <button onClick={() => toggleFolder(folder)} className="text-[10px] font-bold text-gray-500 uppercase tracking-wider mb-1 hover:text-gray-300">
+                {collapsed.includes(folder) ? '▸' : '▾'} {folder} ({items.length})
+              </button>
+            )}
+            {!collapsed.includes(folder) && (managing ? (
+              <div className="space-y-1">
+                {items.map((preset, idx) => (
+                  <div key={preset.id} className="flex items-center gap-1 bg-[#1a1c29] border border-gray-700 rounded px-2 py-1">
+                    <span className="flex-1 min-w-0 text-xs text-gray-300 truncate" title={preset.modifiers.join(', ')}>{preset.name}</span>
+                    <button disabled={idx === 0} onClick={() => onSavePresets(movePreset(presets, preset.id, -1))} className="text-gray-500 hover:text-white disabled:opacity-20 px-1 text-xs" title="Move up">↑</button>
+                    <button disabled={idx === items.length - 1} onClick={() => onSavePresets(movePreset(presets, preset.id, 1))} className="text-gray-500 hover:text-white disabled:opacity-20 px-1 text-xs" title="Move down">↓</button>
+                    <button onClick={() => setDraft(toDraft(preset))} className="text-[10px] text-gray-400 hover:text-white px-1">Edit</button>
+                    <button onClick={() => onDeletePreset(preset.id)} className="text-gray-500 hover:text-red-400 p-0.5" title="Delete preset"><TrashIcon className="w-3 h-3" /></button>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                {items.map(preset => (
+                  <button
+                    key={preset.id}
+                    onClick={() => onTogglePreset(preset)}
+                    title={[preset.description, preset.modifiers.join(', ')].filter(Boolean).join('\n')}
+                    className={`text-xs font-medium px-3 py-1.5 rounded-md border transition-all duration-200 ${activePresetIds.includes(preset.id)
+                      ? 'bg-purple-600 border-purple-500 text-white shadow-[0_0_10px_rgba(147,51,234,0.4)]'
+                      : 'bg-[#1a1c29] border-gray-700 text-gray-400 hover:border-gray-500 hover:text-gray-200'}`}
+                  >
+                    {preset.name}
+                  </button>
+                ))}
+              </div>
+            ))}
+          </div>
+        ))}
+        {presets.length === 0 && <p className="text-xs text-gray-600">No presets yet. Select some styles and save them as a preset.</p>}
+      </div>
+    </div>
+  );
+};
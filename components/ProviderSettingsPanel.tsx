@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { ProviderSettings } from '../types';
+import { PROVIDER_OPTIONS } from '../services/geminiService';
+import { CogIcon, XIcon } from './icons';
+
+interface ProviderSettingsPanelProps {
+  settings: ProviderSettings;
+  onSave: (settings: ProviderSettings) => void;
+  onClose: () => void;
+}
+
+const Field: React.FC<{ label: string; value: string; onChange: (value: string) => void; placeholder?: string; type?: string }> = ({ label, value, onChange, placeholder, type = 'text' }) => (
+  <label className="block">
+    <span className="block text-xs font-bold text-gray-500 mb-1 uppercase tracking-wide">{label}</span>
+    <input
+      type={type}
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      placeholder={placeholder}
+      className="w-full bg-[#0b0c15] border border-gray-700 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-purple-500 placeholder-gray-600"
+    />
+  </label>
+);
+
+export const ProviderSettingsPanel: React.FC<ProviderSettingsPanelProps> = ({ settings, onSave, onClose }) => {
+  const [draft, setDraft] = useState<ProviderSettings>(settings);
+
+  const update = (patch: Partial<ProviderSettings>) => setDraft(prev => ({ ...prev, ...patch }));
+
+  return (
+    <div className="fixed inset-0 z-50 bg-[#0b0c15]/90 backdrop-blur-md flex items-center justify-center p-4 animate-fade-in">
+      <div className="w-full max-w-lg bg-[#13141f] border border-gray-700 rounded-2xl shadow-2xl p-6 relative">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 p-2 bg-black/50 hover:bg-red-500/80 rounded-full text-white transition-colors"
+        >
+          <XIcon className="w-5 h-5" />
+        </button>
+
+        <h2 className="text-lg font-bold text-gray-100 mb-4 flex items-center gap-2">
+          <CogIcon className="w-5 h-5 text-purple-400" />
+          AI Provider
+        </h2>
+
+        <div className="space-y-2 mb-6">
+          {PROVIDER_OPTIONS.map(option => (
+            <button
+              key={option.id}
+              onClick={() => update({ providerId: option.id })}
+              className={`w-full text-left p-3 rounded-lg border transition-all ${draft.providerId === option.id
+                ? 'bg-purple-600/20 border-purple-500 text-white'
+                : 'bg-[#1a1c29] border-gray-700 text-gray-400 hover:border-gray-500 hover:text-gray-200'}`}
+            >
+              <p className="text-sm font-bold">{option.label}</p>
+              <p className="text-xs text-gray-500">{option.description}</p>
+            </button>
+          ))}
+        </div>
+
+        {draft.providerId === 'openai-compatible' && (
+          <div className="space-y-3 mb-6">
+            <Field label="Base URL" value={draft.openAiBaseUrl} onChange={(v) => update({ openAiBaseUrl: v })} placeholder="http://localhost:11434/v1" />
+            <Field label="API Key (optional)" type="password" value={draft.openAiApiKey} onChange={(v) => update({ openAiApiKey: v })} placeholder="sk-..." />
+            <div className="grid grid-cols-2 gap-3">
+              <Field label="Vision Model" value={draft.openAiVisionModel} onChange={(v) => update({ openAiVisionModel: v })} placeholder="llava" />
+              <Field label="Text Model" value={draft.openAiTextModel} onChange={(v) => update({ openAiTextModel: v })} placeholder="llama3.1" />
+            </div>
+            <Field label="Image Model (optional)" value={draft.openAiImageModel} onChange={(v) => update({ openAiImageModel: v })} placeholder="gpt-image-1" />
+            <p className="text-[10px] text-gray-500">Leave the image model empty if your server cannot generate images; Nano Render will then report an error.</p>
+          </div>
+        )}
+
+        <div className="mb-6">
+          <Field
+            label="Request Timeout (seconds)"
+            type="number"
+            value={String(draft.requestTimeoutSeconds)}
+            onChange={(v) => update({ requestTimeoutSeconds: Number(v) || 0 })}
+            placeholder="120"
+          />
+          <p className="text-[10px] text-gray-500 mt-1">Each attempt is cancelled after this long. Image generation can take a minute or more.</p>
+        </div>
+
+        <button
+          onClick={() => onSave(draft)}
+          className="w-full bg-gradient-to-r from-purple-600 to-cyan-600 hover:from-purple-500 hover:to-cyan-500 text-white font-bold py-3 px-4 rounded-lg transition-all shadow-lg shadow-purple-900/20"
+        >
+          Save
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,98 @@
+import React, { useRef } from 'react';
+import { ReferenceImage, ReferenceRole } from '../types';
+import { readFileAsDataUrl } from '../services/fileUtils';
+import { PlusIcon, XIcon } from './icons';
+
+interface ReferenceSlotsProps {
+  references: ReferenceImage[];
+  onChange: (references: ReferenceImage[]) => void;
+}
+
+const MAX_REFERENCES = 3;
+
+const ROLE_LABELS: Record<ReferenceRole, string> = {
+  style: 'Style',
+  character: 'Character',
+  content: 'Content',
+};
+
+const ROLE_HINTS: Record<ReferenceRole, string> = {
+  style: 'Palette, lighting and brushwork only',
+  character: 'Keep this character consistent',
+  content: 'Bring its subject into the scene',
+};
+
+// A new slot takes the first role that isn't in use yet, style first
+const nextRole = (references: ReferenceImage[]): ReferenceRole =>
+  (['style', 'character', 'content'] as ReferenceRole[]).find(role => !references.some(r => r.role === role)) ?? 'style';
+
+export const ReferenceSlots: React.FC<ReferenceSlotsProps> = ({ references, onChange }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const update = (id: string, patch: Partial<ReferenceImage>) =>
+    onChange(references.map(ref => ref.id === id ? { ...ref, ...patch } : ref));
+
+  const handleAdd = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    const imageUrl = await readFileAsDataUrl(file);
+    onChange([...references, { id: Date.now().toString(), role: nextRole(references), imageUrl, weight: 0.8 }]);
+  };
+
+  return (
+    <div className="mb-4">
+      <div className="flex justify-between items-center mb-1">
+        <label className="block text-xs font-bold text-gray-500 uppercase tracking-wide">Reference Images</label>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={references.length >= MAX_REFERENCES}
+          className="text-[10px] font-bold px-2 py-0.5 rounded border border-gray-700 text-gray-400 hover:text-white disabled:opacity-40 flex items-center gap-1"
+          title="Add a style, character or content reference next to the input image"
+        >
+          <PlusIcon className="w-3 h-3" /> Add
+        </button>
+        <input ref={fileInputRef} type="file" accept="image/*" className="hidden" onChange={handleAdd} />
+      </div>
+      {references.length === 0 ? (
+        <p className="text-[11px] text-gray-600">The input image is the content. Add a style or character reference to steer the render.</p>
+      ) : (
+        <div className="space-y-2">
+          {references.map(ref => (
+            <div key={ref.id} className="flex items-center gap-2 bg-[#0b0c15] border border-gray-800 rounded-lg p-2">
+              <img src={ref.imageUrl} alt={ROLE_LABELS[ref.role]} className="w-12 h-12 object-cover rounded border border-gray-700 shrink-0" />
+              <div className="flex-1 min-w-0 space-y-1">
+                <div className="flex items-center gap-2">
+                  <select
+                    value={ref.role}
+                    onChange={(e) => update(ref.id, { role: e.target.value as ReferenceRole })}
+                    className="bg-[#13141f] border border-gray-700 rounded px-1 py-0.5 text-[11px] text-gray-300 focus:outline-none"
+                  >
+                    {(Object.keys(ROLE_LABELS) as ReferenceRole[]).map(role => <option key={role} value={role}>{ROLE_LABELS[role]}</option>)}
+                  </select>
+                  <span className="text-[10px] text-gray-600 truncate">{ROLE_HINTS[ref.role]}</span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="range"
+                    min={0.1}
+                    max={1}
+                    step={0.1}
+                    value={ref.weight}
+                    onChange={(e) => update(ref.id, { weight: Number(e.target.value) })}
+                    className="flex-1 accent-purple-500"
+                    title="Weight"
+                  />
+                  <span className="text-[10px] text-gray-400 font-mono w-8 text-right">{Math.round(ref.weight * 100)}%</span>
+                </div>
+              </div>
+              <button onClick={() => onChange(references.filter(r => r.id !== ref.id))} className="text-gray-500 hover:text-red-400 p-1" title="Remove reference">
+                <XIcon className="w-3 h-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,36 +1,76 @@
 
-import React, { useState, useMemo } from 'react';
-import { AnalysisResult, OutputFormat } from '../types';
+import React, { useState, useMemo, useEffect } from 'react';
+import { AnalysisResult, OutputFormat, SerializationFormat } from '../types';
 import { CopyIcon, DownloadIcon, MagicIcon } from './icons';
+import { PaletteSwatches } from './PaletteSwatches';
+import { ValidationNotice } from './ValidationNotice';
+import { nearestAspectRatio, toComfyUi, toMidjourney, toStableDiffusion } from '../services/promptDialects';
+import { FORMAT_EXTENSIONS as DATA_EXTENSIONS, FORMAT_LABELS as DATA_LABELS, FORMAT_MIME_TYPES, SERIALIZATION_FORMATS, formatAnalysis } from '../services/exportFormats';
 
 interface ResultDisplayProps {
   result: AnalysisResult;
+  imageUrl?: string | null; // Source image, used for the dialects' aspect ratio and the pixel palette
+  issues?: string[]; // Validation problems with the model's response
+  cachedAt?: number | null; // Set when the result came from the local cache
+  onRunFresh?: () => void; // Re-runs the analysis, bypassing the cache
+  onLockStyle?: () => void; // Keeps this analysis to restyle other images with
+  isStyleLocked?: boolean;
 }
 
+const DATA_FORMATS: OutputFormat[] = SERIALIZATION_FORMATS;
+const DIALECT_FORMATS: OutputFormat[] = ['midjourney', 'sd', 'comfyui'];
+
+const isDataFormat = (format: OutputFormat): format is SerializationFormat => DATA_FORMATS.includes(format);
+
+const FORMAT_LABELS: Record<OutputFormat, string> = {
+  ...DATA_LABELS,
+  midjourney: 'Midjourney',
+  sd: 'SD / A1111',
+  comfyui: 'ComfyUI',
+};
+
+const FILE_EXTENSIONS: Record<OutputFormat, string> = {
+  ...DATA_EXTENSIONS,
+  midjourney: 'midjourney.txt',
+  sd: 'a1111.txt',
+  comfyui: 'comfyui.json',
+};
+
 const Tag: React.FC<{ children: React.ReactNode }> = ({ children }) => (
   <span className="inline-block bg-[#1a1c29] text-cyan-300 text-sm font-medium mr-2 mb-2 px-3 py-1 rounded-full border border-gray-600/50 shadow-sm">
     {children}
   </span>
 );
 
-export const ResultDisplay: React.FC<ResultDisplayProps> = ({ result }) => {
+export const ResultDisplay: React.FC<ResultDisplayProps> = ({ result, imageUrl, issues = [], cachedAt, onRunFresh, onLockStyle, isStyleLocked }) => {
   const [outputFormat, setOutputFormat] = useState<OutputFormat>('txt');
   const [copied, setCopied] = useState(false);
+  const [aspectRatio, setAspectRatio] = useState<string | undefined>(undefined);
+
+  useEffect(() => {
+    setAspectRatio(undefined);
+    if (!imageUrl) return;
+    const img = new Image();
+    img.onload = () => setAspectRatio(nearestAspectRatio(img.naturalWidth, img.naturalHeight));
+    img.src = imageUrl;
+    return () => { img.onload = null; };
+  }, [imageUrl]);
 
   const formatOutput = useMemo((): string => {
-    // For TXT, we now use the rich creative prompt as the primary output
-    const mainText = result.creativePrompt;
+    if (isDataFormat(outputFormat)) {
+      return formatAnalysis(result, outputFormat);
+    }
 
     switch (outputFormat) {
-      case 'json':
-        return JSON.stringify(result, null, 2);
-      case 'toml':
-        return `style = "${result.style}"\nartist = "${result.artist}"\ncreative_prompt = """${result.creativePrompt}"""\ntechniques = [${result.techniques.map(t => `"${t}"`).join(', ')}]\ncolorPalette = [${result.colorPalette.map(c => `"${c}"`).join(', ')}]\ncomposition = [${result.composition.map(c => `"${c}"`).join(', ')}]\nmood = "${result.mood}"`;
-      case 'txt':
+      case 'midjourney':
+        return toMidjourney(result, { aspectRatio });
+      case 'sd':
+        return toStableDiffusion(result, { aspectRatio });
+      case 'comfyui':
       default:
-        return `${mainText}\n\n-- Metadata --\nStyle: ${result.style}\nArtist: ${result.artist}\nTechniques: ${result.techniques.join(', ')}\nMood: ${result.mood}`;
+        return toComfyUi(result, { aspectRatio });
     }
-  }, [result, outputFormat]);
+  }, [result, outputFormat, aspectRatio]);
 
   const handleCopy = () => {
     navigator.clipboard.writeText(formatOutput);
@@ -39,11 +79,14 @@ export const ResultDisplay: React.FC<ResultDisplayProps> = ({ result }) => {
   };
 
   const handleDownload = () => {
-    const blob = new Blob([formatOutput], { type: 'text/plain;charset=utf-8' });
+    const mimeType = isDataFormat(outputFormat)
+      ? FORMAT_MIME_TYPES[outputFormat]
+      : outputFormat === 'comfyui' ? 'application/json' : 'text/plain';
+    const blob = new Blob([formatOutput], { type: `${mimeType};charset=utf-8` });
     const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
     link.href = url;
-    link.download = `art-prompt-${Date.now()}.${outputFormat}`;
+    link.download = `art-prompt-${Date.now()}.${FILE_EXTENSIONS[outputFormat]}`;
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
@@ -54,8 +97,30 @@ export const ResultDisplay: React.FC<ResultDisplayProps> = ({ result }) => {
     <div className="bg-[#13141f] border border-gray-700/60 rounded-xl shadow-xl p-6 animate-fade-in">
       <div className="flex items-center gap-3 mb-6">
         <h2 className="text-2xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-purple-400 to-cyan-400">Analysis Result</h2>
+        {cachedAt && (
+          <span className="flex items-center gap-2 text-[10px] text-cyan-300 border border-cyan-900/50 bg-cyan-900/10 px-2 py-0.5 rounded" title="Same image, intensity and model as an earlier scan; no API call was made">
+            Cached · {new Date(cachedAt).toLocaleString()}
+            {onRunFresh && (
+              <button onClick={onRunFresh} className="font-bold text-gray-300 hover:text-white">
+                Run fresh
+              </button>
+            )}
+          </span>
+        )}
+        {onLockStyle && (
+          <button
+            onClick={onLockStyle}
+            disabled={isStyleLocked}
+            className="ml-auto text-xs font-bold px-3 py-1 rounded border border-purple-500/40 text-purple-300 hover:text-white hover:border-purple-400 disabled:opacity-60 disabled:cursor-default transition-colors"
+            title="Keep this style and apply it to the next image you upload"
+          >
+            {isStyleLocked ? 'Style Locked' : 'Lock Style'}
+          </button>
+        )}
       </div>
 
+      <ValidationNotice issues={issues} />
+
       {/* Creative Prompt Section - High Priority */}
       <div className="mb-8 bg-[#0b0c15] rounded-lg p-5 border border-purple-500/30 shadow-[0_0_15px_rgba(168,85,247,0.1)] relative group">
         <div className="absolute -top-3 left-4 bg-[#1a1c29] px-3 py-1 rounded text-xs text-purple-300 font-bold flex items-center gap-1 border border-purple-500/30 shadow-sm">
@@ -90,6 +155,7 @@ export const ResultDisplay: React.FC<ResultDisplayProps> = ({ result }) => {
           <div className="flex flex-wrap gap-1">
              {result.colorPalette.map(c => <Tag key={c}>{c}</Tag>)}
           </div>
+          {imageUrl && <PaletteSwatches imageUrl={imageUrl} name={result.style} />}
         </div>
          <div className="md:col-span-2">
           <h3 className="font-semibold text-gray-400 text-xs uppercase tracking-wider mb-2">Composition</h3>
@@ -100,20 +166,30 @@ export const ResultDisplay: React.FC<ResultDisplayProps> = ({ result }) => {
       </div>
 
       <div className="mt-8 pt-6 border-t border-gray-700/50">
-        <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center justify-between mb-3 flex-wrap gap-2">
              <h3 className="font-semibold text-gray-300">Export Data</h3>
-             <div className="flex bg-[#0b0c15] rounded-lg p-1 border border-gray-700">
-                {(['txt', 'json', 'toml'] as OutputFormat[]).map(format => (
-                    <button
-                        key={format}
-                        onClick={() => setOutputFormat(format)}
-                        className={`px-3 py-1 text-xs font-bold rounded-md transition-all ${outputFormat === format ? 'bg-purple-600 text-white shadow-md' : 'text-gray-400 hover:bg-gray-800 hover:text-gray-200'}`}
-                    >
-                        {format.toUpperCase()}
-                    </button>
+             <div className="flex flex-wrap gap-2">
+                {[DATA_FORMATS, DIALECT_FORMATS].map((group, idx) => (
+                    <div key={idx} className="flex bg-[#0b0c15] rounded-lg p-1 border border-gray-700">
+                        {group.map(format => (
+                            <button
+                                key={format}
+                                onClick={() => setOutputFormat(format)}
+                                className={`px-3 py-1 text-xs font-bold rounded-md transition-all ${outputFormat === format ? 'bg-purple-600 text-white shadow-md' : 'text-gray-400 hover:bg-gray-800 hover:text-gray-200'}`}
+                            >
+                                {FORMAT_LABELS[format]}
+                            </button>
+                        ))}
+                    </div>
                 ))}
             </div>
         </div>
+
+        {DIALECT_FORMATS.includes(outputFormat) && (
+            <pre className="mb-4 bg-[#0b0c15] border border-gray-700 rounded-lg p-3 text-xs text-gray-300 font-mono whitespace-pre-wrap break-words max-h-64 overflow-y-auto scrollbar-thin">
+                {formatOutput}
+            </pre>
+        )}
         
         <div className="flex flex-col sm:flex-row gap-3">
             <button onClick={handleCopy} className="flex-1 flex justify-center items-center gap-2 bg-gray-700 hover:bg-gray-600 text-white font-bold py-3 px-4 rounded-lg transition-colors border border-gray-600">
@@ -126,7 +202,7 @@ export const ResultDisplay: React.FC<ResultDisplayProps> = ({ result }) => {
             </button>
         </div>
         
-        {outputFormat !== 'json' && (
+        {isDataFormat(outputFormat) && outputFormat !== 'json' && (
             <div className="mt-4 text-xs text-gray-500 text-center">
                 The generated file includes the creative prompt and all metadata tags.
             </div>
@@ -0,0 +1,133 @@
+import React from 'react';
+import { SavedAnalysis, SavedExtraction, StorageUsage } from '../types';
+import { formatBytes } from '../services/storageService';
+import { HistoryIcon, TrashIcon } from './icons';
+
+interface SavedLibraryProps {
+  analyses: SavedAnalysis[];
+  extractions: SavedExtraction[];
+  usage: StorageUsage | null;
+  onRestoreAnalysis: (analysis: SavedAnalysis) => void;
+  onDeleteAnalysis: (id: string) => void;
+  onRestoreExtraction: (extraction: SavedExtraction) => void;
+  onDeleteExtraction: (id: string) => void;
+  onClearAll: () => void;
+  onClearCache: () => void;
+  onCompare: () => void;
+}
+
+export const SavedLibrary: React.FC<SavedLibraryProps> = ({
+  analyses,
+  extractions,
+  usage,
+  onRestoreAnalysis,
+  onDeleteAnalysis,
+  onRestoreExtraction,
+  onDeleteExtraction,
+  onClearAll,
+  onClearCache,
+  onCompare,
+}) => {
+  const canCompare = analyses.length >= 2 || extractions.length >= 2;
+
+  const usagePercent = usage && usage.quotaBytes > 0 ? Math.min(100, (usage.usedBytes / usage.quotaBytes) * 100) : 0;
+
+  return (
+    <div className="bg-[#13141f] border border-gray-700/60 rounded-xl p-6 shadow-xl">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-lg font-bold text-gray-100 flex items-center gap-2">
+          <HistoryIcon className="w-5 h-5 text-purple-400" />
+          Saved Library
+        </h2>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={onCompare}
+            disabled={!canCompare}
+            className="text-xs font-normal text-cyan-300 hover:text-white border border-cyan-900/50 bg-cyan-900/10 px-2 py-0.5 rounded transition-colors disabled:opacity-40"
+            title="Compare two saved scans or two distillations"
+          >
+            Compare
+          </button>
+          <button
+            onClick={onClearCache}
+            className="text-xs font-normal text-gray-400 hover:text-white border border-gray-700 bg-[#0b0c15] px-2 py-0.5 rounded transition-colors"
+            title="Forget cached scan and distillation results so the next run calls the API again"
+          >
+            Clear Cache
+          </button>
+          <button
+            onClick={onClearAll}
+            className="text-xs font-normal text-red-400 hover:text-red-300 border border-red-900/50 bg-red-900/10 px-2 py-0.5 rounded transition-colors"
+            title="Delete all saved history, scans, distillations and cached results"
+          >
+            Clear Storage
+          </button>
+        </div>
+      </div>
+
+      {usage && (
+        <div className="mb-4">
+          <div className="flex justify-between text-[10px] text-gray-500 font-mono mb-1">
+            <span>{formatBytes(usage.usedBytes)} used</span>
+            <span>{formatBytes(usage.quotaBytes)} quota</span>
+          </div>
+          <div className="h-1.5 bg-[#0b0c15] rounded-full overflow-hidden border border-gray-800">
+            <div
+              className={`h-full ${usagePercent > 80 ? 'bg-red-500' : 'bg-gradient-to-r from-purple-600 to-cyan-600'}`}
+              style={{ width: `${usagePercent}%` }}
+            />
+          </div>
+        </div>
+      )}
+
+      <h3 className="font-semibold text-gray-400 text-xs uppercase tracking-wider mb-2">Past Scans ({analyses.length})</h3>
+      {analyses.length === 0 ? (
+        <p className="text-xs text-gray-600 mb-4">No saved scans yet.</p>
+      ) : (
+        <div className="space-y-2 max-h-56 overflow-y-auto scrollbar-thin mb-4">
+          {analyses.map(analysis => (
+            <div key={analysis.id} className="flex items-center gap-3 bg-[#0b0c15] border border-gray-800 rounded-lg p-2 group hover:border-purple-500/50 transition-colors">
+              <button onClick={() => onRestoreAnalysis(analysis)} className="flex items-center gap-3 flex-1 min-w-0 text-left" title="Restore this scan">
+                <img src={analysis.imageUrl} alt={analysis.result.style} className="w-10 h-10 object-cover rounded border border-gray-700" />
+                <div className="min-w-0">
+                  <p className="text-xs font-bold text-gray-200 truncate">{analysis.result.style}</p>
+                  <p className="text-[10px] text-gray-600 font-mono">{new Date(analysis.timestamp).toLocaleString()}</p>
+                </div>
+              </button>
+              <button
+                onClick={() => onDeleteAnalysis(analysis.id)}
+                className="text-gray-600 hover:text-red-400 p-1 rounded hover:bg-gray-800 transition-colors"
+                title="Delete scan"
+              >
+                <TrashIcon className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <h3 className="font-semibold text-gray-400 text-xs uppercase tracking-wider mb-2">Distillations ({extractions.length})</h3>
+      {extractions.length === 0 ? (
+        <p className="text-xs text-gray-600">No saved distillations yet.</p>
+      ) : (
+        <div className="space-y-2 max-h-40 overflow-y-auto scrollbar-thin">
+          {extractions.map(extraction => (
+            <div key={extraction.id} className="flex items-center gap-3 bg-[#0b0c15] border border-gray-800 rounded-lg p-2 hover:border-amber-500/50 transition-colors">
+              <button onClick={() => onRestoreExtraction(extraction)} className="flex-1 min-w-0 text-left" title="Restore this distillation">
+                <p className="text-xs text-gray-300 truncate">{extraction.sourceText}</p>
+                <p className="text-[10px] text-gray-600 font-mono">{new Date(extraction.timestamp).toLocaleString()}</p>
+              </button>
+              <button
+                onClick={() => onDeleteExtraction(extraction.id)}
+                className="text-gray-600 hover:text-red-400 p-1 rounded hover:bg-gray-800 transition-colors"
+                title="Delete distillation"
+              >
+                <TrashIcon className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
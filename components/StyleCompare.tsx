@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { SavedAnalysis, SavedExtraction } from '../types';
+import { blendModifiers, diffAnalyses, diffExtractions, StyleDiff } from '../services/styleDiff';
+import { SparklesIcon, XIcon } from './icons';
+
+interface StyleCompareProps {
+  analyses: SavedAnalysis[];
+  extractions: SavedExtraction[];
+  onBlend: (modifiers: string[]) => void;
+  onClose: () => void;
+}
+
+type CompareMode = 'analyses' | 'extractions';
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+const analysisLabel = (a: SavedAnalysis) => `${a.result.style} — ${a.result.artist} (${new Date(a.timestamp).toLocaleDateString()})`;
+const extractionLabel = (e: SavedExtraction) => `${e.sourceText.slice(0, 50)}${e.sourceText.length > 50 ? '…' : ''} (${new Date(e.timestamp).toLocaleDateString()})`;
+
+const TagList: React.FC<{ tags: string[]; className: string }> = ({ tags, className }) => (
+  <div className="flex flex-wrap gap-1">
+    {tags.length === 0 ? <span className="text-[10px] text-gray-700">—</span> : tags.map(tag => (
+      <span key={tag} className={`text-[10px] px-1.5 py-0.5 rounded border ${className}`}>{tag}</span>
+    ))}
+  </div>
+);
+
+export const StyleCompare: React.FC<StyleCompareProps> = ({ analyses, extractions, onBlend, onClose }) => {
+  const [mode, setMode] = useState<CompareMode>(analyses.length >= 2 || extractions.length < 2 ? 'analyses' : 'extractions');
+  const items = mode === 'analyses' ? analyses : extractions;
+  const [idA, setIdA] = useState<string>(items[0]?.id ?? '');
+  const [idB, setIdB] = useState<string>(items[1]?.id ?? '');
+
+  const switchMode = (next: CompareMode) => {
+    const list = next === 'analyses' ? analyses : extractions;
+    setMode(next);
+    setIdA(list[0]?.id ?? '');
+    setIdB(list[1]?.id ?? '');
+  };
+
+  let diff: StyleDiff | null = null;
+  if (mode === 'analyses') {
+    const a = analyses.find(x => x.id === idA);
+    const b = analyses.find(x => x.id === idB);
+    if (a && b) diff = diffAnalyses(a.result, b.result);
+  } else {
+    const a = extractions.find(x => x.id === idA);
+    const b = extractions.find(x => x.id === idB);
+    if (a && b) diff = diffExtractions(a.result, b.result);
+  }
+
+  const imageFor = (id: string) => mode === 'analyses' ? analyses.find(x => x.id === id)?.imageUrl : undefined;
+
+  const selector = (value: string, onChange: (id: string) => void, accent: string) => (
+    <div className="flex items-center gap-2 min-w-0">
+      {imageFor(value) && <img src={imageFor(value)} alt="" className={`w-10 h-10 object-cover rounded border ${accent}`} />}
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="flex-1 min-w-0 bg-[#0b0c15] border border-gray-700 rounded px-2 py-1.5 text-xs text-gray-300 focus:outline-none"
+      >
+        {mode === 'analyses'
+          ? analyses.map(a => <option key={a.id} value={a.id}>{analysisLabel(a)}</option>)
+          : extractions.map(e => <option key={e.id} value={e.id}>{extractionLabel(e)}</option>)}
+      </select>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 bg-[#0b0c15]/90 backdrop-blur-md flex items-center justify-center p-4 animate-fade-in">
+      <div className="w-full max-w-4xl max-h-[90vh] overflow-y-auto bg-[#13141f] border border-gray-700 rounded-2xl shadow-2xl p-6 relative">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 p-2 bg-black/50 hover:bg-red-500/80 rounded-full text-white transition-colors"
+        >
+          <XIcon className="w-5 h-5" />
+        </button>
+
+        <h2 className="text-lg font-bold text-gray-100 mb-4">Compare Styles</h2>
+
+        <div className="flex bg-[#0b0c15] rounded p-0.5 border border-gray-700 w-fit mb-4">
+          {(['analyses', 'extractions'] as const).map(m => (
+            <button
+              key={m}
+              onClick={() => switchMode(m)}
+              className={`px-3 py-1 text-[10px] font-bold uppercase tracking-wider rounded ${mode === m ? 'bg-purple-600 text-white' : 'text-gray-400 hover:text-white'}`}
+            >
+              {m === 'analyses' ? `Scans (${analyses.length})` : `Style DNA (${extractions.length})`}
+            </button>
+          ))}
+        </div>
+
+        {items.length < 2 ? (
+          <p className="text-sm text-gray-500">Save at least two {mode === 'analyses' ? 'scans' : 'distillations'} to compare them.</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-5">
+              {selector(idA, setIdA, 'border-purple-500')}
+              {selector(idB, setIdB, 'border-cyan-500')}
+            </div>
+
+            {diff && (
+              <>
+                <div className="flex items-center justify-between mb-4">
+                  <p className="text-sm text-gray-300">Overall overlap <span className="font-mono font-bold text-white">{percent(diff.overall)}</span></p>
+                  <button
+                    onClick={() => onBlend(blendModifiers(diff!))}
+                    className="text-xs font-bold bg-gradient-to-r from-purple-600 to-cyan-600 hover:from-purple-500 hover:to-cyan-500 px-4 py-2 rounded text-white flex items-center gap-1"
+                    title="Merge both sides into the Creative Studio's styles"
+                  >
+                    <SparklesIcon className="w-3 h-3" /> Blend into Style DNA
+                  </button>
+                </div>
+
+                <div className="space-y-3">
+                  {diff.categories.map(category => (
+                    <div key={category.key} className="bg-[#0b0c15] border border-gray-800 rounded-lg p-3">
+                      <div className="flex items-center gap-3 mb-2">
+                        <span className="text-xs font-bold text-gray-400 uppercase tracking-wider w-32 shrink-0">{category.label}</span>
+                        <div className="flex-1 h-1.5 bg-[#1a1c29] rounded-full overflow-hidden">
+                          <div className="h-full bg-gradient-to-r from-purple-600 to-cyan-600" style={{ width: percent(category.overlap) }} />
+                        </div>
+                        <span className="text-[10px] font-mono text-gray-400 w-10 text-right">{percent(category.overlap)}</span>
+                      </div>
+                      <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                        <div>
+                          <p className="text-[9px] text-purple-400 font-bold uppercase mb-1">Only A</p>
+                          <TagList tags={category.onlyA} className="bg-purple-900/20 border-purple-800/50 text-purple-200" />
+                        </div>
+                        <div>
+                          <p className="text-[9px] text-gray-400 font-bold uppercase mb-1">Shared</p>
+                          <TagList tags={category.shared} className="bg-gray-800 border-gray-600 text-gray-200" />
+                        </div>
+                        <div>
+                          <p className="text-[9px] text-cyan-400 font-bold uppercase mb-1">Only B</p>
+                          <TagList tags={category.onlyB} className="bg-cyan-900/20 border-cyan-800/50 text-cyan-200" />
+                        </div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
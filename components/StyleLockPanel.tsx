@@ -0,0 +1,43 @@
+import React from 'react';
+import { StyleLock, StyleLockField } from '../types';
+import { STYLE_LOCK_FIELDS } from '../services/styleTransfer';
+import { XIcon } from './icons';
+
+interface StyleLockPanelProps {
+  lock: StyleLock;
+  onToggleField: (field: StyleLockField) => void;
+  onRelease: () => void;
+}
+
+const fieldValue = (lock: StyleLock, field: StyleLockField): string => {
+  const value = lock.analysis[field];
+  return Array.isArray(value) ? value.join(', ') : value;
+};
+
+export const StyleLockPanel: React.FC<StyleLockPanelProps> = ({ lock, onToggleField, onRelease }) => (
+  <div className="mb-4 bg-[#0b0c15] border border-purple-500/40 rounded-lg p-3 shadow-[0_0_15px_rgba(168,85,247,0.1)]">
+    <div className="flex items-center gap-3 mb-2">
+      <img src={lock.sourceImageUrl} alt="Style source" className="w-10 h-10 object-cover rounded border border-gray-700 shrink-0" />
+      <div className="flex-1 min-w-0">
+        <p className="text-[10px] font-bold text-purple-300 uppercase tracking-wider">Style Lock</p>
+        <p className="text-xs text-gray-300 truncate" title={`${lock.analysis.style}, ${lock.analysis.artist}`}>{lock.analysis.style}, {lock.analysis.artist}</p>
+      </div>
+      <button onClick={onRelease} className="text-gray-500 hover:text-white p-1" title="Release the style lock">
+        <XIcon className="w-4 h-4" />
+      </button>
+    </div>
+    <div className="space-y-1">
+      {STYLE_LOCK_FIELDS.map(({ key, label }) => {
+        const enabled = lock.fields.includes(key);
+        return (
+          <label key={key} className={`flex items-start gap-2 text-[11px] cursor-pointer ${enabled ? 'text-gray-300' : 'text-gray-600'}`}>
+            <input type="checkbox" checked={enabled} onChange={() => onToggleField(key)} className="mt-0.5 accent-purple-500" />
+            <span className="font-bold w-20 shrink-0">{label}</span>
+            <span className="truncate" title={fieldValue(lock, key)}>{fieldValue(lock, key)}</span>
+          </label>
+        );
+      })}
+    </div>
+    <p className="text-[10px] text-gray-600 mt-2">Upload another image and render: the checked fields become its modifiers and instruction.</p>
+  </div>
+);
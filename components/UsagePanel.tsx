@@ -0,0 +1,192 @@
+import React, { useState, useEffect } from 'react';
+import { ModelPrice, UsageSettings } from '../types';
+import {
+  DEFAULT_PRICES, UsageTotals, clearUsageLog, formatCost, formatUsageCsv, getUsageRecords, getUsageSettings,
+  saveUsageSettings, sessionRecords, subscribeUsage, summarizeUsage, todayRecords
+} from '../services/usageService';
+import { downloadText } from '../services/fileUtils';
+import { DownloadIcon, PlusIcon, TrashIcon, XIcon } from './icons';
+
+interface UsagePanelProps {
+  onClose: () => void;
+}
+
+const OPERATION_LABELS: Record<string, string> = {
+  analysis: 'Scan',
+  render: 'Render',
+  title: 'Title',
+  distill: 'Distill',
+};
+
+const numberClass = "w-full bg-[#0b0c15] border border-gray-700 rounded px-2 py-1 text-xs text-white font-mono focus:outline-none focus:border-purple-500";
+
+const TotalsCard: React.FC<{ label: string; totals: UsageTotals }> = ({ label, totals }) => (
+  <div className="bg-[#0b0c15] border border-gray-800 rounded-lg p-3">
+    <p className="text-[10px] font-bold text-gray-500 uppercase tracking-wider mb-1">{label}</p>
+    <p className="text-2xl font-bold text-white font-mono">{formatCost(totals.cost)}</p>
+    <p className="text-[11px] text-gray-400 mt-1">
+      {totals.calls} calls · {totals.inputTokens.toLocaleString()} in / {totals.outputTokens.toLocaleString()} out · {totals.images} images
+    </p>
+  </div>
+);
+
+export const UsagePanel: React.FC<UsagePanelProps> = ({ onClose }) => {
+  const [, setVersion] = useState(0);
+  const [draft, setDraft] = useState<UsageSettings>(getUsageSettings);
+
+  useEffect(() => subscribeUsage(() => setVersion(v => v + 1)), []);
+
+  const session = summarizeUsage(sessionRecords());
+  const today = summarizeUsage(todayRecords());
+  const saved = getUsageSettings();
+  const spent = saved.budgetScope === 'session' ? session.cost : today.cost;
+  const recent = [...getUsageRecords()].reverse().slice(0, 50);
+
+  const updatePrice = (index: number, patch: Partial<ModelPrice>) =>
+    setDraft(prev => ({ ...prev, prices: prev.prices.map((p, i) => i === index ? { ...p, ...patch } : p) }));
+
+  const handleExport = () => downloadText(formatUsageCsv(getUsageRecords()), `usage-${new Date().toISOString().slice(0, 10)}.csv`, 'text/csv');
+
+  const handleClear = () => {
+    if (window.confirm("Clear the whole usage log? Session and daily totals start over.")) clearUsageLog();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-[#0b0c15]/90 backdrop-blur-md flex items-center justify-center p-4 animate-fade-in">
+      <div className="w-full max-w-4xl max-h-[90vh] overflow-y-auto bg-[#13141f] border border-gray-700 rounded-2xl shadow-2xl p-6 relative">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 p-2 bg-black/50 hover:bg-red-500/80 rounded-full text-white transition-colors"
+        >
+          <XIcon className="w-5 h-5" />
+        </button>
+
+        <h2 className="text-lg font-bold text-gray-100 mb-4">Usage & Cost</h2>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-6">
+          <TotalsCard label="This session" totals={session} />
+          <TotalsCard label="Today" totals={today} />
+        </div>
+
+        <section className="mb-6">
+          <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wide mb-2">Budget Cap</h3>
+          <div className="flex flex-wrap items-center gap-2 mb-2">
+            <span className="text-xs text-gray-400">Stop calling the AI once spending reaches $</span>
+            <input
+              type="number"
+              min={0}
+              step={0.01}
+              value={draft.budgetCap || ''}
+              placeholder="no cap"
+              onChange={(e) => setDraft(prev => ({ ...prev, budgetCap: Math.max(0, Number(e.target.value) || 0) }))}
+              className={`${numberClass} w-24`}
+            />
+            <span className="text-xs text-gray-400">per</span>
+            <select
+              value={draft.budgetScope}
+              onChange={(e) => setDraft(prev => ({ ...prev, budgetScope: e.target.value as UsageSettings['budgetScope'] }))}
+              className="bg-[#0b0c15] border border-gray-700 rounded px-2 py-1 text-xs text-gray-300 focus:outline-none"
+            >
+              <option value="day">day</option>
+              <option value="session">session</option>
+            </select>
+          </div>
+          {saved.budgetCap > 0 && (
+            <div className="h-1.5 bg-[#0b0c15] rounded-full overflow-hidden" title={`${formatCost(spent)} of ${formatCost(saved.budgetCap)}`}>
+              <div
+                className={`h-full ${spent >= saved.budgetCap ? 'bg-red-500' : 'bg-gradient-to-r from-purple-600 to-cyan-600'}`}
+                style={{ width: `${Math.min(100, (spent / saved.budgetCap) * 100)}%` }}
+              />
+            </div>
+          )}
+        </section>
+
+        <section className="mb-6">
+          <div className="flex justify-between items-center mb-2">
+            <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wide">Price Table (USD)</h3>
+            <div className="flex gap-1">
+              <button
+                onClick={() => setDraft(prev => ({ ...prev, prices: [...prev.prices, { model: '', inputPerMillion: 0, outputPerMillion: 0, perImage: 0 }] }))}
+                className="text-[10px] font-bold px-2 py-0.5 rounded border border-gray-700 text-gray-400 hover:text-white flex items-center gap-1"
+              >
+                <PlusIcon className="w-3 h-3" /> Model
+              </button>
+              <button onClick={() => setDraft(prev => ({ ...prev, prices: DEFAULT_PRICES }))} className="text-[10px] font-bold px-2 py-0.5 rounded border border-gray-700 text-gray-400 hover:text-white">
+                Defaults
+              </button>
+            </div>
+          </div>
+          <div className="grid grid-cols-[1fr_90px_90px_90px_24px] gap-2 text-[10px] text-gray-500 uppercase font-bold mb-1">
+            <span>Model (prefix)</span><span>In / 1M</span><span>Out / 1M</span><span>Per image</span><span />
+          </div>
+          <div className="space-y-1">
+            {draft.prices.map((price, idx) => (
+              <div key={idx} className="grid grid-cols-[1fr_90px_90px_90px_24px] gap-2 items-center">
+                <input value={price.model} onChange={(e) => updatePrice(idx, { model: e.target.value.trim() })} className={numberClass} />
+                <input type="number" min={0} step={0.01} value={price.inputPerMillion} onChange={(e) => updatePrice(idx, { inputPerMillion: Number(e.target.value) || 0 })} className={numberClass} />
+                <input type="number" min={0} step={0.01} value={price.outputPerMillion} onChange={(e) => updatePrice(idx, { outputPerMillion: Number(e.target.value) || 0 })} className={numberClass} />
+                <input type="number" min={0} step={0.001} value={price.perImage} onChange={(e) => updatePrice(idx, { perImage: Number(e.target.value) || 0 })} className={numberClass} />
+                <button onClick={() => setDraft(prev => ({ ...prev, prices: prev.prices.filter((_, i) => i !== idx) }))} className="text-gray-500 hover:text-red-400" title="Remove">
+                  <TrashIcon className="w-3 h-3" />
+                </button>
+              </div>
+            ))}
+          </div>
+          <p className="text-[10px] text-gray-600 mt-2">Estimates only. New prices apply to calls made from now on.</p>
+          <div className="flex justify-end mt-2">
+            <button
+              onClick={() => saveUsageSettings({ ...draft, prices: draft.prices.filter(p => p.model) })}
+              className="text-xs font-bold px-4 py-1.5 rounded bg-purple-600 hover:bg-purple-500 text-white"
+            >
+              Save Budget & Prices
+            </button>
+          </div>
+        </section>
+
+        <section>
+          <div className="flex justify-between items-center mb-2">
+            <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wide">Recent Calls</h3>
+            <div className="flex gap-1">
+              <button onClick={handleExport} className="text-[10px] font-bold px-2 py-0.5 rounded border border-gray-700 text-gray-400 hover:text-white flex items-center gap-1">
+                <DownloadIcon className="w-3 h-3" /> CSV
+              </button>
+              <button onClick={handleClear} className="text-[10px] font-bold px-2 py-0.5 rounded border border-gray-700 text-gray-400 hover:text-red-400">
+                Clear
+              </button>
+            </div>
+          </div>
+          {recent.length === 0 ? (
+            <p className="text-xs text-gray-600">No calls recorded yet.</p>
+          ) : (
+            <table className="w-full text-[11px] text-gray-300">
+              <thead>
+                <tr className="text-[10px] text-gray-500 uppercase text-left">
+                  <th className="font-bold py-1">Time</th>
+                  <th className="font-bold">Operation</th>
+                  <th className="font-bold">Model</th>
+                  <th className="font-bold text-right">In</th>
+                  <th className="font-bold text-right">Out</th>
+                  <th className="font-bold text-right">Latency</th>
+                  <th className="font-bold text-right">Cost</th>
+                </tr>
+              </thead>
+              <tbody>
+                {recent.map(r => (
+                  <tr key={r.id} className="border-t border-gray-800">
+                    <td className="py-1 text-gray-500">{new Date(r.timestamp).toLocaleTimeString()}</td>
+                    <td>{OPERATION_LABELS[r.operation] ?? r.operation}</td>
+                    <td className="font-mono truncate max-w-[160px]">{r.model}</td>
+                    <td className="text-right font-mono">{r.inputTokens.toLocaleString()}</td>
+                    <td className="text-right font-mono">{r.outputTokens.toLocaleString()}</td>
+                    <td className="text-right font-mono">{(r.latencyMs / 1000).toFixed(1)}s</td>
+                    <td className="text-right font-mono">{formatCost(r.cost)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,24 @@
+import React, { useState } from 'react';
+
+interface ValidationNoticeProps {
+  issues: string[];
+}
+
+// Problems found in (and mostly fixed in) a model response, so bad output is never silently hidden
+export const ValidationNotice: React.FC<ValidationNoticeProps> = ({ issues }) => {
+  const [expanded, setExpanded] = useState(false);
+  if (issues.length === 0) return null;
+
+  return (
+    <div className="text-[11px] text-amber-300 bg-amber-900/20 border border-amber-900/40 rounded px-3 py-2 mb-4">
+      <button onClick={() => setExpanded(!expanded)} className="font-bold hover:text-amber-200">
+        {expanded ? '▾' : '▸'} The model's response needed {issues.length} correction{issues.length === 1 ? '' : 's'}
+      </button>
+      {expanded && (
+        <ul className="mt-1 ml-4 list-disc space-y-0.5 text-amber-200/80">
+          {issues.map((issue, idx) => <li key={idx}>{issue}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+};
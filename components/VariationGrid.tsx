@@ -0,0 +1,236 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Variation } from '../types';
+import { editImageWithGemini } from '../services/geminiService';
+import { MAX_VARIATIONS, createVariations, runWithConcurrency } from '../services/variationService';
+import { parseDataUrl } from '../services/fileUtils';
+import { getErrorMessage } from '../services/serviceErrors';
+import { Spinner } from './Spinner';
+import { HistoryIcon, MagicIcon, TrashIcon, WandIcon, XIcon } from './icons';
+
+interface VariationGridProps {
+  sourceImageUrl: string;
+  prompt: string; // Already composed with the active presets
+  modifiers: string[];
+  onSendToHistory: (variation: Variation) => Promise<void>;
+  onEdit: (variation: Variation) => void;
+  onClose: () => void;
+}
+
+export const VariationGrid: React.FC<VariationGridProps> = ({ sourceImageUrl, prompt, modifiers, onSendToHistory, onEdit, onClose }) => {
+  const [count, setCount] = useState(4);
+  const [concurrency, setConcurrency] = useState(2);
+  const [perturb, setPerturb] = useState(true);
+  const [variations, setVariations] = useState<Variation[]>([]);
+  const [sentIds, setSentIds] = useState<string[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const update = (id: string, patch: Partial<Variation>) => {
+    setVariations(prev => prev.map(v => v.id === id ? { ...v, ...patch } : v));
+  };
+
+  const handleRun = async () => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    const batch = createVariations(prompt, count, perturb);
+    // Starred keepers survive a new round; everything else makes room for it
+    setVariations(prev => [...prev.filter(v => v.starred), ...batch]);
+    setIsRunning(true);
+
+    const { base64Data, mimeType } = parseDataUrl(sourceImageUrl);
+    await runWithConcurrency(batch.map(variation => async () => {
+      if (controller.signal.aborted) return;
+      update(variation.id, { status: 'running' });
+      try {
+        const result = await editImageWithGemini(base64Data, mimeType, variation.prompt, modifiers, { signal: controller.signal });
+        if (controller.signal.aborted) return;
+        update(variation.id, { status: 'done', imageUrl: result.imageUrl, executedPrompt: result.executedPrompt, model: result.model });
+      } catch (e) {
+        if (controller.signal.aborted) return;
+        console.error(e);
+        update(variation.id, { status: 'error', error: getErrorMessage(e, "Failed to render this variation.") });
+      }
+    }), concurrency);
+
+    if (controllerRef.current === controller) {
+      controllerRef.current = null;
+      setIsRunning(false);
+    }
+  };
+
+  const handleCancel = () => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setIsRunning(false);
+    setVariations(prev => prev.filter(v => v.status === 'done' || v.status === 'error'));
+  };
+
+  const handleSend = async (variation: Variation) => {
+    setSentIds(prev => [...prev, variation.id]);
+    try {
+      await onSendToHistory(variation);
+    } catch (e) {
+      console.error(e);
+      setSentIds(prev => prev.filter(id => id !== variation.id));
+    }
+  };
+
+  const handleClose = () => {
+    controllerRef.current?.abort();
+    onClose();
+  };
+
+  const discard = (id: string) => setVariations(prev => prev.filter(v => v.id !== id));
+
+  const starredToSend = variations.filter(v => v.starred && v.status === 'done' && !sentIds.includes(v.id));
+  const finished = variations.filter(v => v.status === 'done').length;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-[#0b0c15]/90 backdrop-blur-md flex items-center justify-center p-4 animate-fade-in">
+      <div className="w-full max-w-6xl max-h-[92vh] flex flex-col bg-[#13141f] border border-gray-700 rounded-2xl shadow-2xl relative">
+        <button
+          onClick={handleClose}
+          className="absolute top-4 right-4 p-2 bg-black/50 hover:bg-red-500/80 rounded-full text-white transition-colors z-10"
+        >
+          <XIcon className="w-5 h-5" />
+        </button>
+
+        <div className="p-6 pb-4 border-b border-gray-800">
+          <h2 className="text-lg font-bold text-gray-100 mb-1 flex items-center gap-2">
+            <MagicIcon className="w-5 h-5 text-purple-400" /> Variations
+          </h2>
+          <p className="text-xs text-gray-500 mb-4 truncate pr-10" title={prompt}>{prompt || modifiers.join(', ')}</p>
+
+          <div className="flex flex-wrap items-end gap-4">
+            <label className="text-[10px] font-bold text-gray-500 uppercase tracking-wider">
+              Count
+              <input
+                type="number"
+                min={1}
+                max={MAX_VARIATIONS}
+                value={count}
+                onChange={(e) => setCount(Math.min(MAX_VARIATIONS, Math.max(1, Number(e.target.value) || 1)))}
+                className="block mt-1 w-20 bg-[#0b0c15] border border-gray-700 rounded px-2 py-1 text-xs text-white focus:outline-none focus:border-purple-500"
+              />
+            </label>
+            <label className="text-[10px] font-bold text-gray-500 uppercase tracking-wider">
+              Parallel
+              <select
+                value={concurrency}
+                onChange={(e) => setConcurrency(Number(e.target.value))}
+                className="block mt-1 bg-[#0b0c15] border border-gray-700 rounded px-2 py-1 text-xs text-white focus:outline-none"
+              >
+                {[1, 2, 3, 4].map(n => <option key={n} value={n}>{n}</option>)}
+              </select>
+            </label>
+            <label className="flex items-center gap-2 text-xs text-gray-300 pb-1 cursor-pointer" title="Nudge each variation after the first in a different direction">
+              <input type="checkbox" checked={perturb} onChange={(e) => setPerturb(e.target.checked)} className="accent-purple-500" />
+              Perturb prompts
+            </label>
+            <div className="flex-1" />
+            {isRunning ? (
+              <button onClick={handleCancel} className="text-xs font-bold px-4 py-2 rounded border border-gray-700 text-gray-300 hover:text-white hover:border-red-500">
+                Cancel ({finished}/{variations.length})
+              </button>
+            ) : (
+              <button
+                onClick={handleRun}
+                className="text-xs font-bold bg-gradient-to-r from-purple-600 to-cyan-600 hover:from-purple-500 hover:to-cyan-500 px-4 py-2 rounded text-white flex items-center gap-1"
+              >
+                <MagicIcon className="w-3 h-3" /> Render {count}
+              </button>
+            )}
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6">
+          {variations.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-12">Render a set of variations, star the keepers and discard the rest.</p>
+          ) : (
+            <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-3">
+              {variations.map((variation, idx) => (
+                <div
+                  key={variation.id}
+                  className={`bg-[#0b0c15] rounded-lg overflow-hidden border ${variation.starred ? 'border-amber-400/70 shadow-[0_0_10px_rgba(251,191,36,0.25)]' : 'border-gray-800'}`}
+                >
+                  <div className="aspect-square bg-black/40 relative flex items-center justify-center group">
+                    {variation.status === 'done' && variation.imageUrl ? (
+                      <img src={variation.imageUrl} alt={`Variation ${idx + 1}`} className="w-full h-full object-cover" />
+                    ) : variation.status === 'error' ? (
+                      <p className="text-[10px] text-red-300 p-3 text-center">{variation.error}</p>
+                    ) : variation.status === 'running' ? (
+                      <Spinner />
+                    ) : (
+                      <span className="text-[10px] text-gray-600 uppercase font-bold">Queued</span>
+                    )}
+                    {variation.status === 'done' && (
+                      <button
+                        onClick={() => update(variation.id, { starred: !variation.starred })}
+                        className={`absolute top-2 left-2 w-7 h-7 rounded-full bg-black/60 text-sm ${variation.starred ? 'text-amber-300' : 'text-gray-400 hover:text-amber-200'}`}
+                        title={variation.starred ? 'Unstar' : 'Star as a keeper'}
+                      >
+                        {variation.starred ? '★' : '☆'}
+                      </button>
+                    )}
+                    {variation.status !== 'running' && variation.status !== 'queued' && (
+                      <button
+                        onClick={() => discard(variation.id)}
+                        className="absolute top-2 right-2 p-1.5 rounded-full bg-black/60 text-gray-400 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                        title="Discard"
+                      >
+                        <TrashIcon className="w-3 h-3" />
+                      </button>
+                    )}
+                  </div>
+                  <div className="p-2">
+                    <p className="text-[10px] text-gray-500 truncate" title={variation.prompt}>
+                      #{idx + 1} {variation.perturbation ?? 'base prompt'}
+                    </p>
+                    {variation.status === 'done' && (
+                      <div className="flex gap-1 mt-1.5">
+                        <button
+                          onClick={() => handleSend(variation)}
+                          disabled={sentIds.includes(variation.id)}
+                          className="flex-1 text-[10px] font-bold py-1 rounded border border-gray-700 text-gray-300 hover:text-white disabled:opacity-40 flex items-center justify-center gap-1"
+                        >
+                          <HistoryIcon className="w-3 h-3" /> {sentIds.includes(variation.id) ? 'Saved' : 'History'}
+                        </button>
+                        <button
+                          onClick={() => onEdit(variation)}
+                          className="flex-1 text-[10px] font-bold py-1 rounded border border-gray-700 text-gray-300 hover:text-white flex items-center justify-center gap-1"
+                        >
+                          <WandIcon className="w-3 h-3" /> Edit
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {variations.length > 0 && (
+          <div className="p-4 border-t border-gray-800 flex justify-end gap-2">
+            <button
+              onClick={() => setVariations(prev => prev.filter(v => v.starred || v.status === 'running' || v.status === 'queued'))}
+              className="text-xs font-bold px-3 py-2 rounded border border-gray-700 text-gray-400 hover:text-white"
+            >
+              Discard unstarred
+            </button>
+            <button
+              onClick={() => starredToSend.forEach(handleSend)}
+              disabled={starredToSend.length === 0}
+              className="text-xs font-bold px-3 py-2 rounded bg-purple-600 hover:bg-purple-500 text-white disabled:opacity-40"
+            >
+              Send starred to history ({starredToSend.length})
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
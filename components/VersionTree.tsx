@@ -0,0 +1,65 @@
+import React from 'react';
+import { EditNode } from '../types';
+import { flattenTree } from '../services/versionTree';
+import { DownloadIcon } from './icons';
+
+interface VersionTreeProps {
+  nodes: EditNode[];
+  currentId: string;
+  compareId: string | null;
+  onSelect: (id: string) => void;
+  onToggleCompare: (id: string) => void;
+  onExportBranch: (id: string) => void;
+}
+
+export const VersionTree: React.FC<VersionTreeProps> = ({ nodes, currentId, compareId, onSelect, onToggleCompare, onExportBranch }) => {
+  const rows = flattenTree(nodes);
+
+  return (
+    <div className="space-y-1">
+      {rows.map(({ node, depth }) => {
+        const isCurrent = node.id === currentId;
+        const isCompared = node.id === compareId;
+        return (
+          <div
+            key={node.id}
+            style={{ paddingLeft: `${depth * 14}px` }}
+            className="group flex items-center gap-2"
+          >
+            {depth > 0 && <span className="text-gray-700 text-xs font-mono shrink-0">└</span>}
+            <button
+              onClick={() => onSelect(node.id)}
+              className={`flex-1 min-w-0 flex items-center gap-2 p-1.5 rounded border text-left transition-colors ${
+                isCurrent ? 'border-purple-500 bg-purple-900/20' : isCompared ? 'border-cyan-500/60 bg-cyan-900/10' : 'border-gray-700 bg-[#0b0c15] hover:border-gray-500'
+              }`}
+              title={node.executedPrompt || node.prompt}
+            >
+              <img src={node.imageUrl} alt="" className="w-9 h-9 object-cover rounded shrink-0" />
+              <span className="min-w-0">
+                <span className="block text-[10px] font-bold text-gray-500">{node.parentId ? `v${nodes.indexOf(node)}` : 'Original'}</span>
+                <span className="block text-xs text-gray-300 truncate">{node.prompt || 'Untitled'}</span>
+              </span>
+            </button>
+            <div className="flex flex-col gap-1 opacity-0 group-hover:opacity-100 transition-opacity shrink-0">
+              <button
+                onClick={() => onToggleCompare(node.id)}
+                disabled={isCurrent}
+                className={`text-[9px] font-bold px-1.5 py-0.5 rounded border disabled:opacity-30 ${isCompared ? 'border-cyan-500 text-cyan-300' : 'border-gray-700 text-gray-400 hover:text-white'}`}
+                title="Compare with the current version"
+              >
+                VS
+              </button>
+              <button
+                onClick={() => onExportBranch(node.id)}
+                className="p-0.5 rounded border border-gray-700 text-gray-400 hover:text-white flex justify-center"
+                title="Export the branch leading here"
+              >
+                <DownloadIcon className="w-3 h-3" />
+              </button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,147 @@
+import React, { useState, useRef } from 'react';
+import { WildcardList } from '../types';
+import { downloadText } from '../services/fileUtils';
+import { DownloadIcon, PlusIcon, TrashIcon, XIcon } from './icons';
+
+interface WildcardManagerProps {
+  lists: WildcardList[];
+  onSave: (list: WildcardList) => void; // Insert or update
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+// Same conventions as A1111 wildcard files: one entry per line, # starts a comment
+const parseWords = (text: string): string[] =>
+  [...new Set<string>(text.split(/\r?\n/).map(line => line.trim()).filter(line => line && !line.startsWith('#')))];
+
+const toListName = (text: string) => text.trim().replace(/\.txt$/i, '').replace(/[^\w-]+/g, '_');
+
+export const WildcardManager: React.FC<WildcardManagerProps> = ({ lists, onSave, onDelete, onClose }) => {
+  const sorted = [...lists].sort((a, b) => a.name.localeCompare(b.name));
+  const [selectedId, setSelectedId] = useState<string | null>(sorted[0]?.id ?? null);
+  const [draftName, setDraftName] = useState(sorted[0]?.name ?? '');
+  const [draftWords, setDraftWords] = useState(sorted[0]?.words.join('\n') ?? '');
+  const [notice, setNotice] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const select = (list: WildcardList | null) => {
+    setSelectedId(list?.id ?? null);
+    setDraftName(list?.name ?? '');
+    setDraftWords(list?.words.join('\n') ?? '');
+    setNotice(null);
+  };
+
+  const handleSave = () => {
+    const name = toListName(draftName);
+    if (!name) {
+      setNotice("Give the word list a name.");
+      return;
+    }
+    if (lists.some(l => l.name === name && l.id !== selectedId)) {
+      setNotice(`A word list named __${name}__ already exists.`);
+      return;
+    }
+    const list: WildcardList = { id: selectedId ?? Date.now().toString(), name, words: parseWords(draftWords), timestamp: Date.now() };
+    onSave(list);
+    setSelectedId(list.id);
+    setDraftName(name);
+    setNotice(`Saved __${name}__ (${list.words.length} entries).`);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = Array.from(event.target.files || []);
+    event.target.value = '';
+    let imported = 0;
+    for (const [idx, file] of files.entries()) {
+      const name = toListName(file.name);
+      const existing = lists.find(l => l.name === name);
+      // Re-importing a file replaces the list of the same name
+      onSave({ id: existing?.id ?? `${Date.now()}-${idx}`, name, words: parseWords(await file.text()), timestamp: Date.now() });
+      imported++;
+    }
+    if (imported) setNotice(`Imported ${imported} word list${imported === 1 ? '' : 's'}.`);
+  };
+
+  const selected = lists.find(l => l.id === selectedId);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-[#0b0c15]/90 backdrop-blur-md flex items-center justify-center p-4 animate-fade-in">
+      <div className="w-full max-w-3xl max-h-[90vh] flex flex-col bg-[#13141f] border border-gray-700 rounded-2xl shadow-2xl p-6 relative">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 p-2 bg-black/50 hover:bg-red-500/80 rounded-full text-white transition-colors"
+        >
+          <XIcon className="w-5 h-5" />
+        </button>
+
+        <h2 className="text-lg font-bold text-gray-100 mb-1">Wildcard Word Lists</h2>
+        <p className="text-xs text-gray-500 mb-4">Use a list in your idea as <span className="font-mono text-cyan-300">__name__</span> to insert a random entry.</p>
+
+        {notice && (
+          <div className="flex justify-between items-center text-[10px] text-amber-300 bg-amber-900/20 border border-amber-900/40 rounded px-2 py-1 mb-3">
+            <span>{notice}</span>
+            <button onClick={() => setNotice(null)}><XIcon className="w-3 h-3" /></button>
+          </div>
+        )}
+
+        <div className="flex gap-4 min-h-0 flex-1">
+          <div className="w-48 shrink-0 flex flex-col gap-2">
+            <div className="flex gap-1">
+              <button onClick={() => select(null)} className="flex-1 text-[10px] font-bold px-2 py-1 rounded border border-gray-700 text-gray-400 hover:text-white flex items-center justify-center gap-1">
+                <PlusIcon className="w-3 h-3" /> New
+              </button>
+              <button onClick={() => fileInputRef.current?.click()} className="flex-1 text-[10px] font-bold px-2 py-1 rounded border border-gray-700 text-gray-400 hover:text-white" title="Import .txt files, one entry per line">
+                Import
+              </button>
+              <input ref={fileInputRef} type="file" accept=".txt,text/plain" multiple className="hidden" onChange={handleImport} />
+            </div>
+            <div className="overflow-y-auto space-y-1">
+              {sorted.map(list => (
+                <button
+                  key={list.id}
+                  onClick={() => select(list)}
+                  className={`w-full text-left px-2 py-1.5 rounded text-xs font-mono truncate ${list.id === selectedId ? 'bg-purple-600/30 text-white border border-purple-500/50' : 'text-gray-400 hover:bg-[#1a1c29] border border-transparent'}`}
+                >
+                  __{list.name}__ <span className="text-gray-600">({list.words.length})</span>
+                </button>
+              ))}
+              {sorted.length === 0 && <p className="text-[10px] text-gray-600">No word lists yet.</p>}
+            </div>
+          </div>
+
+          <div className="flex-1 flex flex-col gap-2 min-w-0">
+            <input
+              value={draftName}
+              onChange={(e) => setDraftName(e.target.value)}
+              placeholder="List name, e.g. animal"
+              className="bg-[#0b0c15] border border-gray-700 rounded px-2 py-1.5 text-xs text-white font-mono focus:outline-none focus:border-purple-500 placeholder-gray-600"
+            />
+            <textarea
+              value={draftWords}
+              onChange={(e) => setDraftWords(e.target.value)}
+              placeholder={"One entry per line\nfox\nheron\nmoth"}
+              className="flex-1 min-h-[240px] bg-[#0b0c15] border border-gray-700 rounded px-2 py-1.5 text-xs text-white font-mono focus:outline-none focus:border-purple-500 placeholder-gray-600 resize-none"
+            />
+            <div className="flex justify-between">
+              <div className="flex gap-1">
+                {selected && (
+                  <>
+                    <button onClick={() => { onDelete(selected.id); select(null); }} className="p-1.5 rounded border border-gray-700 text-gray-400 hover:text-red-400" title="Delete list">
+                      <TrashIcon className="w-3 h-3" />
+                    </button>
+                    <button onClick={() => downloadText(selected.words.join('\n'), `${selected.name}.txt`)} className="p-1.5 rounded border border-gray-700 text-gray-400 hover:text-white" title="Export as .txt">
+                      <DownloadIcon className="w-3 h-3" />
+                    </button>
+                  </>
+                )}
+              </div>
+              <button onClick={handleSave} className="text-xs font-bold px-4 py-1.5 rounded bg-purple-600 hover:bg-purple-500 text-white">
+                {selected ? 'Update' : 'Save'} List
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,275 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { BatchItemStatus, GeneratedItem, StylePreset } from '../types';
+import { editImageWithGemini } from '../services/geminiService';
+import { MatrixAxis, MatrixJob, TemplateContext, axisLabels, axisTitle, buildMatrixJobs, findMatrixProblems, findVariables } from '../services/promptTemplate';
+import { runWithConcurrency } from '../services/variationService';
+import { renderLabelledGrid } from '../services/gridImage';
+import { downloadBlob, parseDataUrl } from '../services/fileUtils';
+import { getErrorMessage } from '../services/serviceErrors';
+import { Spinner } from './Spinner';
+import { DownloadIcon, XIcon } from './icons';
+
+interface XYMatrixProps {
+  sourceImageUrl: string;
+  template: string;
+  context: TemplateContext;
+  modifiers: string[];
+  presets: StylePreset[];
+  styleContext: string;
+  onCellResult: (item: GeneratedItem) => void;
+  onGridResult: (item: GeneratedItem) => void;
+  onClose: () => void;
+}
+
+interface AxisDraft {
+  kind: 'variable' | 'preset' | 'none';
+  name: string;
+  values: string; // One per line while editing
+  presetIds: string[];
+}
+
+interface MatrixCell {
+  job: MatrixJob;
+  status: BatchItemStatus;
+  imageUrl?: string;
+  error?: string;
+}
+
+const MAX_CELLS = 36;
+const CONCURRENCY = 2;
+
+const toAxis = (draft: AxisDraft, presets: StylePreset[]): MatrixAxis | null => {
+  if (draft.kind === 'none') return null;
+  if (draft.kind === 'preset') return { kind: 'preset', presets: presets.filter(p => draft.presetIds.includes(p.id)) };
+  return { kind: 'variable', name: draft.name, values: draft.values.split(/\r?\n/).map(v => v.trim()).filter(Boolean) };
+};
+
+export const XYMatrix: React.FC<XYMatrixProps> = ({
+  sourceImageUrl,
+  template,
+  context,
+  modifiers,
+  presets,
+  styleContext,
+  onCellResult,
+  onGridResult,
+  onClose,
+}) => {
+  const variables = findVariables(template);
+  const [xDraft, setXDraft] = useState<AxisDraft>({ kind: variables.length > 0 ? 'variable' : 'preset', name: variables[0] ?? '', values: '', presetIds: [] });
+  const [yDraft, setYDraft] = useState<AxisDraft>({ kind: 'none', name: variables[1] ?? variables[0] ?? '', values: '', presetIds: [] });
+  const [cells, setCells] = useState<MatrixCell[]>([]);
+  const [gridUrl, setGridUrl] = useState<string | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [problems, setProblems] = useState<string[]>([]);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const xAxis = toAxis(xDraft, presets);
+  const yAxis = toAxis(yDraft, presets);
+  const cellCount = axisLabels(xAxis).length * axisLabels(yAxis).length;
+
+  const handleRun = async () => {
+    if (!xAxis) return;
+    const found = findMatrixProblems(template, xAxis, yAxis, context);
+    if (cellCount > MAX_CELLS) found.push(`That is ${cellCount} cells; the limit is ${MAX_CELLS}.`);
+    setProblems(found);
+    if (found.length > 0) return;
+
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    const runId = Date.now().toString();
+    const jobs = buildMatrixJobs(template, xAxis, yAxis, context, modifiers, Date.now());
+    const results: MatrixCell[] = jobs.map(job => ({ job, status: 'queued' }));
+    const publish = () => setCells([...results]);
+    setCells(results);
+    setGridUrl(null);
+    setIsRunning(true);
+
+    const { base64Data, mimeType } = parseDataUrl(sourceImageUrl);
+    await runWithConcurrency(results.map((cell, index) => async () => {
+      if (controller.signal.aborted) return;
+      results[index] = { ...cell, status: 'running' };
+      publish();
+      try {
+        const result = await editImageWithGemini(base64Data, mimeType, cell.job.prompt, cell.job.modifiers, { signal: controller.signal });
+        if (controller.signal.aborted) return;
+        results[index] = { ...cell, status: 'done', imageUrl: result.imageUrl };
+        onCellResult({
+          id: `${runId}-${cell.job.x}-${cell.job.y}`,
+          imageUrl: result.imageUrl,
+          title: [cell.job.xLabel, cell.job.yLabel].filter(Boolean).join(' × '),
+          prompt: cell.job.prompt,
+          modifiers: cell.job.modifiers,
+          styleContext,
+          executedPrompt: result.executedPrompt,
+          model: result.model,
+          timestamp: Date.now(),
+        });
+      } catch (e) {
+        if (controller.signal.aborted) return;
+        console.error(e);
+        results[index] = { ...cell, status: 'error', error: getErrorMessage(e, "Failed to render this cell.") };
+      }
+      publish();
+    }), CONCURRENCY);
+
+    if (controllerRef.current !== controller) return;
+    controllerRef.current = null;
+    setIsRunning(false);
+    if (!results.some(c => c.status === 'done')) return;
+
+    try {
+      const url = await renderLabelledGrid(
+        results.map(c => ({ x: c.job.x, y: c.job.y, imageUrl: c.imageUrl })),
+        { xLabels: axisLabels(xAxis), yLabels: axisLabels(yAxis), xTitle: axisTitle(xAxis), yTitle: axisTitle(yAxis) }
+      );
+      setGridUrl(url);
+      onGridResult({
+        id: `${runId}-grid`,
+        imageUrl: url,
+        title: `X/Y plot: ${[axisTitle(xAxis), axisTitle(yAxis)].filter(Boolean).join(' × ')}`,
+        prompt: template,
+        modifiers,
+        styleContext,
+        timestamp: Date.now(),
+      });
+    } catch (e) {
+      console.error(e);
+      setProblems(["Rendered the cells but couldn't assemble the grid image."]);
+    }
+  };
+
+  const handleCancel = () => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setIsRunning(false);
+  };
+
+  const handleDownloadGrid = async () => {
+    if (!gridUrl) return;
+    downloadBlob(await (await fetch(gridUrl)).blob(), `xy-plot-${Date.now()}.png`);
+  };
+
+  const axisEditor = (label: string, draft: AxisDraft, setDraft: (d: AxisDraft) => void, allowNone: boolean) => (
+    <div className="bg-[#0b0c15] border border-gray-800 rounded-lg p-3 space-y-2">
+      <div className="flex items-center gap-2">
+        <span className="text-xs font-bold text-gray-400 uppercase tracking-wider w-14">{label} axis</span>
+        <select
+          value={draft.kind}
+          onChange={(e) => setDraft({ ...draft, kind: e.target.value as AxisDraft['kind'] })}
+          className="bg-[#13141f] border border-gray-700 rounded px-2 py-1 text-xs text-gray-300 focus:outline-none"
+        >
+          <option value="variable" disabled={variables.length === 0}>Variable</option>
+          <option value="preset">Style presets</option>
+          {allowNone && <option value="none">None</option>}
+        </select>
+        {draft.kind === 'variable' && (
+          <select
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            className="bg-[#13141f] border border-gray-700 rounded px-2 py-1 text-xs text-cyan-300 font-mono focus:outline-none"
+          >
+            {variables.map(v => <option key={v} value={v}>{`{${v}}`}</option>)}
+          </select>
+        )}
+      </div>
+      {draft.kind === 'variable' && (
+        <textarea
+          value={draft.values}
+          onChange={(e) => setDraft({ ...draft, values: e.target.value })}
+          placeholder={"One value per line\na lighthouse\nan old tram"}
+          className="w-full h-24 bg-[#13141f] border border-gray-700 rounded px-2 py-1.5 text-xs text-white focus:outline-none focus:border-purple-500 placeholder-gray-600 resize-none"
+        />
+      )}
+      {draft.kind === 'preset' && (
+        <div className="flex flex-wrap gap-1 max-h-24 overflow-y-auto">
+          {presets.map(preset => (
+            <button
+              key={preset.id}
+              onClick={() => setDraft({ ...draft, presetIds: draft.presetIds.includes(preset.id) ? draft.presetIds.filter(id => id !== preset.id) : [...draft.presetIds, preset.id] })}
+              className={`text-[10px] px-2 py-1 rounded border ${draft.presetIds.includes(preset.id) ? 'bg-purple-600 border-purple-500 text-white' : 'bg-[#1a1c29] border-gray-700 text-gray-400 hover:text-gray-200'}`}
+            >
+              {preset.name}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+
+  const columns = axisLabels(xAxis).length || 1;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-[#0b0c15]/90 backdrop-blur-md flex items-center justify-center p-4 animate-fade-in">
+      <div className="w-full max-w-6xl max-h-[92vh] overflow-y-auto bg-[#13141f] border border-gray-700 rounded-2xl shadow-2xl p-6 relative">
+        <button
+          onClick={() => { handleCancel(); onClose(); }}
+          className="absolute top-4 right-4 p-2 bg-black/50 hover:bg-red-500/80 rounded-full text-white transition-colors"
+        >
+          <XIcon className="w-5 h-5" />
+        </button>
+
+        <h2 className="text-lg font-bold text-gray-100 mb-1">X/Y Matrix</h2>
+        <p className="text-xs text-gray-500 font-mono mb-4 truncate pr-10" title={template}>{template}</p>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-4">
+          {axisEditor('X', xDraft, setXDraft, false)}
+          {axisEditor('Y', yDraft, setYDraft, true)}
+        </div>
+
+        {problems.length > 0 && (
+          <ul className="text-[11px] text-amber-300 bg-amber-900/20 border border-amber-900/40 rounded px-3 py-2 mb-4 list-disc list-inside">
+            {problems.map((p, i) => <li key={i}>{p}</li>)}
+          </ul>
+        )}
+
+        <div className="flex items-center justify-between mb-4">
+          <span className="text-xs text-gray-500">{cellCount} cell{cellCount === 1 ? '' : 's'} · each finished cell is saved to history</span>
+          <div className="flex gap-2">
+            {gridUrl && (
+              <button onClick={handleDownloadGrid} className="text-xs font-bold px-3 py-2 rounded border border-gray-700 text-gray-300 hover:text-white flex items-center gap-1">
+                <DownloadIcon className="w-3 h-3" /> Grid PNG
+              </button>
+            )}
+            {isRunning ? (
+              <button onClick={handleCancel} className="text-xs font-bold px-4 py-2 rounded border border-gray-700 text-gray-300 hover:text-white hover:border-red-500">
+                Cancel
+              </button>
+            ) : (
+              <button
+                onClick={handleRun}
+                disabled={cellCount === 0}
+                className="text-xs font-bold bg-gradient-to-r from-purple-600 to-cyan-600 hover:from-purple-500 hover:to-cyan-500 px-4 py-2 rounded text-white disabled:opacity-50"
+              >
+                Render Matrix
+              </button>
+            )}
+          </div>
+        </div>
+
+        {gridUrl ? (
+          <img src={gridUrl} alt="X/Y plot" className="w-full rounded-lg border border-gray-800" />
+        ) : cells.length > 0 && (
+          <div className="grid gap-2" style={{ gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))` }}>
+            {cells.map(cell => (
+              <div key={`${cell.job.x}-${cell.job.y}`} className="aspect-square bg-[#0b0c15] border border-gray-800 rounded flex items-center justify-center overflow-hidden relative">
+                {cell.imageUrl ? (
+                  <img src={cell.imageUrl} alt={cell.job.xLabel} className="w-full h-full object-cover" />
+                ) : cell.status === 'running' ? (
+                  <Spinner />
+                ) : (
+                  <span className={`text-[10px] p-2 text-center ${cell.status === 'error' ? 'text-red-300' : 'text-gray-600'}`}>{cell.error ?? cell.status}</span>
+                )}
+                <span className="absolute bottom-0 inset-x-0 bg-black/60 text-[9px] text-gray-300 px-1 truncate">
+                  {[cell.job.xLabel, cell.job.yLabel].filter(Boolean).join(' × ')}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,32 @@
+import { AnalysisResult, BatchExportFormat, BatchItem } from '../types';
+import { toCsv, toJson } from './serializers';
+
+// Flattens a finished batch into one row per image: the filename plus every AnalysisResult field.
+
+export type BatchRow = { fileName: string } & AnalysisResult;
+
+const CSV_COLUMNS: string[] = ['fileName', 'style', 'artist', 'techniques', 'colorPalette', 'composition', 'mood', 'creativePrompt'];
+
+export const toBatchRows = (items: BatchItem[]): BatchRow[] =>
+    items
+        .filter((item): item is BatchItem & { result: AnalysisResult } => item.status === 'done' && !!item.result)
+        .map(item => ({ fileName: item.fileName, ...item.result }));
+
+export function formatBatchExport(items: BatchItem[], format: BatchExportFormat): string {
+    const rows = toBatchRows(items);
+    switch (format) {
+        case 'jsonl':
+            return rows.map(row => toJson(row, 0)).join('\n') + (rows.length ? '\n' : '');
+        case 'csv':
+            return toCsv(rows, CSV_COLUMNS);
+        case 'json':
+        default:
+            return toJson(rows);
+    }
+}
+
+export const BATCH_EXPORT_MIME: Record<BatchExportFormat, string> = {
+    json: 'application/json',
+    jsonl: 'application/x-ndjson',
+    csv: 'text/csv',
+};
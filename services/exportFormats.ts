@@ -0,0 +1,154 @@
+import { AnalysisResult, GeneratedItem, SerializationFormat, StyleExtractionResult } from '../types';
+import { toCsv, toJson, toMarkdown, toToml, toYaml } from './serializers';
+
+// Document layouts for everything the user can copy or download. The "txt" layouts are the
+// original human-readable reports; every other format is produced by the shared serializers.
+
+export const SERIALIZATION_FORMATS: SerializationFormat[] = ['txt', 'json', 'toml', 'yaml', 'csv', 'markdown'];
+
+export const FORMAT_LABELS: Record<SerializationFormat, string> = {
+    txt: 'TXT',
+    json: 'JSON',
+    toml: 'TOML',
+    yaml: 'YAML',
+    csv: 'CSV',
+    markdown: 'MD',
+};
+
+export const FORMAT_EXTENSIONS: Record<SerializationFormat, string> = {
+    txt: 'txt',
+    json: 'json',
+    toml: 'toml',
+    yaml: 'yaml',
+    csv: 'csv',
+    markdown: 'md',
+};
+
+export const FORMAT_MIME_TYPES: Record<SerializationFormat, string> = {
+    txt: 'text/plain',
+    json: 'application/json',
+    toml: 'application/toml',
+    yaml: 'application/yaml',
+    csv: 'text/csv',
+    markdown: 'text/markdown',
+};
+
+// --- Analysis ---
+
+export function formatAnalysis(result: AnalysisResult, format: SerializationFormat): string {
+    switch (format) {
+        case 'json':
+            return toJson(result);
+        case 'toml':
+            return toToml({
+                style: result.style,
+                artist: result.artist,
+                creative_prompt: result.creativePrompt,
+                techniques: result.techniques,
+                colorPalette: result.colorPalette,
+                composition: result.composition,
+                mood: result.mood,
+            });
+        case 'yaml':
+            return toYaml(result);
+        case 'csv':
+            return toCsv([result], ['style', 'artist', 'techniques', 'colorPalette', 'composition', 'mood', 'creativePrompt']);
+        case 'markdown':
+            return toMarkdown(`${result.style} — ${result.artist}`, [
+                { heading: 'Creative Prompt', content: result.creativePrompt },
+                { heading: 'Mood', content: result.mood },
+                { heading: 'Techniques', content: result.techniques },
+                { heading: 'Color Palette', content: result.colorPalette },
+                { heading: 'Composition', content: result.composition },
+            ]);
+        case 'txt':
+        default:
+            // For TXT, the rich creative prompt is the primary output
+            return `${result.creativePrompt}\n\n-- Metadata --\nStyle: ${result.style}\nArtist: ${result.artist}\nTechniques: ${result.techniques.join(', ')}\nMood: ${result.mood}`;
+    }
+}
+
+// --- Style Distiller report ---
+
+const STYLE_CATEGORIES: { key: keyof StyleExtractionResult; label: string }[] = [
+    { key: 'lighting', label: 'Lighting' },
+    { key: 'medium', label: 'Medium' },
+    { key: 'textures', label: 'Textures' },
+    { key: 'techniques', label: 'Techniques' },
+    { key: 'vibe', label: 'Vibe' },
+];
+
+export function formatStyleReport(styles: StyleExtractionResult, format: SerializationFormat, generatedAt: Date = new Date()): string {
+    const document = { generated: generatedAt.toISOString(), ...styles };
+    switch (format) {
+        case 'json':
+            return toJson(document);
+        case 'toml':
+            return toToml(document);
+        case 'yaml':
+            return toYaml(document);
+        case 'csv':
+            // One row per tag keeps the report easy to filter in a spreadsheet
+            return toCsv(
+                STYLE_CATEGORIES.flatMap(({ key }) => styles[key].map(tag => ({ category: key, tag }))),
+                ['category', 'tag']
+            );
+        case 'markdown':
+            return toMarkdown('Style Distillation Report', [
+                { heading: 'Generated', content: generatedAt.toLocaleString() },
+                ...STYLE_CATEGORIES.map(({ key, label }) => ({ heading: label, content: styles[key] })),
+            ]);
+        case 'txt':
+        default:
+            return `STYLE DISTILLATION REPORT
+${generatedAt.toLocaleString()}
+${STYLE_CATEGORIES.map(({ key, label }) => `
+${label.toUpperCase()}:
+${styles[key].join(', ') || 'None'}
+`).join('')}`;
+    }
+}
+
+// --- History log ---
+
+// Everything except the image itself, which would bloat the text log with base64
+const historyLogRecord = (item: GeneratedItem) => ({
+    id: item.id,
+    title: item.title,
+    created: new Date(item.timestamp).toISOString(),
+    prompt: item.prompt,
+    modifiers: item.modifiers,
+    style_context: item.styleContext || '',
+});
+
+export function formatHistoryLog(item: GeneratedItem, format: SerializationFormat): string {
+    switch (format) {
+        case 'json':
+            return toJson(historyLogRecord(item));
+        case 'toml':
+            return toToml(historyLogRecord(item));
+        case 'yaml':
+            return toYaml(historyLogRecord(item));
+        case 'csv':
+            return toCsv([historyLogRecord(item)]);
+        case 'markdown':
+            return toMarkdown(item.title, [
+                { heading: 'Created', content: new Date(item.timestamp).toLocaleString() },
+                { heading: 'Prompt', content: item.prompt },
+                { heading: 'Styles', content: item.modifiers },
+                ...(item.styleContext ? [{ heading: 'Original Style Context', content: item.styleContext }] : []),
+            ]);
+        case 'txt':
+        default:
+            return `${item.title}
+${new Date(item.timestamp).toLocaleString()}
+
+Prompt:
+${item.prompt}
+
+Styles:
+${item.modifiers.join(', ') || 'None'}
+
+${item.styleContext ? `Original Style Context:\n${item.styleContext}` : ''}`;
+    }
+}
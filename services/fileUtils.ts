@@ -0,0 +1,68 @@
+// Browser file helpers shared by the uploaders, batch queue and exporters.
+
+export const readFileAsDataUrl = (file: File): Promise<string> => new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error || new Error(`Failed to read ${file.name}`));
+    reader.readAsDataURL(file);
+});
+
+export const parseDataUrl = (dataUrl: string): { base64Data: string; mimeType: string } => ({
+    base64Data: dataUrl.split(',')[1],
+    mimeType: dataUrl.split(',')[0].split(':')[1].split(';')[0],
+});
+
+export const isImageFile = (file: File) => file.type.startsWith('image/');
+
+const readEntryFiles = async (entry: FileSystemEntry): Promise<File[]> => {
+    if (entry.isFile) {
+        const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+        // Keep the folder path so batch exports can tell same-named files apart
+        const relativePath = entry.fullPath.replace(/^\//, '');
+        return [relativePath && relativePath !== file.name
+            ? new File([file], relativePath, { type: file.type, lastModified: file.lastModified })
+            : file];
+    }
+    if (entry.isDirectory) {
+        const reader = (entry as FileSystemDirectoryEntry).createReader();
+        const files: File[] = [];
+        // readEntries returns results in chunks; keep reading until it returns an empty batch
+        while (true) {
+            const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+            if (batch.length === 0) break;
+            for (const child of batch) {
+                files.push(...await readEntryFiles(child));
+            }
+        }
+        return files;
+    }
+    return [];
+};
+
+/** Collects every image from a drop, descending into dropped folders where the browser allows it. */
+export async function collectDroppedImages(dataTransfer: DataTransfer): Promise<File[]> {
+    const entries = Array.from(dataTransfer.items || [])
+        .filter(item => item.kind === 'file')
+        .map(item => item.webkitGetAsEntry())
+        .filter((entry): entry is FileSystemEntry => !!entry);
+
+    const files = entries.length > 0
+        ? (await Promise.all(entries.map(readEntryFiles))).flat()
+        : Array.from(dataTransfer.files || []);
+
+    return files.filter(isImageFile);
+}
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+};
+
+export const downloadText = (text: string, fileName: string, mimeType: string = 'text/plain') =>
+    downloadBlob(new Blob([text], { type: `${mimeType};charset=utf-8` }), fileName);
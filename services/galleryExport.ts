@@ -0,0 +1,160 @@
+import JSZip from 'jszip';
+import { GeneratedItem } from '../types';
+import { historyFileStem } from './historyArchive';
+import { exportGeneratedPng } from './pngProvenance';
+import { renderContactSheet, renderThumbnail } from './gridImage';
+
+// Offline gallery for sharing history outside the app: one index.html with inline
+// thumbnails and a small filter script, the full-size PNGs it links to, and a printable
+// contact sheet. Everything works from the unzipped folder with no network.
+
+const ROOT = 'gallery';
+const CONTACT_SHEET_FILE = 'contact-sheet.png';
+
+const escapeHtml = (text: string) => text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+interface GalleryEntry {
+    item: GeneratedItem;
+    thumbnailUrl: string;
+    imagePath: string;
+}
+
+const GALLERY_STYLE = `
+* { box-sizing: border-box; }
+body { margin: 0; background: #0b0c15; color: #e5e7eb; font: 14px/1.5 system-ui, sans-serif; }
+header { position: sticky; top: 0; padding: 16px 24px; background: #13141fee; border-bottom: 1px solid #374151; display: flex; flex-wrap: wrap; gap: 12px; align-items: center; }
+h1 { margin: 0 auto 0 0; font-size: 20px; }
+input, select { background: #0b0c15; color: #e5e7eb; border: 1px solid #374151; border-radius: 6px; padding: 6px 10px; font: inherit; }
+a { color: #67e8f9; }
+main { display: grid; grid-template-columns: repeat(auto-fill, minmax(280px, 1fr)); gap: 16px; padding: 24px; }
+.card { background: #1a1c29; border: 1px solid #374151; border-radius: 10px; overflow: hidden; display: flex; flex-direction: column; }
+.card[hidden] { display: none; }
+.card img { width: 100%; aspect-ratio: 1; object-fit: cover; background: #0b0c15; display: block; }
+.body { padding: 12px; display: flex; flex-direction: column; gap: 6px; }
+.title { font-weight: 700; font-size: 15px; }
+.meta { color: #6b7280; font-size: 12px; }
+.prompt { white-space: pre-wrap; }
+.tags { display: flex; flex-wrap: wrap; gap: 4px; }
+.tag { font-size: 11px; background: #0b0c15; border: 1px solid #374151; border-radius: 4px; padding: 1px 6px; color: #9ca3af; }
+details { font-size: 12px; color: #9ca3af; }
+details pre { white-space: pre-wrap; font: inherit; margin: 6px 0 0; }
+#count { color: #6b7280; font-size: 12px; }
+@media print {
+  header { position: static; }
+  header input, header select { display: none; }
+  body { background: #fff; color: #111827; }
+  .card { background: #fff; border-color: #d1d5db; break-inside: avoid; }
+  details { display: none; }
+}
+`;
+
+// Plain DOM filtering over data attributes, so the page needs no libraries
+const GALLERY_SCRIPT = `
+const search = document.getElementById('search');
+const modifier = document.getElementById('modifier');
+const count = document.getElementById('count');
+const cards = Array.from(document.querySelectorAll('.card'));
+const apply = () => {
+  const terms = search.value.toLowerCase().split(/\\s+/).filter(Boolean);
+  let shown = 0;
+  for (const card of cards) {
+    const text = card.dataset.search;
+    const mods = JSON.parse(card.dataset.modifiers);
+    const visible = terms.every(t => text.includes(t)) && (!modifier.value || mods.includes(modifier.value));
+    card.hidden = !visible;
+    if (visible) shown++;
+  }
+  count.textContent = shown + ' of ' + cards.length;
+};
+search.addEventListener('input', apply);
+modifier.addEventListener('change', apply);
+apply();
+`;
+
+const renderCard = ({ item, thumbnailUrl, imagePath }: GalleryEntry) => {
+    const searchText = [item.title, item.prompt, item.modifiers.join(' '), item.styleContext ?? '', item.model ?? ''].join(' ').toLowerCase();
+    return `<article class="card" data-search="${escapeHtml(searchText)}" data-modifiers="${escapeHtml(JSON.stringify(item.modifiers))}">
+  <a href="${escapeHtml(imagePath)}" target="_blank"><img src="${thumbnailUrl}" alt="${escapeHtml(item.title)}" loading="lazy"></a>
+  <div class="body">
+    <div class="title">${escapeHtml(item.title)}</div>
+    <div class="meta">${escapeHtml(new Date(item.timestamp).toLocaleString())}${item.model ? ` · ${escapeHtml(item.model)}` : ''}</div>
+    ${item.prompt ? `<div class="prompt">${escapeHtml(item.prompt)}</div>` : ''}
+    ${item.modifiers.length ? `<div class="tags">${item.modifiers.map(m => `<span class="tag">${escapeHtml(m)}</span>`).join('')}</div>` : ''}
+    ${item.styleContext ? `<details><summary>Style context</summary><pre>${escapeHtml(item.styleContext)}</pre></details>` : ''}
+    ${item.executedPrompt ? `<details><summary>Executed prompt</summary><pre>${escapeHtml(item.executedPrompt)}</pre></details>` : ''}
+  </div>
+</article>`;
+};
+
+const buildGalleryHtml = (entries: GalleryEntry[], title: string, hasContactSheet: boolean): string => {
+    const modifiers = [...new Set(entries.flatMap(e => e.item.modifiers))].sort((a, b) => a.localeCompare(b));
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${GALLERY_STYLE}</style>
+</head>
+<body>
+<header>
+  <h1>${escapeHtml(title)}</h1>
+  <input id="search" type="search" placeholder="Search titles, prompts, styles…">
+  <select id="modifier">
+    <option value="">All styles</option>
+    ${modifiers.map(m => `<option value="${escapeHtml(m)}">${escapeHtml(m)}</option>`).join('\n    ')}
+  </select>
+  <span id="count"></span>
+  ${hasContactSheet ? `<a href="${CONTACT_SHEET_FILE}" target="_blank">Contact sheet</a>` : ''}
+</header>
+<main>
+${entries.map(renderCard).join('\n')}
+</main>
+<script>${GALLERY_SCRIPT}</script>
+</body>
+</html>
+`;
+};
+
+/** Zips index.html, the full-size images and a contact sheet for the given history items. */
+export async function buildGalleryArchive(items: GeneratedItem[], title: string = 'Nano Banana Gallery'): Promise<Blob> {
+    const zip = new JSZip();
+    const folder = zip.folder(ROOT)!;
+    const entries: GalleryEntry[] = [];
+
+    for (const item of items) {
+        try {
+            const imagePath = `images/${historyFileStem(item)}.png`;
+            folder.file(imagePath, await exportGeneratedPng(item));
+            entries.push({ item, imagePath, thumbnailUrl: await renderThumbnail(item.imageUrl) });
+        } catch (e) {
+            console.error("Failed to add image to gallery", e);
+        }
+    }
+
+    // The gallery is still worth having when the sheet can't be drawn (too many images for one canvas)
+    let hasContactSheet = false;
+    if (entries.length > 0) {
+        try {
+            const sheet = await renderContactSheet(
+                entries.map(({ item }) => ({
+                    imageUrl: item.imageUrl,
+                    caption: item.title,
+                    detail: [new Date(item.timestamp).toLocaleDateString(), item.modifiers.slice(0, 3).join(', ')].filter(Boolean).join(' · '),
+                })),
+                { title: `${title} · ${new Date().toLocaleDateString()}` }
+            );
+            folder.file(CONTACT_SHEET_FILE, sheet.split(',')[1], { base64: true });
+            hasContactSheet = true;
+        } catch (e) {
+            console.warn("Leaving the contact sheet out of the gallery", e);
+        }
+    }
+    folder.file('index.html', buildGalleryHtml(entries, title, hasContactSheet));
+    return zip.generateAsync({ type: 'blob' });
+}
@@ -1,214 +1,214 @@
-
-import { GoogleGenAI, Type, Modality } from "@google/genai";
-import { AnalysisResult, StyleExtractionResult } from '../types';
-
-let ai: GoogleGenAI;
-
-const getAi = () => {
-    if (!ai) {
-        if (!process.env.API_KEY) {
-            throw new Error("API_KEY environment variable not set");
+import {
+    AIProvider, AnalysisResult, CacheableRequestOptions, CachedResult, ImageEditOptions, ImageEditResult, ProviderId, ProviderSettings, RequestOptions,
+    StyleExtractionResult, TokenUsage, UsageOperation, ValidatedResult
+} from '../types';
+import { geminiProvider } from './providers/geminiProvider';
+import { createOpenAiCompatibleProvider } from './providers/openAiCompatibleProvider';
+import { mockProvider } from './providers/mockProvider';
+import { ServiceError, toServiceError, withRetry, withTimeout } from './serviceErrors';
+import { ValidationReport, validateAnalysis, validateExtraction } from './responseValidation';
+import { buildRepairPrompt } from './providers/prompts';
+import { assertWithinBudget, recordUsage } from './usageService';
+import { analysisCacheKey, distillCacheKey, readCache, writeCache } from './resultCache';
+
+// Entry point for every AI call in the app. The functions below keep their original
+// Gemini-era names but dispatch to whichever provider is selected in the settings.
+// Failures surface as ServiceError (see serviceErrors.ts); transient ones are retried here,
+// and every attempt is bounded by the configured timeout and the caller's abort signal.
+// Structured (JSON) responses are validated here too, with a bounded repair re-request,
+// and every response's token usage is logged (see usageService.ts). Validated structured
+// results are cached by content hash (see resultCache.ts); a cache hit costs nothing.
+
+const SETTINGS_KEY = 'art-style-scanner:provider-settings';
+
+export const PROVIDER_OPTIONS: { id: ProviderId; label: string; description: string }[] = [
+    { id: 'gemini', label: 'Google Gemini', description: 'gemini-2.5-flash + gemini-2.5-flash-image. Needs GEMINI_API_KEY.' },
+    { id: 'openai-compatible', label: 'OpenAI-compatible', description: 'Any /v1/chat/completions server: OpenAI, Ollama, LM Studio.' },
+    { id: 'mock', label: 'Mock (offline)', description: 'Deterministic fake results. No network or key required.' },
+];
+
+const defaultSettings = (): ProviderSettings => ({
+    // Without a key the app would only produce errors, so fall back to the demo provider
+    providerId: process.env.API_KEY ? 'gemini' : 'mock',
+    openAiBaseUrl: 'http://localhost:11434/v1',
+    openAiApiKey: '',
+    openAiVisionModel: 'llava',
+    openAiTextModel: 'llama3.1',
+    openAiImageModel: '',
+    requestTimeoutSeconds: 120,
+});
+
+let settings: ProviderSettings | null = null;
+
+export const getProviderSettings = (): ProviderSettings => {
+    if (!settings) {
+        settings = defaultSettings();
+        try {
+            const stored = localStorage.getItem(SETTINGS_KEY);
+            if (stored) {
+                settings = { ...settings, ...JSON.parse(stored) };
+            }
+        } catch (e) {
+            console.error("Failed to read provider settings", e);
         }
-        ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
     }
-    return ai;
+    return settings!;
 };
 
-const responseSchema = {
-  type: Type.OBJECT,
-  properties: {
-    style: { type: Type.STRING, description: 'The primary artistic style or movement (e.g., Impressionism, Surrealism).' },
-    artist: { type: Type.STRING, description: 'The likely artist or a style descriptor (e.g., "in the style of Vincent van Gogh").' },
-    techniques: {
-      type: Type.ARRAY,
-      items: { type: Type.STRING },
-      description: 'A list of key artistic techniques used (e.g., "Impasto", "Bold Brushstrokes").'
-    },
-    colorPalette: {
-      type: Type.ARRAY,
-      items: { type: Type.STRING },
-      description: 'A list of descriptive keywords for the color palette (e.g., "Vibrant Yellows", "Deep Blues").'
-    },
-    composition: {
-      type: Type.ARRAY,
-      items: { type: Type.STRING },
-      description: 'A list of keywords describing the composition (e.g., "Dynamic lines", "Asymmetrical balance").'
-    },
-    mood: { type: Type.STRING, description: 'The overall mood or feeling conveyed by the style (e.g., "Emotional and Dynamic", "Calm and Serene").' },
-    creativePrompt: { 
-        type: Type.STRING, 
-        description: 'A highly detailed, evocative, and artistic text prompt that describes the subject matter, style, lighting, and atmosphere combined. This prompt should be suitable for generating a similar image in an AI model.' 
+export const saveProviderSettings = (next: ProviderSettings) => {
+    settings = next;
+    try {
+        localStorage.setItem(SETTINGS_KEY, JSON.stringify(next));
+    } catch (e) {
+        console.error("Failed to save provider settings", e);
     }
-  },
-  required: ['style', 'artist', 'techniques', 'colorPalette', 'composition', 'mood', 'creativePrompt']
 };
 
-const getSystemInstruction = (intensity: number) => {
-    let instruction = `You are an expert AI art curator and prompt engineer. Your task is to analyze the input image and "reverse engineer" a high-quality text prompt for it.
+export const getActiveProvider = (): AIProvider => {
+    const current = getProviderSettings();
+    switch (current.providerId) {
+        case 'openai-compatible':
+            return createOpenAiCompatibleProvider(current);
+        case 'mock':
+            return mockProvider;
+        case 'gemini':
+        default:
+            return geminiProvider;
+    }
+};
 
-1.  **Analyze the Visuals:** Identify the art style, medium (oil, digital, photo, etc.), artist influence, color palette, and lighting.
-2.  **Describe the Subject:** Describe the subject matter with artistic flair.
-3.  **Synthesize (The Creative Prompt):** Combine the subject description and the style analysis into a single, flowing, evocative paragraph.`;
+// Runs one provider call with retries, giving each attempt its own timeout and usage record.
+// images counts every image the call sends, for backends that bill per image
+const runRequest = <T>(
+    operation: UsageOperation,
+    images: number,
+    options: RequestOptions | undefined,
+    call: (attempt: RequestOptions) => Promise<T>
+): Promise<T> => {
+    assertWithinBudget();
+    const { providerId, requestTimeoutSeconds } = getProviderSettings();
+    const timeoutMs = Math.max(5, requestTimeoutSeconds || 120) * 1000;
+    return withRetry(async () => {
+        const attempt = withTimeout(options?.signal, timeoutMs);
+        const started = Date.now();
+        const onUsage = (usage: TokenUsage) => {
+            options?.onUsage?.(usage);
+            recordUsage({
+                timestamp: Date.now(),
+                operation,
+                provider: providerId,
+                model: usage.model,
+                inputTokens: usage.inputTokens,
+                outputTokens: usage.outputTokens,
+                images,
+                latencyMs: Date.now() - started,
+            });
+        };
+        try {
+            return await call({ signal: attempt.signal, onUsage });
+        } finally {
+            attempt.clear();
+        }
+    }, { signal: options?.signal });
+};
 
-    // LEVEL 1: Enhanced Standard (Beefed Up)
-    if (intensity === 1) {
-        instruction += `\n\n**Level 1 (Deep Atmosphere):** Do not be robotic. Focus heavily on the *atmosphere* and *lighting techniques*. Use descriptive adjectives (e.g., "glinting", "diffused", "vibrant", "melancholic", "stark"). Describe the lighting in detail (e.g., "backlit", "softbox", "natural light").`;
-    }
-    // LEVEL 2: Creative Flourish
-    else if (intensity === 2) {
-        instruction += `\n\n**Level 2 (Creative Embellishment):** Embellish the description with creative flourishes. Describe movement, flow, and exaggerated forms that might not be strictly literal but capture the *feeling* (e.g., 'tendrils extending to the sky', 'hair shining like raven feathers', 'eyes glowing with ancient wisdom'). Make it dramatic, poetic, and interpretative.`;
-    }
-    // LEVEL 3: SOTA & Artist Inference
-    else if (intensity >= 3) {
-        instruction += `\n\n**Level 3 (SOTA & Artist Inference):** Take it to the extreme.
-        - **Technical Specs:** You MUST invent plausible high-end technical details: Camera lenses (e.g., '85mm f/1.8', 'macro'), rendering engines (e.g., 'Octane Render', 'Unreal Engine 5'), and advanced lighting terms (e.g., 'subsurface scattering', 'chromatic aberration', 'volumetric fog', 'ray tracing').
-        - **Artist Inference:** You **MUST** detect and explicitly name the specific artist style best suited for this subject based on the image inflection. (e.g., If biomechanical, use "in the style of HR Giger"; if surrealist, use "Salvador Dali"; if baroque light, use "Rembrandt"). 
-        - **Hyper-Detail:** The prompt should be dense, sophisticated, and suitable for a top-tier generative AI model.`;
+// How many times an unusable structured response is sent back to the model for repair
+const MAX_REPAIR_ATTEMPTS = 1;
+
+const requestValidated = async <T>(
+    call: (repairHint?: string) => Promise<unknown>,
+    validate: (raw: unknown) => ValidationReport<T>
+): Promise<ValidatedResult<T>> => {
+    const issues: string[] = [];
+    for (let attempt = 0; ; attempt++) {
+        const repairHint = attempt > 0 ? buildRepairPrompt(issues) : undefined;
+        let report: ValidationReport<T>;
+        try {
+            report = validate(await call(repairHint));
+        } catch (e) {
+            // Unparseable JSON is worth a repair attempt; every other failure is final
+            const error = toServiceError(e);
+            if (error.kind !== 'malformed-response') throw error;
+            report = { value: null, issues: [error.message] };
+        }
+        issues.splice(0, issues.length, ...report.issues);
+        if (report.value) {
+            return { result: report.value, issues: attempt > 0 ? ["Repaired after a re-request.", ...issues] : issues };
+        }
+        if (attempt >= MAX_REPAIR_ATTEMPTS) {
+            throw new ServiceError('malformed-response', `The model's response failed validation: ${issues.join(' ')}`, undefined, issues);
+        }
+        console.warn("Unusable model response, asking for a repair", issues);
     }
-
-    instruction += `\n\nOutput the result in JSON format containing both the structured metadata and this creative prompt.`;
-    return instruction;
 };
 
-export async function analyzeImageStyle(base64ImageData: string, mimeType: string, intensity: number = 1): Promise<AnalysisResult> {
-    const geminiClient = getAi();
-    
-    const imagePart = {
-      inlineData: {
-        data: base64ImageData,
-        mimeType: mimeType,
-      },
-    };
-  
-    const textPart = {
-      text: "Analyze this image and generate a creative art prompt for it.",
-    };
-  
-    const response = await geminiClient.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: { parts: [imagePart, textPart] },
-        config: {
-            systemInstruction: getSystemInstruction(intensity),
-            responseMimeType: "application/json",
-            responseSchema: responseSchema,
-        },
+// Returns the cached result for the same input when there is one, unless a fresh run is asked for
+const requestCached = async <T>(
+    kind: CachedResult['kind'],
+    makeKey: () => Promise<string>,
+    options: CacheableRequestOptions | undefined,
+    request: () => Promise<ValidatedResult<T>>
+): Promise<ValidatedResult<T>> => {
+    // Hashing needs a secure context; without it the cache is simply skipped
+    const key = await makeKey().catch(e => {
+        console.warn("Could not hash the input for the result cache", e);
+        return null;
     });
-
-    const jsonText = response.text.trim();
-    try {
-        const parsedResult = JSON.parse(jsonText);
-        return parsedResult as AnalysisResult;
-    } catch (e) {
-        console.error("Failed to parse JSON response:", jsonText);
-        throw new Error("Received an invalid format from the API.");
+    if (key && !options?.fresh) {
+        const hit = await readCache<T>(key);
+        if (hit) return hit;
     }
+    const value = await request();
+    if (key) void writeCache(key, kind, value);
+    return value;
+};
+
+export async function analyzeImageStyle(
+    base64ImageData: string,
+    mimeType: string,
+    intensity: number = 1,
+    options?: CacheableRequestOptions
+): Promise<ValidatedResult<AnalysisResult>> {
+    const provider = getActiveProvider();
+    return requestCached(
+        'analysis',
+        () => analysisCacheKey(base64ImageData, provider.id, provider.visionModel, intensity),
+        options,
+        () => requestValidated(
+            repairHint => runRequest('analysis', 1, options, attempt => provider.analyzeImageStyle(base64ImageData, mimeType, intensity, { ...attempt, repairHint })),
+            validateAnalysis
+        )
+    );
 }
 
 export async function editImageWithGemini(
-    base64ImageData: string, 
-    mimeType: string, 
-    prompt: string, 
-    modifiers: string[]
-): Promise<{ imageUrl: string, executedPrompt: string }> {
-    const geminiClient = getAi();
-    
-    const modifierString = modifiers.length > 0 
-        ? `Apply the following artistic styles and techniques: ${modifiers.join(', ')}.` 
-        : '';
-    
-    const fullPrompt = `${prompt}. ${modifierString} Maintain the core composition of the source image but transform it based on the description.`;
-
-    const imagePart = {
-        inlineData: {
-            data: base64ImageData,
-            mimeType: mimeType,
-        },
-    };
-
-    const textPart = {
-        text: fullPrompt,
-    };
-
-    const response = await geminiClient.models.generateContent({
-        model: 'gemini-2.5-flash-image', // Nano Banana / Flash Image
-        contents: {
-            parts: [imagePart, textPart]
-        },
-        config: {
-            responseModalities: [Modality.IMAGE],
-        },
-    });
-
-    const part = response.candidates?.[0]?.content?.parts?.[0];
-    if (part && part.inlineData) {
-        const base64ImageBytes: string = part.inlineData.data;
-        return {
-            imageUrl: `data:image/png;base64,${base64ImageBytes}`,
-            executedPrompt: fullPrompt
-        };
-    }
-    
-    throw new Error("No image generated.");
+    base64ImageData: string,
+    mimeType: string,
+    prompt: string,
+    modifiers: string[],
+    options?: ImageEditOptions
+): Promise<ImageEditResult> {
+    const provider = getActiveProvider();
+    // The source, plus the mask and reference slots when present
+    const images = 1 + (options?.mask ? 1 : 0) + (options?.references?.length ?? 0);
+    const result = await runRequest('render', images, options, attempt => provider.editImage(base64ImageData, mimeType, prompt, modifiers, { ...options, ...attempt }));
+    return { ...result, model: result.model ?? provider.imageModel };
 }
 
-export async function generateCreativeTitle(prompt: string, modifiers: string[]): Promise<string> {
-    const geminiClient = getAi();
-    const input = `Prompt: ${prompt}, Styles: ${modifiers.join(', ')}`;
-    
-    const response = await geminiClient.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: `Generate a short, punchy, creative title (maximum 5 words) for an artwork created with this description: "${input}". Return ONLY the title, no quotes.`,
-    });
-    
-    return response.text?.trim() || "Untitled Masterpiece";
+export async function generateCreativeTitle(prompt: string, modifiers: string[], options?: RequestOptions): Promise<string> {
+    const provider = getActiveProvider();
+    return runRequest('title', 0, options, attempt => provider.generateCreativeTitle(prompt, modifiers, attempt));
 }
 
-// --- NEW FUNCTION: Style Extraction ---
-
-const extractionSchema = {
-    type: Type.OBJECT,
-    properties: {
-        lighting: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Lighting keywords (e.g., "volumetric", "chiaroscuro").' },
-        medium: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Art medium (e.g., "oil on canvas", "digital 3D render").' },
-        textures: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Surface qualities (e.g., "matte", "glossy", "grunge").' },
-        techniques: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Rendering techniques (e.g., "impasto", "ray tracing").' },
-        vibe: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Atmospheric or aesthetic descriptors (e.g., "uncanny valley", "ethereal").' }
-    },
-    required: ['lighting', 'medium', 'textures', 'techniques', 'vibe']
-};
-
-export async function extractStylesFromText(promptText: string): Promise<StyleExtractionResult> {
-    const geminiClient = getAi();
-
-    const extractionSystemInstruction = `
-    You are a Style Distiller. Your job is to extract pure stylistic and technical keywords from a long, complex art prompt.
-    
-    CRITICAL RULES:
-    1. **IGNORE SUBJECTS:** Do not extract words describing WHO or WHAT is in the image (e.g., ignore "woman", "cyborg", "cat", "city", "forest").
-    2. **IGNORE COMPOSITION:** Do not extract words describing framing or angles (e.g., ignore "wide shot", "portrait").
-    3. **EXTRACT ONLY:** 
-       - Lighting (e.g., volumetric, rim light, subsurface scattering)
-       - Medium (e.g., oil paint, unreal engine 5, polaroid)
-       - Textures (e.g., grunge, chrome, fluffy)
-       - Techniques/Styles (e.g., cyberpunk, impressionist, ray tracing, uncanny valley)
-    4. **Goal:** Create a list of tags that could be applied to a DIFFERENT subject to give it the same "look and feel".
-    `;
-
-    const response = await geminiClient.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: `Extract the style DNA from this prompt: "${promptText}"`,
-        config: {
-            systemInstruction: extractionSystemInstruction,
-            responseMimeType: "application/json",
-            responseSchema: extractionSchema,
-        },
-    });
-
-    const jsonText = response.text.trim();
-    try {
-        return JSON.parse(jsonText) as StyleExtractionResult;
-    } catch (e) {
-        console.error("Failed to parse extraction JSON:", jsonText);
-        return { lighting: [], medium: [], textures: [], techniques: [], vibe: [] };
-    }
+export async function extractStylesFromText(promptText: string, options?: CacheableRequestOptions): Promise<ValidatedResult<StyleExtractionResult>> {
+    const provider = getActiveProvider();
+    return requestCached(
+        'distill',
+        () => distillCacheKey(promptText, provider.id, provider.textModel),
+        options,
+        () => requestValidated(
+            repairHint => runRequest('distill', 0, options, attempt => provider.extractStylesFromText(promptText, { ...attempt, repairHint })),
+            validateExtraction
+        )
+    );
 }
@@ -0,0 +1,234 @@
+// Renders image grids onto a single canvas: the labelled X/Y matrix output and history contact sheets.
+
+export interface GridCell {
+    x: number;
+    y: number;
+    imageUrl?: string; // Missing for cells that failed; they render as an empty tile
+}
+
+export interface GridImageOptions {
+    xLabels: string[];
+    yLabels: string[]; // A single empty label means there is no Y axis
+    xTitle?: string;
+    yTitle?: string;
+    cellSize?: number;
+}
+
+const BACKGROUND = '#0b0c15';
+const TILE = '#1a1c29';
+const TEXT = '#e5e7eb';
+const MUTED = '#6b7280';
+const GAP = 8;
+
+const loadImage = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Failed to decode grid cell."));
+    img.src = src;
+});
+
+// Greedy word wrap, capped at maxLines with an ellipsis
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number, maxLines: number): string[] => {
+    const lines: string[] = [];
+    let line = '';
+    for (const word of text.split(/\s+/).filter(Boolean)) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (ctx.measureText(candidate).width <= maxWidth || !line) {
+            line = candidate;
+        } else {
+            lines.push(line);
+            line = word;
+        }
+    }
+    if (line) lines.push(line);
+    if (lines.length > maxLines) {
+        lines.length = maxLines;
+        lines[maxLines - 1] = `${lines[maxLines - 1].replace(/.{0,2}$/, '')}…`;
+    }
+    return lines;
+};
+
+const drawCentered = (ctx: CanvasRenderingContext2D, lines: string[], cx: number, cy: number, lineHeight: number) => {
+    const top = cy - ((lines.length - 1) * lineHeight) / 2;
+    lines.forEach((line, i) => ctx.fillText(line, cx, top + i * lineHeight));
+};
+
+/** Draws the cells into a grid with column labels on top and row labels on the left; returns a PNG data URL. */
+export async function renderLabelledGrid(cells: GridCell[], options: GridImageOptions): Promise<string> {
+    const { xLabels, yLabels, xTitle, yTitle, cellSize = 384 } = options;
+    const hasRows = yLabels.length > 1 || !!yLabels[0];
+    const fontSize = Math.max(12, Math.round(cellSize / 20));
+    const lineHeight = Math.round(fontSize * 1.25);
+    const headerHeight = lineHeight * 3 + GAP * 2 + (xTitle ? lineHeight : 0);
+    const sideWidth = hasRows ? Math.round(cellSize * 0.5) + (yTitle ? lineHeight : 0) : 0;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = sideWidth + xLabels.length * (cellSize + GAP) + GAP;
+    canvas.height = headerHeight + yLabels.length * (cellSize + GAP) + GAP;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Canvas is not available.");
+
+    ctx.fillStyle = BACKGROUND;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+
+    const cellLeft = (x: number) => sideWidth + GAP + x * (cellSize + GAP);
+    const cellTop = (y: number) => headerHeight + y * (cellSize + GAP);
+
+    if (xTitle) {
+        ctx.fillStyle = MUTED;
+        ctx.font = `bold ${fontSize}px sans-serif`;
+        ctx.fillText(xTitle, sideWidth + (canvas.width - sideWidth) / 2, GAP + lineHeight / 2);
+    }
+    ctx.fillStyle = TEXT;
+    ctx.font = `${fontSize}px sans-serif`;
+    const labelBandTop = GAP + (xTitle ? lineHeight : 0);
+    xLabels.forEach((label, x) => {
+        const lines = wrapText(ctx, label, cellSize - GAP * 2, 3);
+        drawCentered(ctx, lines, cellLeft(x) + cellSize / 2, labelBandTop + (headerHeight - labelBandTop) / 2, lineHeight);
+    });
+
+    if (hasRows) {
+        if (yTitle) {
+            ctx.save();
+            ctx.fillStyle = MUTED;
+            ctx.font = `bold ${fontSize}px sans-serif`;
+            ctx.translate(GAP + lineHeight / 2, headerHeight + (canvas.height - headerHeight) / 2);
+            ctx.rotate(-Math.PI / 2);
+            ctx.fillText(yTitle, 0, 0);
+            ctx.restore();
+        }
+        const labelLeft = yTitle ? lineHeight + GAP : GAP;
+        yLabels.forEach((label, y) => {
+            const lines = wrapText(ctx, label, sideWidth - labelLeft - GAP, 6);
+            drawCentered(ctx, lines, labelLeft + (sideWidth - labelLeft) / 2, cellTop(y) + cellSize / 2, lineHeight);
+        });
+    }
+
+    for (const cell of cells) {
+        const left = cellLeft(cell.x);
+        const top = cellTop(cell.y);
+        ctx.fillStyle = TILE;
+        ctx.fillRect(left, top, cellSize, cellSize);
+        if (!cell.imageUrl) {
+            ctx.fillStyle = MUTED;
+            ctx.fillText('failed', left + cellSize / 2, top + cellSize / 2);
+            continue;
+        }
+        // Contain-fit so nothing is cropped out of the comparison
+        const img = await loadImage(cell.imageUrl);
+        const scale = Math.min(cellSize / img.naturalWidth, cellSize / img.naturalHeight);
+        const w = img.naturalWidth * scale;
+        const h = img.naturalHeight * scale;
+        ctx.drawImage(img, left + (cellSize - w) / 2, top + (cellSize - h) / 2, w, h);
+    }
+
+    return canvas.toDataURL('image/png');
+}
+
+// --- Contact sheet ---
+
+export interface ContactSheetCell {
+    imageUrl: string;
+    caption: string;
+    detail?: string; // Second, smaller caption line (date, model, ...)
+}
+
+export interface ContactSheetOptions {
+    title?: string;
+    columns?: number; // Defaults to a roughly square sheet
+    cellSize?: number;
+}
+
+// Browsers refuse canvases much past this on a side, so big sheets get smaller tiles
+const MAX_SHEET_EDGE = 8000;
+const MIN_SHEET_CELL = 32;
+
+// Every measurement of the sheet follows from the tile size
+const sheetLayout = (cellSize: number, columns: number, rows: number, hasTitle: boolean) => {
+    const fontSize = Math.max(10, Math.round(cellSize / 22));
+    const lineHeight = Math.round(fontSize * 1.3);
+    const captionHeight = lineHeight * 3 + GAP;
+    const titleHeight = hasTitle ? lineHeight * 2 + GAP : 0;
+    const pad = GAP * 3;
+    return {
+        cellSize, fontSize, lineHeight, captionHeight, titleHeight, pad,
+        width: pad * 2 + columns * cellSize + (columns - 1) * pad,
+        height: pad * 2 + titleHeight + rows * (cellSize + captionHeight) + (rows - 1) * pad,
+    };
+};
+
+/** Tiles the images with captions on a white, print-friendly sheet; returns a PNG data URL. */
+export async function renderContactSheet(cells: ContactSheetCell[], options: ContactSheetOptions = {}): Promise<string> {
+    const columns = Math.max(1, Math.min(cells.length, options.columns ?? Math.max(4, Math.ceil(Math.sqrt(cells.length)))));
+    const rows = Math.ceil(cells.length / columns);
+    // Shrink the tiles until both sides fit; captions keep a minimum height, so tall sheets need more than the width suggests
+    let layout = sheetLayout(options.cellSize ?? 320, columns, rows, !!options.title);
+    while ((layout.width > MAX_SHEET_EDGE || layout.height > MAX_SHEET_EDGE) && layout.cellSize > MIN_SHEET_CELL) {
+        layout = sheetLayout(Math.max(MIN_SHEET_CELL, Math.floor(layout.cellSize * 0.9)), columns, rows, !!options.title);
+    }
+    if (layout.width > MAX_SHEET_EDGE || layout.height > MAX_SHEET_EDGE) {
+        throw new Error(`Too many images (${cells.length}) for one contact sheet.`);
+    }
+    const { cellSize, fontSize, lineHeight, captionHeight, titleHeight, pad } = layout;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = layout.width;
+    canvas.height = layout.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Canvas is not available.");
+
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.textBaseline = 'top';
+
+    if (options.title) {
+        ctx.fillStyle = '#111827';
+        ctx.font = `bold ${Math.round(fontSize * 1.4)}px sans-serif`;
+        ctx.fillText(options.title, pad, pad);
+    }
+
+    for (const [index, cell] of cells.entries()) {
+        const left = pad + (index % columns) * (cellSize + pad);
+        const top = pad + titleHeight + Math.floor(index / columns) * (cellSize + captionHeight + pad);
+        ctx.fillStyle = '#f3f4f6';
+        ctx.fillRect(left, top, cellSize, cellSize);
+        try {
+            const img = await loadImage(cell.imageUrl);
+            const scale = Math.min(cellSize / img.naturalWidth, cellSize / img.naturalHeight);
+            const w = img.naturalWidth * scale;
+            const h = img.naturalHeight * scale;
+            ctx.drawImage(img, left + (cellSize - w) / 2, top + (cellSize - h) / 2, w, h);
+        } catch (e) {
+            console.warn("Skipping an image on the contact sheet", e);
+        }
+
+        ctx.fillStyle = '#111827';
+        ctx.font = `bold ${fontSize}px sans-serif`;
+        wrapText(ctx, cell.caption, cellSize, 2).forEach((line, i) => ctx.fillText(line, left, top + cellSize + GAP / 2 + i * lineHeight));
+        if (cell.detail) {
+            ctx.fillStyle = MUTED;
+            ctx.font = `${Math.round(fontSize * 0.85)}px sans-serif`;
+            ctx.fillText(wrapText(ctx, cell.detail, cellSize, 1)[0] ?? '', left, top + cellSize + GAP / 2 + lineHeight * 2);
+        }
+    }
+
+    // A canvas the browser couldn't allocate encodes as an empty "data:," URL
+    const dataUrl = canvas.toDataURL('image/png');
+    if (!dataUrl.split(',')[1]) throw new Error("The contact sheet was too large to encode.");
+    return dataUrl;
+}
+
+/** Downscales an image to fit maxEdge and re-encodes it as JPEG; returns a data URL. */
+export async function renderThumbnail(imageUrl: string, maxEdge: number = 480, quality: number = 0.8): Promise<string> {
+    const img = await loadImage(imageUrl);
+    const scale = Math.min(1, maxEdge / Math.max(img.naturalWidth, img.naturalHeight));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+    canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Canvas is not available.");
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/jpeg', quality);
+}
@@ -0,0 +1,178 @@
+import JSZip from 'jszip';
+import { GeneratedItem, SerializationFormat } from '../types';
+import { FORMAT_EXTENSIONS, formatHistoryLog } from './exportFormats';
+import { exportGeneratedPng } from './pngProvenance';
+import { provenanceFromMetadata, readImageMetadata } from './imageMetadata';
+
+// History "Save All" archives and their re-import. Archives written since manifest.json was
+// added round-trip exactly; older ones (images plus per-item logs) are rebuilt best-effort
+// from the PNG provenance chunks, the logs and the file names.
+
+const ROOT = 'nano-banana-logs';
+const MANIFEST_FILE = 'manifest.json';
+const MANIFEST_VERSION = 1;
+
+interface ArchiveManifest {
+    version: number;
+    exportedAt: string;
+    // Full records; imageUrl is a path inside the archive unless the image could not be written
+    items: GeneratedItem[];
+}
+
+export interface ArchiveImport {
+    items: GeneratedItem[];
+    skipped: number; // Entries that could not be turned into a history item
+    fromManifest: boolean;
+}
+
+export const historyFileStem = (item: GeneratedItem) => `${item.title.replace(/\s+/g, '_')}_${item.id}`;
+
+export async function buildHistoryArchive(items: GeneratedItem[], logFormat: SerializationFormat): Promise<Blob> {
+    const zip = new JSZip();
+    const folder = zip.folder(ROOT)!;
+    const manifest: ArchiveManifest = { version: MANIFEST_VERSION, exportedAt: new Date().toISOString(), items: [] };
+
+    for (const item of items) {
+        folder.file(`logs/${historyFileStem(item)}.${FORMAT_EXTENSIONS[logFormat]}`, formatHistoryLog(item, logFormat));
+
+        // The image, with its prompt provenance embedded
+        const imagePath = `images/${historyFileStem(item)}.png`;
+        try {
+            folder.file(imagePath, await exportGeneratedPng(item));
+            manifest.items.push({ ...item, imageUrl: imagePath });
+        } catch (e) {
+            console.error("Failed to add image to zip", e);
+            manifest.items.push(item);
+        }
+    }
+
+    folder.file(MANIFEST_FILE, JSON.stringify(manifest, null, 2));
+    return zip.generateAsync({ type: 'blob' });
+}
+
+// --- Import ---
+
+const isGeneratedItem = (value: unknown): value is GeneratedItem => {
+    const v = value as Partial<GeneratedItem> | null;
+    return !!v && typeof v.id === 'string' && typeof v.imageUrl === 'string' && typeof v.title === 'string'
+        && typeof v.prompt === 'string' && Array.isArray(v.modifiers) && typeof v.timestamp === 'number';
+};
+
+// Archives may be re-zipped by hand, so find our root folder wherever it ended up
+const findRoot = (zip: JSZip): string => {
+    const manifestPath = Object.keys(zip.files).find(path => path === MANIFEST_FILE || path.endsWith(`/${MANIFEST_FILE}`));
+    if (manifestPath) return manifestPath.slice(0, -MANIFEST_FILE.length);
+    const imagePath = Object.keys(zip.files).find(path => /(^|\/)images\/[^/]+\.png$/i.test(path));
+    return imagePath ? imagePath.slice(0, imagePath.search(/images\/[^/]+$/i)) : '';
+};
+
+const readPngDataUrl = async (zip: JSZip, path: string): Promise<string | null> => {
+    const file = zip.file(path);
+    return file ? `data:image/png;base64,${await file.async('base64')}` : null;
+};
+
+async function importFromManifest(zip: JSZip, root: string, manifestText: string): Promise<ArchiveImport> {
+    const manifest = JSON.parse(manifestText) as Partial<ArchiveManifest>;
+    const items: GeneratedItem[] = [];
+    let skipped = 0;
+    for (const entry of Array.isArray(manifest.items) ? manifest.items : []) {
+        if (!isGeneratedItem(entry)) {
+            skipped++;
+            continue;
+        }
+        const imageUrl = entry.imageUrl.startsWith('data:') ? entry.imageUrl : await readPngDataUrl(zip, root + entry.imageUrl);
+        if (!imageUrl) {
+            skipped++;
+            continue;
+        }
+        items.push({ ...entry, imageUrl });
+    }
+    return { items, skipped, fromManifest: true };
+}
+
+// Reads the plain-text log layout written by formatHistoryLog('txt')
+const parseTxtLog = (text: string): Partial<GeneratedItem> => {
+    const section = (heading: string) => {
+        const match = text.match(new RegExp(`(?:^|\\n)${heading}:\\n([\\s\\S]*?)(?=\\n\\n(?:Styles|Original Style Context):|$)`));
+        return match ? match[1].trim() : undefined;
+    };
+    const styles = section('Styles');
+    return {
+        title: text.split('\n')[0]?.trim() || undefined,
+        prompt: section('Prompt'),
+        modifiers: styles && styles !== 'None' ? styles.split(',').map(s => s.trim()).filter(Boolean) : undefined,
+        styleContext: section('Original Style Context') || undefined,
+    };
+};
+
+const parseJsonLog = (text: string): Partial<GeneratedItem> => {
+    const record = JSON.parse(text);
+    const created = Date.parse(record.created);
+    return {
+        title: typeof record.title === 'string' ? record.title : undefined,
+        prompt: typeof record.prompt === 'string' ? record.prompt : undefined,
+        modifiers: Array.isArray(record.modifiers) ? record.modifiers.map(String) : undefined,
+        styleContext: record.style_context || undefined,
+        ...(Number.isNaN(created) ? {} : { timestamp: created }),
+    };
+};
+
+const parseLog = (path: string, text: string): Partial<GeneratedItem> => {
+    try {
+        if (path.endsWith('.json')) return parseJsonLog(text);
+        if (path.endsWith('.txt')) return parseTxtLog(text);
+    } catch (e) {
+        console.warn(`Could not parse ${path}`, e);
+    }
+    return {};
+};
+
+// Drops undefined fields so they don't overwrite what an earlier source already found
+const defined = (fields: Partial<GeneratedItem> | null): Partial<GeneratedItem> =>
+    Object.fromEntries(Object.entries(fields ?? {}).filter(([, value]) => value !== undefined));
+
+const baseName = (path: string) => path.slice(path.lastIndexOf('/') + 1).replace(/\.[^.]+$/, '');
+
+async function importLegacy(zip: JSZip, root: string): Promise<ArchiveImport> {
+    const paths = Object.keys(zip.files).filter(path => path.startsWith(root) && !zip.files[path].dir);
+    const images = paths.filter(path => /images\/[^/]+\.png$/i.test(path));
+    const logs = paths.filter(path => /logs\/[^/]+$/i.test(path));
+    const items: GeneratedItem[] = [];
+    let skipped = logs.filter(log => !images.some(image => baseName(image) === baseName(log))).length;
+
+    for (const imagePath of images) {
+        const stem = baseName(imagePath);
+        const separator = stem.lastIndexOf('_');
+        const id = separator >= 0 ? stem.slice(separator + 1) : stem;
+        try {
+            const bytes = await zip.file(imagePath)!.async('uint8array');
+            const logPath = logs.find(log => baseName(log) === stem);
+            const fromLog = logPath ? parseLog(logPath, await zip.file(logPath)!.async('string')) : {};
+            const fromPng = provenanceFromMetadata(await readImageMetadata(bytes));
+            const numericId = Number(id.split('-')[0]);
+            items.push({
+                id,
+                title: separator >= 0 ? stem.slice(0, separator).replace(/_/g, ' ') : stem,
+                prompt: '',
+                modifiers: [],
+                timestamp: Number.isFinite(numericId) && numericId > 0 ? numericId : Date.now(),
+                ...defined(fromLog),
+                // The PNG chunks carry everything the logs do and more, so they win
+                ...defined(fromPng),
+                imageUrl: `data:image/png;base64,${await zip.file(imagePath)!.async('base64')}`,
+            });
+        } catch (e) {
+            console.warn(`Could not import ${imagePath}`, e);
+            skipped++;
+        }
+    }
+    return { items, skipped, fromManifest: false };
+}
+
+/** Reads a history archive written by buildHistoryArchive, or by versions that predate the manifest. */
+export async function readHistoryArchive(file: Blob): Promise<ArchiveImport> {
+    const zip = await JSZip.loadAsync(file);
+    const root = findRoot(zip);
+    const manifest = zip.file(root + MANIFEST_FILE);
+    return manifest ? importFromManifest(zip, root, await manifest.async('string')) : importLegacy(zip, root);
+}
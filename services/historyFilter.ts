@@ -0,0 +1,84 @@
+import { GeneratedItem } from '../types';
+
+// Search, filtering and sorting for the history grid. Kept free of React so the same
+// subset can drive both the grid and the exports.
+
+export type HistorySort = 'newest' | 'oldest' | 'title' | 'rating' | 'favorites';
+
+export interface HistoryFilter {
+    query: string; // Whitespace-separated terms; every term must match
+    modifier: string; // '' for any
+    tag: string; // '' for any
+    from: string; // yyyy-mm-dd from a date input, '' for open-ended
+    to: string;
+    favoritesOnly: boolean;
+    minRating: number; // 0 for any
+    sort: HistorySort;
+}
+
+export const EMPTY_HISTORY_FILTER: HistoryFilter = {
+    query: '',
+    modifier: '',
+    tag: '',
+    from: '',
+    to: '',
+    favoritesOnly: false,
+    minRating: 0,
+    sort: 'newest',
+};
+
+export const HISTORY_SORT_LABELS: Record<HistorySort, string> = {
+    newest: 'Newest',
+    oldest: 'Oldest',
+    title: 'Title',
+    rating: 'Rating',
+    favorites: 'Favorites first',
+};
+
+/** True when the filter hides anything; sorting alone doesn't count. */
+export const isFilterActive = (filter: HistoryFilter) =>
+    !!(filter.query.trim() || filter.modifier || filter.tag || filter.from || filter.to || filter.favoritesOnly || filter.minRating);
+
+export const normalizeTag = (text: string) => text.trim().toLowerCase().replace(/\s+/g, '-');
+
+const uniqueSorted = (values: string[]) => [...new Set(values)].sort((a, b) => a.localeCompare(b));
+
+export const collectModifiers = (items: GeneratedItem[]) => uniqueSorted(items.flatMap(item => item.modifiers));
+
+export const collectTags = (items: GeneratedItem[]) => uniqueSorted(items.flatMap(item => item.tags ?? []));
+
+const searchText = (item: GeneratedItem) =>
+    [item.title, item.prompt, ...item.modifiers, ...(item.tags ?? [])].join('\n').toLowerCase();
+
+// Date inputs give local calendar days; the range includes the whole of the end day
+const dayStart = (day: string) => new Date(`${day}T00:00:00`).getTime();
+const dayEnd = (day: string) => new Date(`${day}T23:59:59.999`).getTime();
+
+const byNewest = (a: GeneratedItem, b: GeneratedItem) => b.timestamp - a.timestamp;
+
+const COMPARATORS: Record<HistorySort, (a: GeneratedItem, b: GeneratedItem) => number> = {
+    newest: byNewest,
+    oldest: (a, b) => a.timestamp - b.timestamp,
+    title: (a, b) => a.title.localeCompare(b.title) || byNewest(a, b),
+    rating: (a, b) => (b.rating ?? 0) - (a.rating ?? 0) || byNewest(a, b),
+    favorites: (a, b) => Number(!!b.favorite) - Number(!!a.favorite) || byNewest(a, b),
+};
+
+export function filterHistory(items: GeneratedItem[], filter: HistoryFilter): GeneratedItem[] {
+    const terms = filter.query.toLowerCase().split(/\s+/).filter(Boolean);
+    const from = filter.from ? dayStart(filter.from) : -Infinity;
+    const to = filter.to ? dayEnd(filter.to) : Infinity;
+
+    return items
+        .filter(item => {
+            if (filter.favoritesOnly && !item.favorite) return false;
+            if (filter.minRating && (item.rating ?? 0) < filter.minRating) return false;
+            if (filter.modifier && !item.modifiers.includes(filter.modifier)) return false;
+            if (filter.tag && !(item.tags ?? []).includes(filter.tag)) return false;
+            if (item.timestamp < from || item.timestamp > to) return false;
+            if (terms.length === 0) return true;
+            const text = searchText(item);
+            return terms.every(term => text.includes(term));
+        })
+        .sort(COMPARATORS[filter.sort]);
+}
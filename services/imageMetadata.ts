@@ -0,0 +1,388 @@
+import { EmbeddedMetadata, GeneratedItem } from '../types';
+
+// Reads generation metadata that tools like Stable Diffusion WebUI (A1111) and ComfyUI embed
+// in their output files: PNG tEXt/zTXt/iTXt chunks, and EXIF in JPEG/WebP. Parsing is local.
+
+// --- Byte helpers ---
+
+const latin1 = new TextDecoder('latin1');
+const utf8 = new TextDecoder('utf-8');
+
+const ascii = (bytes: Uint8Array, start: number, length: number) =>
+    String.fromCharCode(...bytes.subarray(start, start + length));
+
+const indexOfZero = (bytes: Uint8Array, from: number) => {
+    const idx = bytes.indexOf(0, from);
+    return idx < 0 ? bytes.length : idx;
+};
+
+const inflate = async (data: Uint8Array): Promise<Uint8Array> => {
+    const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+export const dataUrlToBytes = (dataUrl: string): Uint8Array => {
+    const binary = atob(dataUrl.split(',')[1] || '');
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return bytes;
+};
+
+// --- PNG ---
+
+const PNG_SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+
+export const isPng = (bytes: Uint8Array) => PNG_SIGNATURE.every((b, i) => bytes[i] === b);
+
+export interface PngChunk {
+    type: string;
+    data: Uint8Array;
+    offset: number; // Start of the chunk (its length field) within the file
+}
+
+export const readPngChunks = (bytes: Uint8Array): PngChunk[] => {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const chunks: PngChunk[] = [];
+    let offset = 8;
+    while (offset + 12 <= bytes.length) {
+        const length = view.getUint32(offset);
+        const type = ascii(bytes, offset + 4, 4);
+        chunks.push({ type, data: bytes.subarray(offset + 8, offset + 8 + length), offset });
+        offset += 12 + length;
+        if (type === 'IEND') break;
+    }
+    return chunks;
+};
+
+const readPngText = async (bytes: Uint8Array): Promise<Record<string, string>> => {
+    const raw: Record<string, string> = {};
+    for (const { type, data } of readPngChunks(bytes)) {
+        try {
+            if (type === 'tEXt') {
+                const sep = indexOfZero(data, 0);
+                raw[latin1.decode(data.subarray(0, sep))] = latin1.decode(data.subarray(sep + 1));
+            } else if (type === 'zTXt') {
+                const sep = indexOfZero(data, 0);
+                // Byte after the separator is the compression method (always 0 = zlib)
+                raw[latin1.decode(data.subarray(0, sep))] = latin1.decode(await inflate(data.subarray(sep + 2)));
+            } else if (type === 'iTXt') {
+                const keywordEnd = indexOfZero(data, 0);
+                const compressed = data[keywordEnd + 1] === 1;
+                const languageEnd = indexOfZero(data, keywordEnd + 3);
+                const translatedEnd = indexOfZero(data, languageEnd + 1);
+                const text = data.subarray(translatedEnd + 1);
+                raw[latin1.decode(data.subarray(0, keywordEnd))] = utf8.decode(compressed ? await inflate(text) : text);
+            }
+        } catch (e) {
+            console.warn(`Skipping unreadable ${type} chunk`, e);
+        }
+    }
+    return raw;
+};
+
+// --- EXIF (TIFF structure inside JPEG APP1 / WebP EXIF chunk) ---
+
+const EXIF_TAGS: Record<number, string> = {
+    0x010e: 'ImageDescription',
+    0x0131: 'Software',
+    0x9286: 'UserComment',
+    0x9c9c: 'XPComment',
+};
+// Read separately: it says nothing about how an image was generated
+const ORIENTATION_TAGS: Record<number, string> = { 0x0112: 'Orientation' };
+const EXIF_IFD_POINTER = 0x8769;
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+const decodeUtf16 = (bytes: Uint8Array, littleEndian: boolean) =>
+    new TextDecoder(littleEndian ? 'utf-16le' : 'utf-16be').decode(bytes);
+
+const decodeUserComment = (value: Uint8Array, tiffLittleEndian: boolean): string => {
+    const prefix = ascii(value, 0, 8).replace(/\0+$/, '');
+    const body = value.subarray(8);
+    if (prefix === 'UNICODE') {
+        // The spec says "use the TIFF byte order", but writers disagree; a zero high byte gives it away
+        const littleEndian = body[0] !== 0 && body[1] === 0 ? true : body[0] === 0 && body[1] !== 0 ? false : tiffLittleEndian;
+        return decodeUtf16(body, littleEndian).replace(/\0+$/, '');
+    }
+    return utf8.decode(prefix === 'ASCII' || prefix === '' ? body : value).replace(/\0+$/, '');
+};
+
+const readTiff = (bytes: Uint8Array, tags: Record<number, string> = EXIF_TAGS): Record<string, string> => {
+    const raw: Record<string, string> = {};
+    if (bytes.length < 8) return raw;
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const little = ascii(bytes, 0, 2) === 'II';
+    const visited = new Set<number>();
+
+    const readIfd = (offset: number) => {
+        if (visited.has(offset) || offset + 2 > bytes.length) return;
+        visited.add(offset);
+        const count = view.getUint16(offset, little);
+        for (let i = 0; i < count; i++) {
+            const entry = offset + 2 + i * 12;
+            if (entry + 12 > bytes.length) return;
+            const tag = view.getUint16(entry, little);
+            const type = view.getUint16(entry + 2, little);
+            const n = view.getUint32(entry + 4, little);
+            if (tag === EXIF_IFD_POINTER) {
+                readIfd(view.getUint32(entry + 8, little));
+                continue;
+            }
+            const name = tags[tag];
+            if (!name) continue;
+            const size = (TYPE_SIZES[type] || 1) * n;
+            const start = size > 4 ? view.getUint32(entry + 8, little) : entry + 8;
+            const value = bytes.subarray(start, start + size);
+            if (type === 3) raw[name] = String(view.getUint16(start, little)); // SHORT, e.g. Orientation
+            else if (tag === 0x9286) raw[name] = decodeUserComment(value, little);
+            else if (tag === 0x9c9c) raw[name] = decodeUtf16(value, true).replace(/\0+$/, ''); // XP tags are always UTF-16LE
+            else raw[name] = utf8.decode(value).replace(/\0+$/, '');
+        }
+    };
+
+    readIfd(view.getUint32(4, little));
+    return raw;
+};
+
+const stripExifHeader = (bytes: Uint8Array) => ascii(bytes, 0, 6) === 'Exif\0\0' ? bytes.subarray(6) : bytes;
+
+const readJpegExif = (bytes: Uint8Array, tags: Record<number, string> = EXIF_TAGS): Record<string, string> => {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const raw: Record<string, string> = {};
+    let offset = 2;
+    while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+        const marker = bytes[offset + 1];
+        if (marker === 0xda || marker === 0xd9) break; // Start of scan / end of image: no more metadata
+        const length = view.getUint16(offset + 2);
+        const segment = bytes.subarray(offset + 4, offset + 2 + length);
+        if (marker === 0xe1 && ascii(segment, 0, 6) === 'Exif\0\0') {
+            Object.assign(raw, readTiff(segment.subarray(6), tags));
+        } else if (marker === 0xfe) {
+            raw.Comment = utf8.decode(segment);
+        }
+        offset += 2 + length;
+    }
+    return raw;
+};
+
+const readWebpExif = (bytes: Uint8Array, tags: Record<number, string> = EXIF_TAGS): Record<string, string> => {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    let offset = 12;
+    while (offset + 8 <= bytes.length) {
+        const fourcc = ascii(bytes, offset, 4);
+        const size = view.getUint32(offset + 4, true);
+        if (fourcc === 'EXIF') {
+            return readTiff(stripExifHeader(bytes.subarray(offset + 8, offset + 8 + size)), tags);
+        }
+        offset += 8 + size + (size % 2); // Chunks are padded to even length
+    }
+    return {};
+};
+
+// --- Interpreters ---
+
+// Keywords this app writes into exported PNGs (see pngProvenance.ts). Title, Software and
+// Creation Time are registered PNG keywords; the rest are our own.
+export const PROVENANCE_KEYS = {
+    title: 'Title',
+    prompt: 'Prompt',
+    modifiers: 'Modifiers',
+    styleContext: 'Style Context',
+    executedPrompt: 'Executed Prompt',
+    model: 'Model',
+    timestamp: 'Creation Time',
+    software: 'Software',
+} as const;
+
+export const PROVENANCE_SOFTWARE = 'AI Art Style Scanner';
+
+/** Recovers the GeneratedItem fields from a PNG this app exported, or null for anything else. */
+export const provenanceFromMetadata = (metadata: EmbeddedMetadata | null): Partial<GeneratedItem> | null => {
+    if (metadata?.source !== 'provenance') return null;
+    const raw = metadata.raw;
+    let modifiers: string[] = [];
+    try {
+        const parsed = JSON.parse(raw[PROVENANCE_KEYS.modifiers] || '[]');
+        if (Array.isArray(parsed)) modifiers = parsed.map(String);
+    } catch {
+        modifiers = (raw[PROVENANCE_KEYS.modifiers] || '').split(',').map(m => m.trim()).filter(Boolean);
+    }
+    const timestamp = Date.parse(raw[PROVENANCE_KEYS.timestamp] || '');
+    return {
+        title: raw[PROVENANCE_KEYS.title],
+        prompt: raw[PROVENANCE_KEYS.prompt] ?? '',
+        modifiers,
+        styleContext: raw[PROVENANCE_KEYS.styleContext] || undefined,
+        executedPrompt: raw[PROVENANCE_KEYS.executedPrompt] || undefined,
+        model: raw[PROVENANCE_KEYS.model] || undefined,
+        ...(Number.isNaN(timestamp) ? {} : { timestamp }),
+    };
+};
+
+// Same pattern A1111 uses to split its "Steps: 20, Sampler: Euler a, ..." line
+const A1111_PARAM = /\s*([\w ]+):\s*("(?:\\.|[^\\"])+"|[^,]*)(?:,|$)/g;
+
+export const parseA1111Parameters = (text: string): Omit<EmbeddedMetadata, 'source' | 'raw'> => {
+    const lines = text.trim().split('\n');
+    const last = lines[lines.length - 1] || '';
+    const params: Record<string, string> = {};
+    if (/^\s*Steps:/.test(last) || (last.match(A1111_PARAM)?.length ?? 0) >= 3) {
+        lines.pop();
+        for (const [, key, value] of last.matchAll(A1111_PARAM)) {
+            params[key.trim()] = value.trim().replace(/^"(.*)"$/, '$1');
+        }
+    }
+
+    const negativeIndex = lines.findIndex(line => line.startsWith('Negative prompt:'));
+    const promptLines = negativeIndex >= 0 ? lines.slice(0, negativeIndex) : lines;
+    const negative = negativeIndex >= 0
+        ? [lines[negativeIndex].slice('Negative prompt:'.length), ...lines.slice(negativeIndex + 1)].join('\n').trim()
+        : undefined;
+
+    return {
+        prompt: promptLines.join('\n').trim() || undefined,
+        negativePrompt: negative || undefined,
+        sampler: [params['Sampler'], params['Schedule type']].filter(Boolean).join(' ') || undefined,
+        seed: params['Seed'],
+        steps: params['Steps'],
+        cfgScale: params['CFG scale'],
+        model: params['Model'],
+        size: params['Size'],
+    };
+};
+
+type ComfyLink = [string, number];
+interface ComfyApiNode {
+    class_type: string;
+    inputs: Record<string, unknown>;
+}
+interface ComfyUiNode {
+    type: string;
+    title?: string;
+    widgets_values?: unknown[];
+}
+
+const isLink = (value: unknown): value is ComfyLink => Array.isArray(value) && value.length === 2 && typeof value[1] === 'number';
+
+// Follows links (e.g. from primitive or concat nodes) until it finds literal prompt text
+const resolveComfyText = (graph: Record<string, ComfyApiNode>, value: unknown, depth: number = 0): string | undefined => {
+    if (typeof value === 'string') return value;
+    if (!isLink(value) || depth > 8) return undefined;
+    const node = graph[String(value[0])];
+    if (!node) return undefined;
+    const inputs = node.inputs || {};
+    const candidates = ['text', 'text_g', 'text_l', 'string', 'value', 'prompt', 'conditioning'];
+    for (const key of candidates) {
+        if (key in inputs) {
+            const text = resolveComfyText(graph, inputs[key], depth + 1);
+            if (text) return text;
+        }
+    }
+    return undefined;
+};
+
+const parseComfyPrompt = (json: string): Omit<EmbeddedMetadata, 'source' | 'raw'> | null => {
+    const graph = JSON.parse(json) as Record<string, ComfyApiNode>;
+    const nodes = Object.values(graph).filter(n => n && typeof n === 'object' && 'class_type' in n);
+    const sampler = nodes.find(n => /KSampler|SamplerCustom/.test(n.class_type));
+    if (!sampler) return null;
+    const inputs = sampler.inputs;
+    const checkpoint = nodes.find(n => /CheckpointLoader|UNETLoader/.test(n.class_type));
+    const latent = nodes.find(n => /EmptyLatentImage|EmptySD3LatentImage/.test(n.class_type));
+    const str = (v: unknown) => (v == null || isLink(v) ? undefined : String(v));
+
+    return {
+        prompt: resolveComfyText(graph, inputs.positive),
+        negativePrompt: resolveComfyText(graph, inputs.negative),
+        sampler: [str(inputs.sampler_name), str(inputs.scheduler)].filter(Boolean).join(' ') || undefined,
+        seed: str(inputs.seed ?? inputs.noise_seed),
+        steps: str(inputs.steps),
+        cfgScale: str(inputs.cfg),
+        model: str(checkpoint?.inputs.ckpt_name ?? checkpoint?.inputs.unet_name),
+        size: latent ? `${latent.inputs.width}x${latent.inputs.height}` : undefined,
+    };
+};
+
+// UI-format workflows don't record which text node feeds which sampler input, so titles are the best hint
+const parseComfyWorkflow = (json: string): Omit<EmbeddedMetadata, 'source' | 'raw'> | null => {
+    const nodes = (JSON.parse(json).nodes || []) as ComfyUiNode[];
+    const textNodes = nodes.filter(n => /CLIPTextEncode/.test(n.type) && typeof n.widgets_values?.[0] === 'string');
+    const negative = textNodes.find(n => /neg/i.test(n.title || ''));
+    const positive = textNodes.find(n => n !== negative);
+    const sampler = nodes.find(n => n.type === 'KSampler')?.widgets_values;
+    if (!positive && !sampler) return null;
+    return {
+        prompt: positive?.widgets_values?.[0] as string | undefined,
+        negativePrompt: (negative ?? textNodes.find(n => n !== positive))?.widgets_values?.[0] as string | undefined,
+        // KSampler widgets: seed, control_after_generate, steps, cfg, sampler_name, scheduler, denoise
+        seed: sampler?.[0] != null ? String(sampler[0]) : undefined,
+        steps: sampler?.[2] != null ? String(sampler[2]) : undefined,
+        cfgScale: sampler?.[3] != null ? String(sampler[3]) : undefined,
+        sampler: sampler ? [sampler[4], sampler[5]].filter(Boolean).join(' ') : undefined,
+    };
+};
+
+const interpret = (raw: Record<string, string>): EmbeddedMetadata | null => {
+    if (Object.keys(raw).length === 0) return null;
+
+    if (raw[PROVENANCE_KEYS.software] === PROVENANCE_SOFTWARE) {
+        return {
+            source: 'provenance',
+            prompt: raw[PROVENANCE_KEYS.executedPrompt] || raw[PROVENANCE_KEYS.prompt],
+            model: raw[PROVENANCE_KEYS.model],
+            raw,
+        };
+    }
+
+    if (raw.parameters) {
+        return { source: 'a1111', ...parseA1111Parameters(raw.parameters), raw };
+    }
+
+    for (const [key, parse] of [['prompt', parseComfyPrompt], ['workflow', parseComfyWorkflow]] as const) {
+        if (!raw[key]) continue;
+        try {
+            const parsed = parse(raw[key]);
+            if (parsed) return { source: 'comfyui', ...parsed, raw };
+        } catch {
+            // Not JSON: some tools store a plain prompt under "prompt"; handled below
+        }
+    }
+
+    // A1111 writes the same parameters block into EXIF UserComment for JPEG/WebP output
+    const exifText = raw.UserComment || raw.ImageDescription || raw.XPComment || raw.Comment;
+    if (exifText) {
+        const parsed = parseA1111Parameters(exifText);
+        return { source: raw.UserComment ? 'exif' : 'text', ...parsed, raw };
+    }
+
+    const description = raw.prompt || raw.Description || raw.Comment || raw.Title;
+    return { source: 'text', prompt: description, raw };
+};
+
+/** Parses whatever generation metadata the file carries, or returns null when there is none. */
+export async function readImageMetadata(bytes: Uint8Array): Promise<EmbeddedMetadata | null> {
+    let raw: Record<string, string> = {};
+    if (isPng(bytes)) {
+        raw = await readPngText(bytes);
+    } else if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+        raw = readJpegExif(bytes);
+    } else if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WEBP') {
+        raw = readWebpExif(bytes);
+    }
+    return interpret(raw);
+}
+
+/** The EXIF orientation (1-8) of a JPEG or WebP; 1, upright, when there is none. */
+export const readExifOrientation = (bytes: Uint8Array): number => {
+    const isJpeg = bytes[0] === 0xff && bytes[1] === 0xd8;
+    const isWebp = ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WEBP';
+    const raw = isJpeg ? readJpegExif(bytes, ORIENTATION_TAGS) : isWebp ? readWebpExif(bytes, ORIENTATION_TAGS) : {};
+    const orientation = Number(raw.Orientation);
+    return orientation >= 1 && orientation <= 8 ? orientation : 1;
+};
+
+export const readImageMetadataFromFile = async (file: Blob) =>
+    readImageMetadata(new Uint8Array(await file.arrayBuffer()));
+
+export const readImageMetadataFromDataUrl = (dataUrl: string) =>
+    readImageMetadata(dataUrlToBytes(dataUrl));
@@ -0,0 +1,195 @@
+import { CropRect, PreprocessFormat, PreprocessSettings } from '../types';
+import { parseDataUrl, readFileAsDataUrl } from './fileUtils';
+import { readExifOrientation } from './imageMetadata';
+
+// Prepares an upload before it is scanned or rendered: applies the EXIF orientation,
+// crops, downscales to the configured edge and converts formats the models don't take.
+// An upload that needs none of that is passed through byte for byte.
+
+const SETTINGS_KEY = 'art-style-scanner:preprocess-settings';
+
+export const DEFAULT_PREPROCESS_SETTINGS: PreprocessSettings = {
+    maxEdge: 2048,
+    quality: 0.9,
+    format: 'auto',
+};
+
+export const MAX_EDGE_OPTIONS = [0, 1024, 1536, 2048, 3072, 4096];
+
+export const FORMAT_OPTIONS: Record<PreprocessFormat, string> = {
+    auto: 'Keep when supported',
+    'image/jpeg': 'JPEG',
+    'image/png': 'PNG',
+};
+
+export const ASPECT_PRESETS: { label: string; ratio: number | null }[] = [
+    { label: 'Free', ratio: null },
+    { label: '1:1', ratio: 1 },
+    { label: '4:3', ratio: 4 / 3 },
+    { label: '3:2', ratio: 3 / 2 },
+    { label: '16:9', ratio: 16 / 9 },
+    { label: '9:16', ratio: 9 / 16 },
+];
+
+// What every provider accepts as-is
+const SUPPORTED_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+// Flat-colour and transparent sources keep their edges better as PNG
+const LOSSLESS_SOURCES = ['image/gif', 'image/bmp', 'image/svg+xml', 'image/x-icon', 'image/vnd.microsoft.icon'];
+
+export const FULL_CROP: CropRect = { x: 0, y: 0, width: 1, height: 1 };
+
+export interface PreprocessResult {
+    dataUrl: string;
+    mimeType: string;
+    width: number;
+    height: number;
+    bytes: number; // Decoded payload size
+    originalBytes: number;
+    orientation: number; // EXIF orientation of the original: 1 when upright, 0 when unreadable
+    reencoded: boolean;
+}
+
+export const getPreprocessSettings = (): PreprocessSettings => {
+    try {
+        const stored = localStorage.getItem(SETTINGS_KEY);
+        return stored ? { ...DEFAULT_PREPROCESS_SETTINGS, ...JSON.parse(stored) } : DEFAULT_PREPROCESS_SETTINGS;
+    } catch (e) {
+        console.error("Failed to read preprocess settings", e);
+        return DEFAULT_PREPROCESS_SETTINGS;
+    }
+};
+
+export const savePreprocessSettings = (settings: PreprocessSettings) => {
+    try {
+        localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+    } catch (e) {
+        console.error("Failed to save preprocess settings", e);
+    }
+};
+
+/** Bytes the data URL decodes to, which is what the provider receives. */
+export const dataUrlBytes = (dataUrl: string): number => {
+    const base64 = dataUrl.slice(dataUrl.indexOf(',') + 1);
+    const padding = base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0;
+    return Math.max(0, Math.floor(base64.length * 3 / 4) - padding);
+};
+
+const isFullCrop = (crop: CropRect) => crop.x <= 0 && crop.y <= 0 && crop.width >= 1 && crop.height >= 1;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/** Keeps a crop inside the image and at least minSize on each side. */
+export const clampCrop = (crop: CropRect, minSize: number = 0.02): CropRect => {
+    const width = clamp(crop.width, minSize, 1);
+    const height = clamp(crop.height, minSize, 1);
+    return { x: clamp(crop.x, 0, 1 - width), y: clamp(crop.y, 0, 1 - height), width, height };
+};
+
+/** The largest crop of the given pixel aspect ratio centred on the current one. */
+export const fitCropToAspect = (crop: CropRect, ratio: number, imageWidth: number, imageHeight: number): CropRect => {
+    // Work in pixels, since fractions of a non-square image distort the ratio
+    const cx = (crop.x + crop.width / 2) * imageWidth;
+    const cy = (crop.y + crop.height / 2) * imageHeight;
+    let width = crop.width * imageWidth;
+    let height = width / ratio;
+    if (height > crop.height * imageHeight) {
+        height = crop.height * imageHeight;
+        width = height * ratio;
+    }
+    const scale = Math.min(1, imageWidth / width, imageHeight / height);
+    width *= scale;
+    height *= scale;
+    return clampCrop({
+        x: (cx - width / 2) / imageWidth,
+        y: (cy - height / 2) / imageHeight,
+        width: width / imageWidth,
+        height: height / imageHeight,
+    });
+};
+
+const outputType = (sourceType: string, format: PreprocessFormat): string => {
+    if (format !== 'auto') return format;
+    if (SUPPORTED_TYPES.includes(sourceType)) return sourceType;
+    return LOSSLESS_SOURCES.includes(sourceType) ? 'image/png' : 'image/jpeg';
+};
+
+const loadImage = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("This image format can't be decoded by the browser."));
+    img.src = src;
+});
+
+// createImageBitmap applies the EXIF rotation itself; the <img> fallback relies on the
+// browser's default image-orientation: from-image, which all current engines honour
+const decodeUpright = async (file: File): Promise<{ source: CanvasImageSource; width: number; height: number; release: () => void }> => {
+    if (typeof createImageBitmap === 'function') {
+        try {
+            const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+            return { source: bitmap, width: bitmap.width, height: bitmap.height, release: () => bitmap.close() };
+        } catch (e) {
+            console.warn("createImageBitmap failed, decoding through <img>", e);
+        }
+    }
+    const url = URL.createObjectURL(file);
+    try {
+        const img = await loadImage(url);
+        return { source: img, width: img.naturalWidth, height: img.naturalHeight, release: () => {} };
+    } finally {
+        URL.revokeObjectURL(url);
+    }
+};
+
+// EXIF lives near the start of the file; a malformed block only costs the pass-through shortcut
+const readOrientation = async (file: File): Promise<number> => {
+    try {
+        return readExifOrientation(new Uint8Array(await file.slice(0, 256 * 1024).arrayBuffer()));
+    } catch (e) {
+        console.warn("Could not read EXIF orientation", e);
+        return 0;
+    }
+};
+
+/** Orients, crops, downscales and converts an upload according to the settings; returns a data URL ready to send. */
+export async function preprocessImage(file: File, settings: PreprocessSettings, crop: CropRect = FULL_CROP): Promise<PreprocessResult> {
+    const orientation = await readOrientation(file);
+    const mimeType = outputType(file.type, settings.format);
+    const decoded = await decodeUpright(file);
+
+    try {
+        const area = isFullCrop(crop) ? FULL_CROP : clampCrop(crop);
+        const sourceWidth = Math.max(1, Math.round(area.width * decoded.width));
+        const sourceHeight = Math.max(1, Math.round(area.height * decoded.height));
+        const scale = settings.maxEdge > 0 ? Math.min(1, settings.maxEdge / Math.max(sourceWidth, sourceHeight)) : 1;
+        const width = Math.max(1, Math.round(sourceWidth * scale));
+        const height = Math.max(1, Math.round(sourceHeight * scale));
+
+        const untouched = orientation === 1 && area === FULL_CROP && scale === 1 && mimeType === file.type;
+        if (untouched) {
+            const dataUrl = await readFileAsDataUrl(file);
+            return { dataUrl, mimeType, width, height, bytes: file.size, originalBytes: file.size, orientation, reencoded: false };
+        }
+
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) throw new Error("Canvas is not available.");
+        if (mimeType === 'image/jpeg') {
+            // JPEG has no alpha; flatten onto white rather than the default black
+            ctx.fillStyle = '#ffffff';
+            ctx.fillRect(0, 0, width, height);
+        }
+        ctx.imageSmoothingQuality = 'high';
+        ctx.drawImage(
+            decoded.source,
+            Math.round(area.x * decoded.width), Math.round(area.y * decoded.height), sourceWidth, sourceHeight,
+            0, 0, width, height
+        );
+        const dataUrl = canvas.toDataURL(mimeType, clamp(settings.quality, 0.5, 1));
+        // Browsers without a WebP encoder quietly hand back PNG, so report what was produced
+        return { dataUrl, mimeType: parseDataUrl(dataUrl).mimeType, width, height, bytes: dataUrlBytes(dataUrl), originalBytes: file.size, orientation, reencoded: true };
+    } finally {
+        decoded.release();
+    }
+}
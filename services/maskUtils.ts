@@ -0,0 +1,94 @@
+// Canvas helpers for masked (inpainting) edits. A mask is a PNG data URL the size of the
+// source image: white where the edit may change pixels, black where it must not.
+
+const loadImage = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Failed to decode image for masking."));
+    img.src = src;
+});
+
+const createCanvas = (width: number, height: number) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Canvas is not available.");
+    return { canvas, ctx };
+};
+
+/** True when nothing has been painted on the mask layer. */
+export const isMaskLayerEmpty = (layer: HTMLCanvasElement): boolean => {
+    const ctx = layer.getContext('2d');
+    if (!ctx) return true;
+    const { data } = ctx.getImageData(0, 0, layer.width, layer.height);
+    for (let i = 3; i < data.length; i += 4) {
+        if (data[i] > 0) return false;
+    }
+    return true;
+};
+
+/**
+ * Turns the editor's paint layer (any colour, painted = alpha) into a black/white mask,
+ * softening the edge by `feather` pixels.
+ */
+export const exportMask = (layer: HTMLCanvasElement, feather: number = 0): string => {
+    const white = createCanvas(layer.width, layer.height);
+    white.ctx.drawImage(layer, 0, 0);
+    white.ctx.globalCompositeOperation = 'source-in';
+    white.ctx.fillStyle = '#ffffff';
+    white.ctx.fillRect(0, 0, layer.width, layer.height);
+
+    const mask = createCanvas(layer.width, layer.height);
+    mask.ctx.fillStyle = '#000000';
+    mask.ctx.fillRect(0, 0, layer.width, layer.height);
+    if (feather > 0) mask.ctx.filter = `blur(${feather}px)`;
+    mask.ctx.drawImage(white.canvas, 0, 0);
+    return mask.canvas.toDataURL('image/png');
+};
+
+/**
+ * OpenAI-style edit endpoints want the inverse convention: a PNG whose fully transparent
+ * pixels mark the area to edit.
+ */
+export async function toTransparentMask(maskUrl: string): Promise<Blob> {
+    const img = await loadImage(maskUrl);
+    const { canvas, ctx } = createCanvas(img.naturalWidth, img.naturalHeight);
+    ctx.drawImage(img, 0, 0);
+    const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    for (let i = 0; i < pixels.data.length; i += 4) {
+        pixels.data[i + 3] = 255 - pixels.data[i];
+        pixels.data[i] = pixels.data[i + 1] = pixels.data[i + 2] = 0;
+    }
+    ctx.putImageData(pixels, 0, 0);
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+    if (!blob) throw new Error("Failed to encode mask.");
+    return blob;
+}
+
+/**
+ * Blends the edited image into the original through the mask, so pixels outside it stay
+ * untouched even when the model ignored the mask or changed the whole frame.
+ */
+export async function compositeWithMask(originalUrl: string, editedUrl: string, maskUrl: string): Promise<string> {
+    const [original, edited, mask] = await Promise.all([loadImage(originalUrl), loadImage(editedUrl), loadImage(maskUrl)]);
+    const width = original.naturalWidth;
+    const height = original.naturalHeight;
+
+    // Mask luminance becomes the alpha of the edited layer
+    const layer = createCanvas(width, height);
+    layer.ctx.drawImage(mask, 0, 0, width, height);
+    const maskPixels = layer.ctx.getImageData(0, 0, width, height);
+    layer.ctx.clearRect(0, 0, width, height);
+    layer.ctx.drawImage(edited, 0, 0, width, height); // Models may return a different resolution
+    const editedPixels = layer.ctx.getImageData(0, 0, width, height);
+    for (let i = 0; i < editedPixels.data.length; i += 4) {
+        editedPixels.data[i + 3] = Math.round((editedPixels.data[i + 3] * maskPixels.data[i]) / 255);
+    }
+    layer.ctx.putImageData(editedPixels, 0, 0);
+
+    const out = createCanvas(width, height);
+    out.ctx.drawImage(original, 0, 0);
+    out.ctx.drawImage(layer.canvas, 0, 0);
+    return out.canvas.toDataURL('image/png');
+}
@@ -0,0 +1,151 @@
+import { PaletteColor } from '../types';
+
+// Local, pixel-based palette extraction. Runs entirely on a canvas, no API call involved.
+
+type Rgb = [number, number, number];
+
+const SAMPLE_EDGE = 128; // Downscale before quantizing; a palette doesn't need every pixel
+const MIN_ALPHA = 125; // Ignore mostly transparent pixels (PNG cut-outs)
+
+const loadImage = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Failed to decode image for palette extraction."));
+    img.src = src;
+});
+
+const samplePixels = (img: HTMLImageElement): Rgb[] => {
+    const scale = Math.min(1, SAMPLE_EDGE / Math.max(img.naturalWidth, img.naturalHeight));
+    const width = Math.max(1, Math.round(img.naturalWidth * scale));
+    const height = Math.max(1, Math.round(img.naturalHeight * scale));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error("Canvas is not available.");
+    ctx.drawImage(img, 0, 0, width, height);
+
+    const { data } = ctx.getImageData(0, 0, width, height);
+    const pixels: Rgb[] = [];
+    for (let i = 0; i < data.length; i += 4) {
+        if (data[i + 3] >= MIN_ALPHA) pixels.push([data[i], data[i + 1], data[i + 2]]);
+    }
+    return pixels;
+};
+
+// Median cut: repeatedly split the box with the widest (population-weighted) channel range at its median
+const medianCut = (pixels: Rgb[], colorCount: number): Rgb[][] => {
+    const boxes: Rgb[][] = [pixels];
+    while (boxes.length < colorCount) {
+        let bestIndex = -1;
+        let bestChannel = 0;
+        let bestScore = 0;
+        boxes.forEach((box, index) => {
+            if (box.length < 2) return;
+            for (let channel = 0; channel < 3; channel++) {
+                let min = 255;
+                let max = 0;
+                for (const px of box) {
+                    if (px[channel] < min) min = px[channel];
+                    if (px[channel] > max) max = px[channel];
+                }
+                const score = (max - min) * box.length;
+                if (score > bestScore) {
+                    bestScore = score;
+                    bestIndex = index;
+                    bestChannel = channel;
+                }
+            }
+        });
+        if (bestIndex < 0) break; // Every remaining box is a single colour
+
+        const box = [...boxes[bestIndex]].sort((a, b) => a[bestChannel] - b[bestChannel]);
+        const mid = box.length >> 1;
+        boxes.splice(bestIndex, 1, box.slice(0, mid), box.slice(mid));
+    }
+    return boxes;
+};
+
+const toHex = ([r, g, b]: Rgb) => '#' + [r, g, b].map(v => v.toString(16).padStart(2, '0')).join('');
+
+export async function extractPalette(imageUrl: string, colorCount: number = 6): Promise<PaletteColor[]> {
+    const pixels = samplePixels(await loadImage(imageUrl));
+    if (pixels.length === 0) return [];
+
+    return medianCut(pixels, colorCount)
+        .filter(box => box.length > 0)
+        .map(box => {
+            const sum = box.reduce((acc, px) => [acc[0] + px[0], acc[1] + px[1], acc[2] + px[2]], [0, 0, 0]);
+            const rgb: Rgb = [
+                Math.round(sum[0] / box.length),
+                Math.round(sum[1] / box.length),
+                Math.round(sum[2] / box.length),
+            ];
+            return { hex: toHex(rgb), rgb, proportion: box.length / pixels.length };
+        })
+        .sort((a, b) => b.proportion - a.proportion);
+}
+
+// --- Exporters ---
+
+/** GIMP / Inkscape / Krita palette. */
+export const toGpl = (colors: PaletteColor[], name: string): string => [
+    'GIMP Palette',
+    `Name: ${name.replace(/[\r\n]/g, ' ')}`,
+    'Columns: 0',
+    '#',
+    ...colors.map(({ rgb, hex }) => `${rgb.map(v => String(v).padStart(3, ' ')).join(' ')}\t${hex}`),
+].join('\n') + '\n';
+
+/** CSS custom properties, with an "-rgb" companion for use inside rgb()/rgba(). */
+export const toCssVariables = (colors: PaletteColor[], prefix: string = 'palette'): string => [
+    ':root {',
+    ...colors.flatMap(({ hex, rgb }, i) => [
+        `  --${prefix}-${i + 1}: ${hex};`,
+        `  --${prefix}-${i + 1}-rgb: ${rgb.join(', ')};`,
+    ]),
+    '}',
+].join('\n') + '\n';
+
+/** Adobe Swatch Exchange (ASE v1.0), big-endian binary with one RGB colour entry per swatch. */
+export const toAse = (colors: PaletteColor[]): Uint8Array => {
+    const blocks = colors.map(({ hex, rgb }) => {
+        const name = hex.toUpperCase();
+        // name length (u16) + UTF-16 name with null terminator + model (4) + 3 floats + colour type (u16)
+        const length = 2 + (name.length + 1) * 2 + 4 + 12 + 2;
+        const view = new DataView(new ArrayBuffer(2 + 4 + length));
+        let offset = 0;
+        view.setUint16(offset, 0x0001); offset += 2; // Colour entry
+        view.setUint32(offset, length); offset += 4;
+        view.setUint16(offset, name.length + 1); offset += 2;
+        for (let i = 0; i < name.length; i++) {
+            view.setUint16(offset, name.charCodeAt(i)); offset += 2;
+        }
+        view.setUint16(offset, 0); offset += 2;
+        for (const ch of 'RGB ') {
+            view.setUint8(offset, ch.charCodeAt(0)); offset += 1;
+        }
+        for (const value of rgb) {
+            view.setFloat32(offset, value / 255); offset += 4;
+        }
+        view.setUint16(offset, 2); // Normal (non-spot, non-global)
+        return new Uint8Array(view.buffer);
+    });
+
+    const header = new DataView(new ArrayBuffer(12));
+    'ASEF'.split('').forEach((ch, i) => header.setUint8(i, ch.charCodeAt(0)));
+    header.setUint16(4, 1); // Version 1.0
+    header.setUint16(6, 0);
+    header.setUint32(8, blocks.length);
+
+    const total = 12 + blocks.reduce((sum, b) => sum + b.length, 0);
+    const out = new Uint8Array(total);
+    out.set(new Uint8Array(header.buffer), 0);
+    let offset = 12;
+    for (const block of blocks) {
+        out.set(block, offset);
+        offset += block.length;
+    }
+    return out;
+};
@@ -0,0 +1,114 @@
+import { GeneratedItem } from '../types';
+import { PROVENANCE_KEYS, PROVENANCE_SOFTWARE, dataUrlToBytes, isPng, readPngChunks } from './imageMetadata';
+
+// Writes a GeneratedItem's prompt provenance into the PNG itself as iTXt chunks, so a shared
+// file still says how it was made. imageMetadata.ts reads the same keywords back.
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+const crc32 = (bytes: Uint8Array) => {
+    let crc = 0xffffffff;
+    for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+    return (crc ^ 0xffffffff) >>> 0;
+};
+
+const encodeChunk = (type: string, data: Uint8Array): Uint8Array => {
+    const chunk = new Uint8Array(12 + data.length);
+    const view = new DataView(chunk.buffer);
+    view.setUint32(0, data.length);
+    for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+    chunk.set(data, 8);
+    view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+    return chunk;
+};
+
+// Uncompressed iTXt: keyword \0, compression flag 0, method 0, empty language \0, empty translated keyword \0, UTF-8 text
+const encodeITXt = (keyword: string, text: string): Uint8Array => {
+    const key = Uint8Array.from(keyword.slice(0, 79), ch => ch.charCodeAt(0) & 0xff);
+    const value = new TextEncoder().encode(text);
+    const data = new Uint8Array(key.length + 5 + value.length);
+    data.set(key, 0);
+    data.set(value, key.length + 5); // The five bytes in between are all zero
+    return encodeChunk('iTXt', data);
+};
+
+const chunkKeyword = (data: Uint8Array) => {
+    const end = data.indexOf(0);
+    return String.fromCharCode(...data.subarray(0, end < 0 ? data.length : end));
+};
+
+/** Returns a copy of the PNG with the given text entries, replacing any existing entries with the same keywords. */
+export function embedPngText(png: Uint8Array, entries: Record<string, string>): Uint8Array {
+    if (!isPng(png)) throw new Error("Not a PNG file.");
+    const keywords = new Set(Object.keys(entries));
+    const parts: Uint8Array[] = [png.subarray(0, 8)];
+
+    for (const chunk of readPngChunks(png)) {
+        const isText = chunk.type === 'tEXt' || chunk.type === 'zTXt' || chunk.type === 'iTXt';
+        if (isText && keywords.has(chunkKeyword(chunk.data))) continue;
+        if (chunk.type === 'IEND') {
+            for (const [keyword, text] of Object.entries(entries)) parts.push(encodeITXt(keyword, text));
+        }
+        parts.push(png.subarray(chunk.offset, chunk.offset + 12 + chunk.data.length));
+    }
+
+    const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        out.set(part, offset);
+        offset += part.length;
+    }
+    return out;
+}
+
+// Models may return JPEG or WebP; re-encode those so every export is a PNG that can carry iTXt
+const toPngBytes = async (imageUrl: string): Promise<Uint8Array> => {
+    const bytes = dataUrlToBytes(imageUrl);
+    if (isPng(bytes)) return bytes;
+
+    const img = await new Promise<HTMLImageElement>((resolve, reject) => {
+        const el = new Image();
+        el.onload = () => resolve(el);
+        el.onerror = () => reject(new Error("Failed to decode image for export."));
+        el.src = imageUrl;
+    });
+    const canvas = document.createElement('canvas');
+    canvas.width = img.naturalWidth;
+    canvas.height = img.naturalHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Canvas is not available.");
+    ctx.drawImage(img, 0, 0);
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+    if (!blob) throw new Error("Failed to encode PNG.");
+    return new Uint8Array(await blob.arrayBuffer());
+};
+
+export const buildProvenance = (item: GeneratedItem): Record<string, string> => ({
+    [PROVENANCE_KEYS.title]: item.title,
+    [PROVENANCE_KEYS.prompt]: item.prompt,
+    [PROVENANCE_KEYS.modifiers]: JSON.stringify(item.modifiers),
+    [PROVENANCE_KEYS.styleContext]: item.styleContext || '',
+    [PROVENANCE_KEYS.executedPrompt]: item.executedPrompt || '',
+    [PROVENANCE_KEYS.model]: item.model || '',
+    [PROVENANCE_KEYS.timestamp]: new Date(item.timestamp).toISOString(),
+    [PROVENANCE_KEYS.software]: PROVENANCE_SOFTWARE,
+});
+
+/** The item's image as a PNG blob carrying its provenance. Falls back to the bare image if embedding fails. */
+export async function exportGeneratedPng(item: GeneratedItem): Promise<Blob> {
+    try {
+        const png = embedPngText(await toPngBytes(item.imageUrl), buildProvenance(item));
+        return new Blob([png], { type: 'image/png' });
+    } catch (e) {
+        console.error("Failed to embed provenance, exporting the bare image", e);
+        return (await fetch(item.imageUrl)).blob();
+    }
+}
@@ -0,0 +1,122 @@
+import { STYLE_PRESETS, StyleExtractionResult, StylePreset } from '../types';
+import { toJson } from './serializers';
+
+// Style preset library: defaults, ordering, prompt composition and the JSON exchange format.
+
+export const PRESET_FILE_VERSION = 1;
+
+export const DEFAULT_PRESETS: StylePreset[] = STYLE_PRESETS.map((name, index) => ({
+    id: `default-${name.toLowerCase().replace(/\s+/g, '-')}`,
+    name,
+    modifiers: [name],
+    folder: '',
+    order: index,
+    timestamp: 0,
+}));
+
+const newId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createPreset = (fields: Pick<StylePreset, 'name' | 'modifiers'> & Partial<StylePreset>, existing: StylePreset[]): StylePreset => {
+    const folder = fields.folder ?? '';
+    return {
+        description: '',
+        promptPrefix: '',
+        promptSuffix: '',
+        ...fields,
+        id: newId(),
+        folder,
+        order: existing.filter(p => p.folder === folder).length,
+        timestamp: Date.now(),
+    };
+};
+
+/** Every distilled tag, deduplicated, in category order. */
+export const presetModifiersFromExtraction = (styles: StyleExtractionResult): string[] =>
+    [...new Set([...styles.lighting, ...styles.medium, ...styles.textures, ...styles.techniques, ...styles.vibe])];
+
+export const sortPresets = (presets: StylePreset[]): StylePreset[] =>
+    [...presets].sort((a, b) => a.folder.localeCompare(b.folder) || a.order - b.order);
+
+/** Presets grouped by folder, top level first, each group in display order. */
+export const groupPresetsByFolder = (presets: StylePreset[]): [string, StylePreset[]][] => {
+    const groups = new Map<string, StylePreset[]>();
+    for (const preset of sortPresets(presets)) {
+        groups.set(preset.folder, [...(groups.get(preset.folder) || []), preset]);
+    }
+    return [...groups.entries()];
+};
+
+/**
+ * Moves a preset one slot up or down inside its folder. Returns only the presets whose
+ * order changed, so callers can persist just those.
+ */
+export const movePreset = (presets: StylePreset[], id: string, direction: -1 | 1): StylePreset[] => {
+    const target = presets.find(p => p.id === id);
+    if (!target) return [];
+    const siblings = sortPresets(presets.filter(p => p.folder === target.folder));
+    const index = siblings.findIndex(p => p.id === id);
+    const swapWith = siblings[index + direction];
+    if (!swapWith) return [];
+    siblings[index] = swapWith;
+    siblings[index + direction] = target;
+    return siblings
+        .map((preset, order) => ({ ...preset, order }))
+        .filter(preset => preset.order !== presets.find(p => p.id === preset.id)?.order);
+};
+
+/** Wraps the user's idea with the prefixes and suffixes of the active presets. */
+export const composePresetPrompt = (idea: string, active: StylePreset[]): string => {
+    const prefix = active.map(p => p.promptPrefix?.trim()).filter(Boolean).join(' ');
+    const suffix = active.map(p => p.promptSuffix?.trim()).filter(Boolean).join(' ');
+    return [prefix, idea.trim(), suffix].filter(Boolean).join(' ');
+};
+
+// --- Import / export ---
+
+export const exportPresets = (presets: StylePreset[]): string =>
+    toJson({
+        version: PRESET_FILE_VERSION,
+        presets: sortPresets(presets).map(({ name, modifiers, description, promptPrefix, promptSuffix, folder }) => ({
+            name, modifiers, description: description || '', promptPrefix: promptPrefix || '', promptSuffix: promptSuffix || '', folder,
+        })),
+    });
+
+const asString = (value: unknown) => (typeof value === 'string' ? value : '');
+
+/**
+ * Parses a preset file (or a bare array of presets) into new presets appended after the
+ * existing ones. Entries without a name or modifiers are skipped.
+ */
+export function importPresets(json: string, existing: StylePreset[]): StylePreset[] {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(json);
+    } catch {
+        throw new Error("The preset file is not valid JSON.");
+    }
+    const entries = Array.isArray(parsed) ? parsed : (parsed as { presets?: unknown })?.presets;
+    if (!Array.isArray(entries)) {
+        throw new Error("The preset file doesn't contain a presets list.");
+    }
+
+    const imported: StylePreset[] = [];
+    for (const entry of entries) {
+        if (!entry || typeof entry !== 'object') continue;
+        const record = entry as Record<string, unknown>;
+        const name = asString(record.name).trim();
+        const modifiers = Array.isArray(record.modifiers)
+            ? [...new Set(record.modifiers.filter((m): m is string => typeof m === 'string').map(m => m.trim()).filter(Boolean))]
+            : [];
+        if (!name || (modifiers.length === 0 && !record.promptPrefix && !record.promptSuffix)) continue;
+
+        imported.push(createPreset({
+            name,
+            modifiers,
+            description: asString(record.description),
+            promptPrefix: asString(record.promptPrefix),
+            promptSuffix: asString(record.promptSuffix),
+            folder: asString(record.folder).trim(),
+        }, [...existing, ...imported]));
+    }
+    return imported;
+}
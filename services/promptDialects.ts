@@ -0,0 +1,117 @@
+import { AnalysisResult } from '../types';
+import { hashString } from './hashUtils';
+
+// Turns an AnalysisResult into prompts that paste straight into specific generation tools.
+
+export interface DialectOptions {
+    aspectRatio?: string; // "16:9" etc, derived from the source image when known
+}
+
+const DEFAULT_ASPECT_RATIO = '1:1';
+
+const COMMON_RATIOS = ['1:1', '5:4', '4:5', '4:3', '3:4', '3:2', '2:3', '16:9', '9:16', '21:9', '9:21'];
+
+const ratioValue = (ratio: string) => {
+    const [w, h] = ratio.split(':').map(Number);
+    return w / h;
+};
+
+/** Snaps arbitrary pixel dimensions to the nearest ratio the generators commonly accept. */
+export const nearestAspectRatio = (width: number, height: number): string => {
+    if (!width || !height) return DEFAULT_ASPECT_RATIO;
+    const target = Math.log(width / height);
+    return COMMON_RATIOS.reduce((best, ratio) =>
+        Math.abs(Math.log(ratioValue(ratio)) - target) < Math.abs(Math.log(ratioValue(best)) - target) ? ratio : best
+    );
+};
+
+const NEGATIVE_PROMPT = 'lowres, blurry, jpeg artifacts, watermark, signature, text, deformed, bad anatomy, extra limbs, disfigured, oversaturated';
+
+const clean = (term: string) => term.trim().replace(/\s+/g, ' ');
+
+// --- Midjourney ---
+
+// "::" is Midjourney's multi-prompt separator, so it must not appear inside a segment
+const mjSegment = (text: string) => clean(text).replace(/::/g, ':').replace(/\s--/g, ' -');
+
+export function toMidjourney(result: AnalysisResult, options: DialectOptions = {}): string {
+    const segments: [string, number][] = [
+        [result.creativePrompt, 2],
+        [`${result.style}, ${result.artist}`, 1.5],
+        [result.techniques.join(', '), 1.2],
+        [result.colorPalette.join(', '), 1],
+        [`${result.composition.join(', ')}, ${result.mood}`, 0.8],
+    ];
+    const body = segments
+        .filter(([text]) => text.replace(/[,\s]/g, ''))
+        .map(([text, weight]) => `${mjSegment(text)}::${weight}`)
+        .join(' ');
+    return `/imagine prompt: ${body} --ar ${options.aspectRatio || DEFAULT_ASPECT_RATIO} --stylize 250 --v 6`;
+}
+
+// --- Stable Diffusion / A1111 ---
+
+// Literal parentheses are attention syntax in A1111 and have to be escaped
+const sdEscape = (term: string) => clean(term).replace(/([()[\]])/g, '\\$1').replace(/:/g, ' ');
+
+const sdWeighted = (term: string, weight: number) =>
+    weight === 1 ? sdEscape(term) : `(${sdEscape(term)}:${weight})`;
+
+const SD_BASE_AREA = 1024 * 1024; // SDXL native resolution
+
+/** Picks an SDXL-friendly size (multiples of 64, ~1MP) for the given ratio. */
+export const sdDimensions = (aspectRatio: string = DEFAULT_ASPECT_RATIO) => {
+    const ratio = ratioValue(aspectRatio) || 1;
+    const width = Math.round(Math.sqrt(SD_BASE_AREA * ratio) / 64) * 64;
+    const height = Math.round(Math.sqrt(SD_BASE_AREA / ratio) / 64) * 64;
+    return { width, height };
+};
+
+export const toSdPositive = (result: AnalysisResult) => [
+    sdEscape(result.creativePrompt),
+    sdWeighted(result.style, 1.2),
+    sdWeighted(result.artist, 1.1),
+    ...result.techniques.map(t => sdWeighted(t, 1.15)),
+    ...result.colorPalette.map(c => sdWeighted(c, 1.05)),
+    ...result.composition.map(c => sdEscape(c)),
+    sdEscape(result.mood),
+].filter(Boolean).join(', ');
+
+export function toStableDiffusion(result: AnalysisResult, options: DialectOptions = {}): string {
+    const { width, height } = sdDimensions(options.aspectRatio);
+    // Same layout as A1111's "parameters" block, so "Read generation parameters" can parse it back
+    return `${toSdPositive(result)}
+Negative prompt: ${NEGATIVE_PROMPT}
+Steps: 30, Sampler: DPM++ 2M Karras, CFG scale: 7, Seed: ${hashString(result.creativePrompt)}, Size: ${width}x${height}`;
+}
+
+// --- ComfyUI ---
+
+/** Default text-to-image graph in ComfyUI's API format (same node ids as the stock workflow). */
+export function toComfyUi(result: AnalysisResult, options: DialectOptions = {}): string {
+    const { width, height } = sdDimensions(options.aspectRatio);
+    const graph = {
+        "3": {
+            class_type: "KSampler",
+            inputs: {
+                seed: hashString(result.creativePrompt),
+                steps: 30,
+                cfg: 7,
+                sampler_name: "dpmpp_2m",
+                scheduler: "karras",
+                denoise: 1,
+                model: ["4", 0],
+                positive: ["6", 0],
+                negative: ["7", 0],
+                latent_image: ["5", 0],
+            },
+        },
+        "4": { class_type: "CheckpointLoaderSimple", inputs: { ckpt_name: "sd_xl_base_1.0.safetensors" } },
+        "5": { class_type: "EmptyLatentImage", inputs: { width, height, batch_size: 1 } },
+        "6": { class_type: "CLIPTextEncode", inputs: { text: toSdPositive(result), clip: ["4", 1] } },
+        "7": { class_type: "CLIPTextEncode", inputs: { text: NEGATIVE_PROMPT, clip: ["4", 1] } },
+        "8": { class_type: "VAEDecode", inputs: { samples: ["3", 0], vae: ["4", 2] } },
+        "9": { class_type: "SaveImage", inputs: { filename_prefix: "ArtStyleScanner", images: ["8", 0] } },
+    };
+    return JSON.stringify(graph, null, 2);
+}
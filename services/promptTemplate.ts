@@ -0,0 +1,158 @@
+import { StylePreset } from '../types';
+import { hashString } from './hashUtils';
+import { composePresetPrompt } from './presetService';
+
+// A small templating language for the "Your Idea" box:
+//   {subject}     variable, filled in from the inputs shown under the textarea
+//   __animal__    wildcard, a random line from the user's word list of that name
+//   {red|blue}    alternation, one of the options at random
+// Variables are substituted first, so their values may use wildcards and alternations too.
+
+export interface TemplateContext {
+    variables: Record<string, string>;
+    wildcards: Record<string, string[]>; // Word lists by name
+    random?: () => number; // Defaults to Math.random; pass createRandom(seed) for repeatable picks
+}
+
+const VARIABLE = /\{([A-Za-z_][\w-]*)\}/g;
+const WILDCARD = /__([\w-]+?)__/g;
+const ALTERNATION = /\{([^{}]*\|[^{}]*)\}/g;
+
+const unique = (values: string[]) => [...new Set(values)];
+
+export const findVariables = (template: string): string[] =>
+    unique(Array.from(template.matchAll(VARIABLE), m => m[1]));
+
+export const findWildcards = (template: string): string[] =>
+    unique(Array.from(template.matchAll(WILDCARD), m => m[1]));
+
+export const isTemplate = (text: string) =>
+    findVariables(text).length > 0 || findWildcards(text).length > 0 || Array.from(text.matchAll(ALTERNATION)).length > 0;
+
+/** Mulberry32: a seeded generator so a matrix can hold its random picks fixed across cells. */
+export const createRandom = (seed: number | string): (() => number) => {
+    let state = typeof seed === 'string' ? hashString(seed) : seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+/** Everything that would make an expansion come out wrong: unset variables, unknown or empty word lists. */
+export const findTemplateProblems = (template: string, context: TemplateContext): string[] => {
+    const problems: string[] = [];
+    for (const name of findVariables(template)) {
+        if (!context.variables[name]?.trim()) problems.push(`Variable {${name}} has no value.`);
+    }
+    // Wildcards can also come in through variable values
+    const withValues = template.replace(VARIABLE, (match, name: string) => context.variables[name] ?? match);
+    for (const name of findWildcards(withValues)) {
+        const words = context.wildcards[name];
+        if (!words) problems.push(`No word list named __${name}__.`);
+        else if (words.length === 0) problems.push(`Word list __${name}__ is empty.`);
+    }
+    return problems;
+};
+
+/**
+ * Expands a template into a plain prompt. Anything unresolved degrades gracefully: an unset
+ * variable becomes its name and an unknown wildcard its bare word, so check findTemplateProblems first.
+ */
+export const expandTemplate = (template: string, context: TemplateContext): string => {
+    const random = context.random ?? Math.random;
+    const pick = <T>(options: T[]) => options[Math.floor(random() * options.length)];
+
+    return template
+        .replace(VARIABLE, (_, name: string) => context.variables[name]?.trim() || name)
+        .replace(WILDCARD, (_, name: string) => {
+            const words = context.wildcards[name];
+            return words && words.length > 0 ? pick(words) : name;
+        })
+        .replace(ALTERNATION, (_, body: string) => pick(body.split('|')).trim())
+        .replace(/\s+/g, ' ')
+        .trim();
+};
+
+// --- X/Y matrix ---
+
+export type MatrixAxis =
+    | { kind: 'variable'; name: string; values: string[] }
+    | { kind: 'preset'; presets: StylePreset[] };
+
+export interface MatrixJob {
+    x: number;
+    y: number;
+    xLabel: string;
+    yLabel: string;
+    prompt: string;
+    modifiers: string[];
+}
+
+export const axisLabels = (axis: MatrixAxis | null): string[] => {
+    if (!axis) return [''];
+    return axis.kind === 'variable' ? axis.values : axis.presets.map(p => p.name);
+};
+
+export const axisTitle = (axis: MatrixAxis | null): string => {
+    if (!axis) return '';
+    return axis.kind === 'variable' ? `{${axis.name}}` : 'Style presets';
+};
+
+export const findMatrixProblems = (template: string, xAxis: MatrixAxis, yAxis: MatrixAxis | null, context: TemplateContext): string[] => {
+    const problems: string[] = [];
+    const variables = { ...context.variables };
+    for (const [label, axis] of [['X', xAxis], ['Y', yAxis]] as const) {
+        if (!axis) continue;
+        if (axisLabels(axis).length === 0) problems.push(`The ${label} axis has no values.`);
+        if (axis.kind === 'variable') {
+            if (!findVariables(template).includes(axis.name)) problems.push(`The ${label} axis variable {${axis.name}} is not in the template.`);
+            // Any value will do for the check; the axis supplies the real ones
+            variables[axis.name] = axis.values[0] ?? '';
+        }
+    }
+    if (xAxis.kind === 'variable' && yAxis?.kind === 'variable' && xAxis.name === yAxis.name) {
+        problems.push("Both axes use the same variable.");
+    }
+    return [...problems, ...findTemplateProblems(template, { ...context, variables })];
+};
+
+/**
+ * One job per cell, row by row. Every cell expands with the same seed, so wildcard and
+ * alternation picks stay fixed across the grid and only the two axes change.
+ */
+export const buildMatrixJobs = (
+    template: string,
+    xAxis: MatrixAxis,
+    yAxis: MatrixAxis | null,
+    context: TemplateContext,
+    modifiers: string[],
+    seed: number
+): MatrixJob[] => {
+    const xLabels = axisLabels(xAxis);
+    const yLabels = axisLabels(yAxis);
+    const jobs: MatrixJob[] = [];
+
+    yLabels.forEach((yLabel, y) => {
+        xLabels.forEach((xLabel, x) => {
+            const variables = { ...context.variables };
+            const presets: StylePreset[] = [];
+            for (const [axis, index] of [[xAxis, x], [yAxis, y]] as const) {
+                if (axis?.kind === 'variable') variables[axis.name] = axis.values[index];
+                if (axis?.kind === 'preset') presets.push(axis.presets[index]);
+            }
+            const idea = expandTemplate(template, { ...context, variables, random: createRandom(seed) });
+            jobs.push({
+                x,
+                y,
+                xLabel,
+                yLabel,
+                prompt: composePresetPrompt(idea, presets),
+                modifiers: unique([...modifiers, ...presets.flatMap(p => p.modifiers)]),
+            });
+        });
+    });
+    return jobs;
+};
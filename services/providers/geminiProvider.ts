@@ -0,0 +1,238 @@
+import { GoogleGenAI, GenerateContentResponse, Type, Modality } from "@google/genai";
+import { AIProvider, ImageEditOptions, ImageEditResult, RequestOptions, StructuredRequestOptions } from '../../types';
+import {
+    ANALYSIS_USER_PROMPT, EXTRACTION_SYSTEM_INSTRUCTION, FALLBACK_TITLE, MASK_INSTRUCTION,
+    buildEditPrompt, buildExtractionPrompt, buildReferenceInstructions, buildTitlePrompt, getSystemInstruction
+} from './prompts';
+import { ServiceError } from '../serviceErrors';
+import { parseDataUrl } from '../fileUtils';
+
+const TEXT_MODEL = 'gemini-2.5-flash';
+const IMAGE_MODEL = 'gemini-2.5-flash-image'; // Nano Banana / Flash Image
+
+let ai: GoogleGenAI;
+
+const getAi = () => {
+    if (!ai) {
+        if (!process.env.API_KEY) {
+            throw new ServiceError('missing-key', "API_KEY environment variable not set");
+        }
+        ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    }
+    return ai;
+};
+
+const SAFETY_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY'];
+
+// Blocked requests come back as a successful response with no content, so check before reading it
+const assertNotBlocked = (response: GenerateContentResponse) => {
+    const blockReason = response.promptFeedback?.blockReason;
+    const finishReason = response.candidates?.[0]?.finishReason;
+    if (blockReason || (finishReason && SAFETY_FINISH_REASONS.includes(String(finishReason)))) {
+        throw new ServiceError('safety', `Blocked by safety filters (${blockReason || finishReason}).`);
+    }
+};
+
+// Blocked responses are still billed for their input, so usage is reported before anything else
+const reportUsage = (response: GenerateContentResponse, model: string, options: RequestOptions) => {
+    const usage = response.usageMetadata;
+    options.onUsage?.({
+        model,
+        inputTokens: usage?.promptTokenCount ?? 0,
+        // Thinking tokens are billed as output
+        outputTokens: (usage?.candidatesTokenCount ?? 0) + (usage?.thoughtsTokenCount ?? 0),
+    });
+};
+
+const responseSchema = {
+  type: Type.OBJECT,
+  properties: {
+    style: { type: Type.STRING, description: 'The primary artistic style or movement (e.g., Impressionism, Surrealism).' },
+    artist: { type: Type.STRING, description: 'The likely artist or a style descriptor (e.g., "in the style of Vincent van Gogh").' },
+    techniques: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: 'A list of key artistic techniques used (e.g., "Impasto", "Bold Brushstrokes").'
+    },
+    colorPalette: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: 'A list of descriptive keywords for the color palette (e.g., "Vibrant Yellows", "Deep Blues").'
+    },
+    composition: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: 'A list of keywords describing the composition (e.g., "Dynamic lines", "Asymmetrical balance").'
+    },
+    mood: { type: Type.STRING, description: 'The overall mood or feeling conveyed by the style (e.g., "Emotional and Dynamic", "Calm and Serene").' },
+    creativePrompt: {
+        type: Type.STRING,
+        description: 'A highly detailed, evocative, and artistic text prompt that describes the subject matter, style, lighting, and atmosphere combined. This prompt should be suitable for generating a similar image in an AI model.'
+    }
+  },
+  required: ['style', 'artist', 'techniques', 'colorPalette', 'composition', 'mood', 'creativePrompt']
+};
+
+async function analyzeImageStyle(base64ImageData: string, mimeType: string, intensity: number = 1, options: StructuredRequestOptions = {}): Promise<unknown> {
+    const geminiClient = getAi();
+
+    const imagePart = {
+      inlineData: {
+        data: base64ImageData,
+        mimeType: mimeType,
+      },
+    };
+
+    const textPart = {
+      text: options.repairHint ? `${ANALYSIS_USER_PROMPT}\n\n${options.repairHint}` : ANALYSIS_USER_PROMPT,
+    };
+
+    const response = await geminiClient.models.generateContent({
+        model: TEXT_MODEL,
+        contents: { parts: [imagePart, textPart] },
+        config: {
+            systemInstruction: getSystemInstruction(intensity),
+            responseMimeType: "application/json",
+            responseSchema: responseSchema,
+            abortSignal: options.signal,
+        },
+    });
+    reportUsage(response, TEXT_MODEL, options);
+
+    assertNotBlocked(response);
+    const jsonText = (response.text ?? '').trim();
+    try {
+        return JSON.parse(jsonText);
+    } catch (e) {
+        console.error("Failed to parse JSON response:", jsonText);
+        throw new ServiceError('malformed-response', "Received an invalid format from the API.");
+    }
+}
+
+async function editImage(
+    base64ImageData: string,
+    mimeType: string,
+    prompt: string,
+    modifiers: string[],
+    options: ImageEditOptions = {}
+): Promise<ImageEditResult> {
+    const geminiClient = getAi();
+
+    const references = options.references ?? [];
+    const fullPrompt = [
+        buildEditPrompt(prompt, modifiers),
+        options.mask ? MASK_INSTRUCTION : '',
+        references.length ? buildReferenceInstructions(references, options.mask ? 3 : 2) : '',
+    ].filter(Boolean).join(' ');
+
+    const imagePart = {
+        inlineData: {
+            data: base64ImageData,
+            mimeType: mimeType,
+        },
+    };
+
+    const textPart = {
+        text: fullPrompt,
+    };
+
+    // The mask travels as a second inline image right after the source
+    const maskParts = options.mask
+        ? [{ inlineData: { data: options.mask.split(',')[1], mimeType: 'image/png' } }]
+        : [];
+
+    // References follow in order; the instructions refer to them by position
+    const referenceParts = references.map(ref => {
+        const { base64Data, mimeType: refMimeType } = parseDataUrl(ref.imageUrl);
+        return { inlineData: { data: base64Data, mimeType: refMimeType } };
+    });
+
+    const response = await geminiClient.models.generateContent({
+        model: IMAGE_MODEL,
+        contents: {
+            parts: [imagePart, ...maskParts, ...referenceParts, textPart]
+        },
+        config: {
+            responseModalities: [Modality.IMAGE],
+            abortSignal: options.signal,
+        },
+    });
+    reportUsage(response, IMAGE_MODEL, options);
+
+    assertNotBlocked(response);
+    // The image isn't always the first part; the model may lead with a text remark
+    const parts = response.candidates?.[0]?.content?.parts ?? [];
+    const part = parts.find(p => p.inlineData?.data);
+    if (part && part.inlineData) {
+        const base64ImageBytes: string = part.inlineData.data!;
+        return {
+            imageUrl: `data:image/png;base64,${base64ImageBytes}`,
+            executedPrompt: fullPrompt
+        };
+    }
+
+    const remark = parts.map(p => p.text).filter(Boolean).join(' ');
+    throw new ServiceError('malformed-response', remark ? `No image generated: ${remark}` : "No image generated.");
+}
+
+async function generateCreativeTitle(prompt: string, modifiers: string[], options: RequestOptions = {}): Promise<string> {
+    const geminiClient = getAi();
+
+    const response = await geminiClient.models.generateContent({
+        model: TEXT_MODEL,
+        contents: buildTitlePrompt(prompt, modifiers),
+        config: { abortSignal: options.signal },
+    });
+    reportUsage(response, TEXT_MODEL, options);
+
+    return response.text?.trim() || FALLBACK_TITLE;
+}
+
+const extractionSchema = {
+    type: Type.OBJECT,
+    properties: {
+        lighting: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Lighting keywords (e.g., "volumetric", "chiaroscuro").' },
+        medium: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Art medium (e.g., "oil on canvas", "digital 3D render").' },
+        textures: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Surface qualities (e.g., "matte", "glossy", "grunge").' },
+        techniques: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Rendering techniques (e.g., "impasto", "ray tracing").' },
+        vibe: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Atmospheric or aesthetic descriptors (e.g., "uncanny valley", "ethereal").' }
+    },
+    required: ['lighting', 'medium', 'textures', 'techniques', 'vibe']
+};
+
+async function extractStylesFromText(promptText: string, options: StructuredRequestOptions = {}): Promise<unknown> {
+    const geminiClient = getAi();
+
+    const response = await geminiClient.models.generateContent({
+        model: TEXT_MODEL,
+        contents: options.repairHint ? `${buildExtractionPrompt(promptText)}\n\n${options.repairHint}` : buildExtractionPrompt(promptText),
+        config: {
+            systemInstruction: EXTRACTION_SYSTEM_INSTRUCTION,
+            responseMimeType: "application/json",
+            responseSchema: extractionSchema,
+            abortSignal: options.signal,
+        },
+    });
+    reportUsage(response, TEXT_MODEL, options);
+
+    assertNotBlocked(response);
+    const jsonText = (response.text ?? '').trim();
+    try {
+        return JSON.parse(jsonText);
+    } catch (e) {
+        console.error("Failed to parse extraction JSON:", jsonText);
+        throw new ServiceError('malformed-response', "Received an invalid format from the API.");
+    }
+}
+
+export const geminiProvider: AIProvider = {
+    id: 'gemini',
+    label: 'Google Gemini',
+    imageModel: IMAGE_MODEL,
+    visionModel: TEXT_MODEL,
+    textModel: TEXT_MODEL,
+    analyzeImageStyle,
+    editImage,
+    generateCreativeTitle,
+    extractStylesFromText,
+};
@@ -0,0 +1,167 @@
+import { AIProvider, AnalysisResult, ImageEditOptions, ImageEditResult, RequestOptions, StyleExtractionResult } from '../../types';
+import {
+    EXTRACTION_SYSTEM_INSTRUCTION, FALLBACK_TITLE, buildEditPrompt, buildExtractionPrompt, buildReferenceInstructions, buildTitlePrompt, getSystemInstruction
+} from './prompts';
+import { hashString } from '../hashUtils';
+
+// Offline provider for demos and UI testing. No network, no API key, and the same input
+// always produces the same output so screenshots and bug reports are reproducible.
+
+const MOCK_LATENCY_MS = 600;
+
+const STYLES = ['Impressionism', 'Cyberpunk Illustration', 'Baroque Oil Painting', 'Ukiyo-e Woodblock', 'Film Noir Photography', 'Art Nouveau'];
+const ARTISTS = ['in the style of Claude Monet', 'in the style of Syd Mead', 'in the style of Rembrandt', 'in the style of Hokusai', 'in the style of Ansel Adams', 'in the style of Alphonse Mucha'];
+const TECHNIQUES = ['Impasto', 'Bold Brushstrokes', 'Cel Shading', 'Chiaroscuro', 'Glazing', 'Cross-hatching', 'Ray Tracing', 'Sfumato'];
+const PALETTES = ['Vibrant Yellows', 'Deep Blues', 'Neon Magenta', 'Muted Earth Tones', 'Teal and Orange', 'Monochrome Greys'];
+const COMPOSITIONS = ['Rule of Thirds', 'Dynamic Diagonals', 'Asymmetrical Balance', 'Centered Symmetry', 'Leading Lines', 'Negative Space'];
+const MOODS = ['Calm and Serene', 'Emotional and Dynamic', 'Melancholic', 'Mysterious and Brooding', 'Playful and Bright'];
+const TITLE_WORDS = ['Echoes', 'Neon', 'Velvet', 'Dreams', 'Silent', 'Gilded', 'Storm', 'Horizon', 'Ember', 'Glass'];
+
+const LIGHTING = ['volumetric', 'rim light', 'golden hour', 'chiaroscuro', 'softbox'];
+const MEDIUMS = ['oil on canvas', 'digital 3D render', 'polaroid', 'watercolor', 'unreal engine 5'];
+const TEXTURES = ['grunge', 'glossy', 'matte', 'chrome', 'paper grain'];
+const VIBES = ['ethereal', 'uncanny valley', 'dreamlike', 'gritty', 'nostalgic'];
+
+const pick = <T>(list: T[], seed: number, offset: number = 0): T => list[(seed + offset * 7) % list.length];
+
+const pickMany = <T>(list: T[], seed: number, count: number): T[] => {
+    const result: T[] = [];
+    for (let i = 0; i < Math.min(count, list.length); i++) {
+        result.push(list[(seed + i) % list.length]);
+    }
+    return result;
+};
+
+// Rejects the way fetch does when aborted, so cancellation can be exercised offline too
+const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(signal.reason);
+    }, { once: true });
+});
+
+// Rough token counts (about four characters per token) so the usage panel has something to show
+const reportUsage = (options: RequestOptions, model: string, input: string, output: string) => {
+    options.onUsage?.({ model, inputTokens: Math.ceil(input.length / 4), outputTokens: Math.ceil(output.length / 4) });
+};
+
+const loadImage = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Failed to decode source image."));
+    img.src = src;
+});
+
+async function analyzeImageStyle(base64ImageData: string, _mimeType: string, intensity: number = 1, options: RequestOptions = {}): Promise<AnalysisResult> {
+    await delay(MOCK_LATENCY_MS, options.signal);
+    // Sampling the payload keeps hashing cheap for multi-megabyte images
+    const seed = hashString(base64ImageData.slice(0, 4096) + base64ImageData.length);
+    const style = pick(STYLES, seed);
+    const artist = pick(ARTISTS, seed, 1);
+    const techniques = pickMany(TECHNIQUES, seed, 2 + intensity);
+    const colorPalette = pickMany(PALETTES, seed >>> 3, 3);
+    const composition = pickMany(COMPOSITIONS, seed >>> 5, 2);
+    const mood = pick(MOODS, seed, 2);
+
+    const result: AnalysisResult = {
+        style,
+        artist,
+        techniques,
+        colorPalette,
+        composition,
+        mood,
+        creativePrompt: `A ${mood.toLowerCase()} scene rendered as ${style}, ${artist}, built from ${techniques.join(', ').toLowerCase()} with a palette of ${colorPalette.join(', ').toLowerCase()} and a ${composition[0].toLowerCase()} composition.`,
+    };
+    // An input image costs a fixed ~258 tokens on Gemini, whatever its size
+    options.onUsage?.({ model: 'mock-text', inputTokens: 258 + Math.ceil(getSystemInstruction(intensity).length / 4), outputTokens: Math.ceil(JSON.stringify(result).length / 4) });
+    return result;
+}
+
+async function editImage(
+    base64ImageData: string,
+    mimeType: string,
+    prompt: string,
+    modifiers: string[],
+    options: ImageEditOptions = {}
+): Promise<ImageEditResult> {
+    await delay(MOCK_LATENCY_MS, options.signal);
+    const references = options.references ?? [];
+    const fullPrompt = references.length
+        ? `${buildEditPrompt(prompt, modifiers)} ${buildReferenceInstructions(references, options.mask ? 3 : 2)}`
+        : buildEditPrompt(prompt, modifiers);
+    const seed = hashString(fullPrompt);
+    const source = await loadImage(`data:${mimeType};base64,${base64ImageData}`);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = source.naturalWidth;
+    canvas.height = source.naturalHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error("No image generated.");
+    }
+
+    // A prompt-dependent colour shift stands in for the "edit"
+    ctx.filter = `hue-rotate(${seed % 360}deg) saturate(${1 + (seed % 5) / 4})`;
+    ctx.drawImage(source, 0, 0);
+    ctx.filter = 'none';
+
+    // Style and content references show through in proportion to their weight
+    for (const ref of references.filter(r => r.role !== 'character')) {
+        ctx.globalAlpha = ref.weight * 0.4;
+        ctx.drawImage(await loadImage(ref.imageUrl), 0, 0, canvas.width, canvas.height);
+    }
+    ctx.globalAlpha = 1;
+
+    const bannerHeight = Math.max(24, Math.round(canvas.height * 0.06));
+    ctx.fillStyle = 'rgba(11, 12, 21, 0.7)';
+    ctx.fillRect(0, canvas.height - bannerHeight, canvas.width, bannerHeight);
+    ctx.fillStyle = '#67e8f9';
+    ctx.font = `bold ${Math.round(bannerHeight * 0.5)}px sans-serif`;
+    ctx.textBaseline = 'middle';
+    ctx.fillText(`MOCK · ${prompt || modifiers.join(', ')}`.slice(0, 80), bannerHeight * 0.4, canvas.height - bannerHeight / 2);
+
+    // Token counts of a typical Gemini image edit: ~258 per input image, one ~1290-token output image
+    options.onUsage?.({ model: 'mock-image', inputTokens: 258 * (1 + references.length) + Math.ceil(fullPrompt.length / 4), outputTokens: 1290 });
+
+    return {
+        imageUrl: canvas.toDataURL('image/png'),
+        executedPrompt: fullPrompt
+    };
+}
+
+async function generateCreativeTitle(prompt: string, modifiers: string[], options: RequestOptions = {}): Promise<string> {
+    await delay(MOCK_LATENCY_MS / 3, options.signal);
+    const seed = hashString(`${prompt}|${modifiers.join(',')}`);
+    if (!prompt && modifiers.length === 0) return FALLBACK_TITLE;
+    const title = `${pick(TITLE_WORDS, seed)} ${pick(TITLE_WORDS, seed, 1)} ${pick(TITLE_WORDS, seed, 2)}`;
+    reportUsage(options, 'mock-text', buildTitlePrompt(prompt, modifiers), title);
+    return title;
+}
+
+async function extractStylesFromText(promptText: string, options: RequestOptions = {}): Promise<StyleExtractionResult> {
+    await delay(MOCK_LATENCY_MS, options.signal);
+    const seed = hashString(promptText);
+    const result: StyleExtractionResult = {
+        lighting: pickMany(LIGHTING, seed, 2),
+        medium: pickMany(MEDIUMS, seed >>> 2, 1),
+        textures: pickMany(TEXTURES, seed >>> 4, 2),
+        techniques: pickMany(TECHNIQUES, seed >>> 6, 2),
+        vibe: pickMany(VIBES, seed >>> 8, 2),
+    };
+    reportUsage(options, 'mock-text', EXTRACTION_SYSTEM_INSTRUCTION + buildExtractionPrompt(promptText), JSON.stringify(result));
+    return result;
+}
+
+export const mockProvider: AIProvider = {
+    id: 'mock',
+    label: 'Mock (offline)',
+    imageModel: 'mock-image',
+    visionModel: 'mock-text',
+    textModel: 'mock-text',
+    analyzeImageStyle,
+    editImage,
+    generateCreativeTitle,
+    extractStylesFromText,
+};
@@ -0,0 +1,181 @@
+import { AIProvider, ImageEditOptions, ImageEditResult, ProviderSettings, RequestOptions, StructuredRequestOptions } from '../../types';
+import {
+    ANALYSIS_JSON_HINT, ANALYSIS_USER_PROMPT, EXTRACTION_JSON_HINT, EXTRACTION_SYSTEM_INSTRUCTION,
+    FALLBACK_TITLE, buildEditPrompt, buildExtractionPrompt, buildReferenceInstructions, buildTitlePrompt, getSystemInstruction
+} from './prompts';
+import { toTransparentMask } from '../maskUtils';
+import { ServiceError, errorFromStatus } from '../serviceErrors';
+
+// Talks to any server implementing the OpenAI REST API: OpenAI itself, Ollama (/v1), LM Studio, vLLM, ...
+
+type ChatContent = string | Array<
+    | { type: 'text'; text: string }
+    | { type: 'image_url'; image_url: { url: string } }
+>;
+
+interface ChatMessagePayload {
+    role: 'system' | 'user';
+    content: ChatContent;
+}
+
+const trimSlash = (url: string) => url.replace(/\/+$/, '');
+
+// Local models often wrap JSON in markdown fences despite being asked not to
+const stripCodeFence = (text: string) => text.replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '').trim();
+
+export const createOpenAiCompatibleProvider = (settings: ProviderSettings): AIProvider => {
+    const baseUrl = trimSlash(settings.openAiBaseUrl);
+
+    const headers = (json: boolean): Record<string, string> => {
+        const result: Record<string, string> = {};
+        if (json) result['Content-Type'] = 'application/json';
+        if (settings.openAiApiKey) result['Authorization'] = `Bearer ${settings.openAiApiKey}`;
+        return result;
+    };
+
+    const chat = async (model: string, messages: ChatMessagePayload[], jsonMode: boolean, options: RequestOptions): Promise<string> => {
+        if (!baseUrl) {
+            throw new ServiceError('config', "OpenAI-compatible base URL is not configured.");
+        }
+        const response = await fetch(`${baseUrl}/chat/completions`, {
+            method: 'POST',
+            headers: headers(true),
+            body: JSON.stringify({
+                model,
+                messages,
+                ...(jsonMode ? { response_format: { type: 'json_object' } } : {}),
+            }),
+            signal: options.signal,
+        });
+        if (!response.ok) {
+            throw errorFromStatus(response.status, await response.text());
+        }
+        const data = await response.json();
+        // Local servers often leave usage out; it is logged as zero tokens then
+        options.onUsage?.({
+            model: data?.model || model,
+            inputTokens: data?.usage?.prompt_tokens ?? 0,
+            outputTokens: data?.usage?.completion_tokens ?? 0,
+        });
+        return data?.choices?.[0]?.message?.content ?? '';
+    };
+
+    async function analyzeImageStyle(base64ImageData: string, mimeType: string, intensity: number = 1, options: StructuredRequestOptions = {}): Promise<unknown> {
+        const content = await chat(settings.openAiVisionModel, [
+            { role: 'system', content: `${getSystemInstruction(intensity)}\n\n${ANALYSIS_JSON_HINT}` },
+            {
+                role: 'user',
+                content: [
+                    { type: 'text', text: options.repairHint ? `${ANALYSIS_USER_PROMPT}\n\n${options.repairHint}` : ANALYSIS_USER_PROMPT },
+                    { type: 'image_url', image_url: { url: `data:${mimeType};base64,${base64ImageData}` } },
+                ],
+            },
+        ], true, options);
+
+        const jsonText = stripCodeFence(content);
+        try {
+            return JSON.parse(jsonText);
+        } catch (e) {
+            console.error("Failed to parse JSON response:", jsonText);
+            throw new ServiceError('malformed-response', "Received an invalid format from the API.");
+        }
+    }
+
+    async function editImage(
+        base64ImageData: string,
+        mimeType: string,
+        prompt: string,
+        modifiers: string[],
+        options: ImageEditOptions = {}
+    ): Promise<ImageEditResult> {
+        if (!settings.openAiImageModel) {
+            throw new ServiceError('config', "No image model configured for the OpenAI-compatible provider.");
+        }
+        if (!baseUrl) {
+            throw new ServiceError('config', "OpenAI-compatible base URL is not configured.");
+        }
+
+        // The API mask is a separate field, so references follow the source directly
+        const references = options.references ?? [];
+        const fullPrompt = references.length
+            ? `${buildEditPrompt(prompt, modifiers)} ${buildReferenceInstructions(references, 2)}`
+            : buildEditPrompt(prompt, modifiers);
+        const sourceBlob = await (await fetch(`data:${mimeType};base64,${base64ImageData}`)).blob();
+
+        const form = new FormData();
+        form.append('model', settings.openAiImageModel);
+        form.append('prompt', fullPrompt);
+        if (references.length === 0) {
+            form.append('image', sourceBlob, `source.${mimeType.split('/')[1] || 'png'}`);
+        } else {
+            // Several input images go in the image[] array (gpt-image-1); single-image models reject this
+            form.append('image[]', sourceBlob, `source.${mimeType.split('/')[1] || 'png'}`);
+            for (const [i, ref] of references.entries()) {
+                form.append('image[]', await (await fetch(ref.imageUrl)).blob(), `reference-${i + 1}-${ref.role}.png`);
+            }
+        }
+        if (options.mask) {
+            form.append('mask', await toTransparentMask(options.mask), 'mask.png');
+        }
+        form.append('response_format', 'b64_json');
+
+        const response = await fetch(`${baseUrl}/images/edits`, {
+            method: 'POST',
+            headers: headers(false),
+            body: form,
+            signal: options.signal,
+        });
+        if (!response.ok) {
+            throw errorFromStatus(response.status, await response.text());
+        }
+        const data = await response.json();
+        options.onUsage?.({
+            model: settings.openAiImageModel,
+            inputTokens: data?.usage?.input_tokens ?? 0,
+            outputTokens: data?.usage?.output_tokens ?? 0,
+        });
+        const base64ImageBytes: string | undefined = data?.data?.[0]?.b64_json;
+        if (base64ImageBytes) {
+            return {
+                imageUrl: `data:image/png;base64,${base64ImageBytes}`,
+                executedPrompt: fullPrompt
+            };
+        }
+
+        throw new ServiceError('malformed-response', "No image generated.");
+    }
+
+    async function generateCreativeTitle(prompt: string, modifiers: string[], options: RequestOptions = {}): Promise<string> {
+        const content = await chat(settings.openAiTextModel, [
+            { role: 'user', content: buildTitlePrompt(prompt, modifiers) },
+        ], false, options);
+        return content.trim().replace(/^"|"$/g, '') || FALLBACK_TITLE;
+    }
+
+    async function extractStylesFromText(promptText: string, options: StructuredRequestOptions = {}): Promise<unknown> {
+        const content = await chat(settings.openAiTextModel, [
+            { role: 'system', content: `${EXTRACTION_SYSTEM_INSTRUCTION}\n\n${EXTRACTION_JSON_HINT}` },
+            { role: 'user', content: options.repairHint ? `${buildExtractionPrompt(promptText)}\n\n${options.repairHint}` : buildExtractionPrompt(promptText) },
+        ], true, options);
+
+        const jsonText = stripCodeFence(content);
+        try {
+            return JSON.parse(jsonText);
+        } catch (e) {
+            console.error("Failed to parse extraction JSON:", jsonText);
+            throw new ServiceError('malformed-response', "Received an invalid format from the API.");
+        }
+    }
+
+    return {
+        id: 'openai-compatible',
+        label: 'OpenAI-compatible',
+        imageModel: settings.openAiImageModel || 'none',
+        visionModel: settings.openAiVisionModel,
+        textModel: settings.openAiTextModel,
+        analyzeImageStyle,
+        editImage,
+        generateCreativeTitle,
+        extractStylesFromText,
+    };
+};
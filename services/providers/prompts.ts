@@ -0,0 +1,92 @@
+import { ReferenceImage, ReferenceRole } from '../../types';
+
+// Prompt text shared by every provider, so switching backends changes the model, not the instructions.
+
+export const ANALYSIS_USER_PROMPT = "Analyze this image and generate a creative art prompt for it.";
+
+export const getSystemInstruction = (intensity: number) => {
+    let instruction = `You are an expert AI art curator and prompt engineer. Your task is to analyze the input image and "reverse engineer" a high-quality text prompt for it.
+
+1.  **Analyze the Visuals:** Identify the art style, medium (oil, digital, photo, etc.), artist influence, color palette, and lighting.
+2.  **Describe the Subject:** Describe the subject matter with artistic flair.
+3.  **Synthesize (The Creative Prompt):** Combine the subject description and the style analysis into a single, flowing, evocative paragraph.`;
+
+    // LEVEL 1: Enhanced Standard (Beefed Up)
+    if (intensity === 1) {
+        instruction += `\n\n**Level 1 (Deep Atmosphere):** Do not be robotic. Focus heavily on the *atmosphere* and *lighting techniques*. Use descriptive adjectives (e.g., "glinting", "diffused", "vibrant", "melancholic", "stark"). Describe the lighting in detail (e.g., "backlit", "softbox", "natural light").`;
+    }
+    // LEVEL 2: Creative Flourish
+    else if (intensity === 2) {
+        instruction += `\n\n**Level 2 (Creative Embellishment):** Embellish the description with creative flourishes. Describe movement, flow, and exaggerated forms that might not be strictly literal but capture the *feeling* (e.g., 'tendrils extending to the sky', 'hair shining like raven feathers', 'eyes glowing with ancient wisdom'). Make it dramatic, poetic, and interpretative.`;
+    }
+    // LEVEL 3: SOTA & Artist Inference
+    else if (intensity >= 3) {
+        instruction += `\n\n**Level 3 (SOTA & Artist Inference):** Take it to the extreme.
+        - **Technical Specs:** You MUST invent plausible high-end technical details: Camera lenses (e.g., '85mm f/1.8', 'macro'), rendering engines (e.g., 'Octane Render', 'Unreal Engine 5'), and advanced lighting terms (e.g., 'subsurface scattering', 'chromatic aberration', 'volumetric fog', 'ray tracing').
+        - **Artist Inference:** You **MUST** detect and explicitly name the specific artist style best suited for this subject based on the image inflection. (e.g., If biomechanical, use "in the style of HR Giger"; if surrealist, use "Salvador Dali"; if baroque light, use "Rembrandt").
+        - **Hyper-Detail:** The prompt should be dense, sophisticated, and suitable for a top-tier generative AI model.`;
+    }
+
+    instruction += `\n\nOutput the result in JSON format containing both the structured metadata and this creative prompt.`;
+    return instruction;
+};
+
+// Backends without structured output support get the shape spelled out in the prompt instead
+export const ANALYSIS_JSON_HINT = `Respond with a single JSON object and nothing else, using exactly these keys:
+{"style": string, "artist": string, "techniques": string[], "colorPalette": string[], "composition": string[], "mood": string, "creativePrompt": string}`;
+
+export const EXTRACTION_SYSTEM_INSTRUCTION = `
+    You are a Style Distiller. Your job is to extract pure stylistic and technical keywords from a long, complex art prompt.
+
+    CRITICAL RULES:
+    1. **IGNORE SUBJECTS:** Do not extract words describing WHO or WHAT is in the image (e.g., ignore "woman", "cyborg", "cat", "city", "forest").
+    2. **IGNORE COMPOSITION:** Do not extract words describing framing or angles (e.g., ignore "wide shot", "portrait").
+    3. **EXTRACT ONLY:**
+       - Lighting (e.g., volumetric, rim light, subsurface scattering)
+       - Medium (e.g., oil paint, unreal engine 5, polaroid)
+       - Textures (e.g., grunge, chrome, fluffy)
+       - Techniques/Styles (e.g., cyberpunk, impressionist, ray tracing, uncanny valley)
+    4. **Goal:** Create a list of tags that could be applied to a DIFFERENT subject to give it the same "look and feel".
+    `;
+
+export const EXTRACTION_JSON_HINT = `Respond with a single JSON object and nothing else, using exactly these keys:
+{"lighting": string[], "medium": string[], "textures": string[], "techniques": string[], "vibe": string[]}`;
+
+// Sent along with a re-request when the previous structured response couldn't be used
+export const buildRepairPrompt = (issues: string[]) =>
+    `Your previous response could not be used: ${issues.join(' ')} Respond again with the complete JSON object, fixing these problems.`;
+
+export const buildExtractionPrompt = (promptText: string) => `Extract the style DNA from this prompt: "${promptText}"`;
+
+export const buildEditPrompt = (prompt: string, modifiers: string[]) => {
+    const modifierString = modifiers.length > 0
+        ? `Apply the following artistic styles and techniques: ${modifiers.join(', ')}.`
+        : '';
+    return `${prompt}. ${modifierString} Maintain the core composition of the source image but transform it based on the description.`;
+};
+
+export const MASK_INSTRUCTION = "The second image is a mask. Only change the regions that are white in the mask; keep every black region of the source image exactly as it is.";
+
+const ROLE_INSTRUCTIONS: Record<ReferenceRole, string> = {
+    content: "a content reference: bring its subject matter and objects into the result",
+    style: "a style reference: adopt its palette, lighting, medium, brushwork and texture, but none of its subject matter",
+    character: "a character reference: the main character in the result must be this same character, with the same face, build, hair and outfit",
+};
+
+const describeWeight = (weight: number) => {
+    const strength = weight >= 0.8 ? 'closely' : weight >= 0.5 ? 'moderately' : 'loosely';
+    return `follow it ${strength} (weight ${Math.round(weight * 100)}%)`;
+};
+
+/** Explains each reference image by its position in the request; firstImageNumber is 1-based. */
+export const buildReferenceInstructions = (references: ReferenceImage[], firstImageNumber: number) => [
+    "Image 1 is the source image to transform.",
+    ...references.map((ref, i) => `Image ${firstImageNumber + i} is ${ROLE_INSTRUCTIONS[ref.role]}; ${describeWeight(ref.weight)}.`),
+].join(' ');
+
+export const buildTitlePrompt = (prompt: string, modifiers: string[]) => {
+    const input = `Prompt: ${prompt}, Styles: ${modifiers.join(', ')}`;
+    return `Generate a short, punchy, creative title (maximum 5 words) for an artwork created with this description: "${input}". Return ONLY the title, no quotes.`;
+};
+
+export const FALLBACK_TITLE = "Untitled Masterpiece";
@@ -0,0 +1,129 @@
+import { AnalysisResult, StyleExtractionResult } from '../types';
+
+// Runtime checks for the JSON the models send back. Structured output modes and JSON hints make
+// the right shape likely, not guaranteed, so everything is checked and normalized before the UI
+// sees it. Fixable problems are repaired in place; the rest make the payload unusable.
+
+export interface ValidationReport<T> {
+    value: T | null; // Null when the payload can't be used even after normalizing
+    issues: string[];
+}
+
+const MAX_TAG_LENGTH = 60;
+const MAX_FIELD_LENGTH = 200;
+const MAX_PROMPT_LENGTH = 4000;
+const MAX_TAGS = 12;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const truncate = (text: string, max: number) => text.length > max ? `${text.slice(0, max - 1).trimEnd()}…` : text;
+
+// Collects issues while reading fields, so each check can stay a one-liner
+const createReader = (source: Record<string, unknown>) => {
+    const state = { issues: [] as string[], fatal: false };
+
+    const text = (key: string, maxLength: number): string => {
+        let value = source[key];
+        if (typeof value === 'number') value = String(value);
+        // Some models answer a single-value field with a one-element list
+        if (Array.isArray(value) && value.every(v => typeof v === 'string')) {
+            state.issues.push(`"${key}" was a list; joined it into text.`);
+            value = value.join(', ');
+        }
+        if (typeof value !== 'string' || !value.trim()) {
+            state.issues.push(value === undefined ? `"${key}" is missing.` : `"${key}" is empty or not text.`);
+            state.fatal = true;
+            return '';
+        }
+        const trimmed = value.trim().replace(/\s+/g, ' ');
+        if (trimmed.length > maxLength) state.issues.push(`"${key}" was longer than ${maxLength} characters; shortened it.`);
+        return truncate(trimmed, maxLength);
+    };
+
+    const tags = (key: string, required: boolean): string[] => {
+        let value = source[key];
+        if (value === undefined) {
+            state.issues.push(`"${key}" is missing.`);
+            if (required) state.fatal = true;
+            return [];
+        }
+        if (typeof value === 'string') {
+            state.issues.push(`"${key}" was text instead of a list; split it on commas.`);
+            value = value.split(',');
+        }
+        if (!Array.isArray(value)) {
+            state.issues.push(`"${key}" is not a list.`);
+            if (required) state.fatal = true;
+            return [];
+        }
+
+        const seen = new Set<string>();
+        const kept: string[] = [];
+        let dropped = 0;
+        let duplicates = 0;
+        let shortened = 0;
+        for (const entry of value) {
+            const tag = typeof entry === 'string' || typeof entry === 'number' ? String(entry).trim().replace(/\s+/g, ' ') : '';
+            if (!tag) {
+                dropped++;
+                continue;
+            }
+            const normalized = tag.toLowerCase();
+            if (seen.has(normalized)) {
+                duplicates++;
+                continue;
+            }
+            seen.add(normalized);
+            if (tag.length > MAX_TAG_LENGTH) shortened++;
+            kept.push(truncate(tag, MAX_TAG_LENGTH));
+        }
+        if (dropped) state.issues.push(`Removed ${dropped} empty or non-text tag${dropped === 1 ? '' : 's'} from "${key}".`);
+        if (duplicates) state.issues.push(`Removed ${duplicates} duplicate tag${duplicates === 1 ? '' : 's'} from "${key}".`);
+        if (shortened) state.issues.push(`Shortened ${shortened} tag${shortened === 1 ? '' : 's'} in "${key}" to ${MAX_TAG_LENGTH} characters.`);
+        if (kept.length > MAX_TAGS) state.issues.push(`"${key}" had ${kept.length} tags; kept the first ${MAX_TAGS}.`);
+        if (kept.length === 0 && required) {
+            state.issues.push(`"${key}" has no usable tags.`);
+            state.fatal = true;
+        }
+        return kept.slice(0, MAX_TAGS);
+    };
+
+    return { state, text, tags };
+};
+
+const notAnObject = (raw: unknown) => ({ value: null, issues: [`Expected a JSON object but got ${Array.isArray(raw) ? 'a list' : typeof raw}.`] });
+
+export const validateAnalysis = (raw: unknown): ValidationReport<AnalysisResult> => {
+    if (!isRecord(raw)) return notAnObject(raw);
+    const read = createReader(raw);
+    const result: AnalysisResult = {
+        style: read.text('style', MAX_FIELD_LENGTH),
+        artist: read.text('artist', MAX_FIELD_LENGTH),
+        techniques: read.tags('techniques', true),
+        colorPalette: read.tags('colorPalette', true),
+        composition: read.tags('composition', true),
+        mood: read.text('mood', MAX_FIELD_LENGTH),
+        creativePrompt: read.text('creativePrompt', MAX_PROMPT_LENGTH),
+    };
+    return { value: read.state.fatal ? null : result, issues: read.state.issues };
+};
+
+export const validateExtraction = (raw: unknown): ValidationReport<StyleExtractionResult> => {
+    if (!isRecord(raw)) return notAnObject(raw);
+    const read = createReader(raw);
+    // A category can legitimately be empty (a prompt may not mention lighting at all)
+    const result: StyleExtractionResult = {
+        lighting: read.tags('lighting', false),
+        medium: read.tags('medium', false),
+        textures: read.tags('textures', false),
+        techniques: read.tags('techniques', false),
+        vibe: read.tags('vibe', false),
+    };
+    const total = result.lighting.length + result.medium.length + result.textures.length + result.techniques.length + result.vibe.length;
+    if (total === 0) {
+        read.state.issues.push("No style tags were extracted at all.");
+        read.state.fatal = true;
+    }
+    return { value: read.state.fatal ? null : result, issues: read.state.issues };
+};
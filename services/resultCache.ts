@@ -0,0 +1,62 @@
+import { CachedResult, ValidatedResult } from '../types';
+import { deleteCachedResults, getCachedResult, loadCachedResults, saveCachedResult } from './storageService';
+
+// Local cache of validated analysis and distillation results. Entries are keyed by a SHA-256
+// of the exact input (image bytes or prompt text) plus everything else that shapes the
+// response: provider, model and scan intensity. The cache is best-effort: a storage failure
+// is logged and the call simply goes to the provider.
+
+export const MAX_CACHE_ENTRIES = 200;
+
+const encoder = new TextEncoder();
+
+const sha256Hex = async (bytes: Uint8Array): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', bytes);
+    return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const base64ToBytes = (base64: string): Uint8Array => {
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return bytes;
+};
+
+export const analysisCacheKey = async (base64ImageData: string, providerId: string, model: string, intensity: number) =>
+    `analysis:${await sha256Hex(base64ToBytes(base64ImageData))}:${providerId}:${model}:${intensity}`;
+
+export const distillCacheKey = async (promptText: string, providerId: string, model: string) =>
+    `distill:${await sha256Hex(encoder.encode(promptText))}:${providerId}:${model}`;
+
+export async function readCache<T>(key: string): Promise<ValidatedResult<T> | null> {
+    try {
+        const entry = await getCachedResult(key);
+        if (!entry) return null;
+        saveCachedResult({ ...entry, lastUsed: Date.now() })
+            .catch(e => console.warn("Failed to touch cache entry", e));
+        return { result: entry.result as T, issues: entry.issues, cachedAt: entry.timestamp };
+    } catch (e) {
+        console.warn("Result cache unavailable", e);
+        return null;
+    }
+}
+
+const evictLeastRecentlyUsed = async () => {
+    const entries = await loadCachedResults();
+    if (entries.length <= MAX_CACHE_ENTRIES) return;
+    const stale = entries
+        .sort((a, b) => b.lastUsed - a.lastUsed)
+        .slice(MAX_CACHE_ENTRIES)
+        .map(entry => entry.id);
+    await deleteCachedResults(stale);
+};
+
+export async function writeCache<T>(key: string, kind: CachedResult['kind'], value: ValidatedResult<T>): Promise<void> {
+    try {
+        const now = Date.now();
+        await saveCachedResult({ id: key, kind, result: value.result, issues: value.issues, timestamp: now, lastUsed: now });
+        await evictLeastRecentlyUsed();
+    } catch (e) {
+        console.warn("Failed to cache result", e);
+    }
+}
@@ -0,0 +1,168 @@
+// Spec-compliant text serializers. Every export in the app goes through these instead of
+// string templates, so quotes, newlines and other special characters always round-trip.
+
+export type Scalar = string | number | boolean;
+export type SerializableValue = Scalar | null | undefined | SerializableValue[] | { [key: string]: SerializableValue };
+export type SerializableRecord = { [key: string]: SerializableValue };
+
+// Domain interfaces (AnalysisResult, GeneratedItem, ...) have no index signature, so the public
+// entry points accept any plain object and narrow it here
+const asRecord = (value: object) => value as SerializableRecord;
+
+const isRecord = (value: SerializableValue): value is SerializableRecord =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// --- JSON ---
+
+export const toJson = (value: object | SerializableValue, indent: number = 2): string => JSON.stringify(value, null, indent);
+
+// --- TOML (v1.0.0) ---
+
+const TOML_ESCAPES: Record<string, string> = {
+    '"': '\\"', '\\': '\\\\', '\b': '\\b', '\t': '\\t', '\n': '\\n', '\f': '\\f', '\r': '\\r',
+};
+
+const tomlString = (value: string) =>
+    '"' + value.replace(/["\\\u0000-\u001f\u007f]/g, ch =>
+        TOML_ESCAPES[ch] ?? `\\u${ch.charCodeAt(0).toString(16).padStart(4, '0')}`
+    ) + '"';
+
+const tomlKey = (key: string) => /^[A-Za-z0-9_-]+$/.test(key) ? key : tomlString(key);
+
+const tomlInline = (value: SerializableValue): string => {
+    if (typeof value === 'string') return tomlString(value);
+    if (typeof value === 'boolean') return value ? 'true' : 'false';
+    if (typeof value === 'number') {
+        if (Number.isNaN(value)) return 'nan';
+        if (!Number.isFinite(value)) return value > 0 ? 'inf' : '-inf';
+        return String(value);
+    }
+    if (Array.isArray(value)) return `[${value.filter(v => v != null).map(tomlInline).join(', ')}]`;
+    if (isRecord(value)) {
+        const entries = Object.entries(value).filter(([, v]) => v != null);
+        return entries.length ? `{ ${entries.map(([k, v]) => `${tomlKey(k)} = ${tomlInline(v)}`).join(', ')} }` : '{}';
+    }
+    return '""';
+};
+
+const isArrayOfTables = (value: SerializableValue): value is SerializableRecord[] =>
+    Array.isArray(value) && value.length > 0 && value.every(isRecord);
+
+const tomlTable = (record: SerializableRecord, path: string[]): string[] => {
+    const lines: string[] = [];
+    const entries = Object.entries(record).filter(([, v]) => v != null);
+
+    // TOML requires plain key/value pairs before any sub-table of the same table
+    for (const [key, value] of entries) {
+        if (!isRecord(value) && !isArrayOfTables(value)) {
+            lines.push(`${tomlKey(key)} = ${tomlInline(value)}`);
+        }
+    }
+    for (const [key, value] of entries) {
+        const childPath = [...path, tomlKey(key)];
+        if (isRecord(value)) {
+            lines.push('', `[${childPath.join('.')}]`, ...tomlTable(value, childPath));
+        } else if (isArrayOfTables(value)) {
+            for (const table of value) {
+                lines.push('', `[[${childPath.join('.')}]]`, ...tomlTable(table, childPath));
+            }
+        }
+    }
+    return lines;
+};
+
+export const toToml = (record: object): string => tomlTable(asRecord(record), []).join('\n').trim() + '\n';
+
+// --- YAML (1.2) ---
+
+// Plain scalars are only safe when they cannot be read back as another type or structure
+const yamlNeedsQuotes = (value: string) =>
+    value === '' ||
+    /^[\s\-?:,[\]{}#&*!|>'"%@`]/.test(value) ||
+    /[:#]\s|\s#|:$|\s$/.test(value) ||
+    /[\u0000-\u001f\u007f]/.test(value) ||
+    /^(true|false|yes|no|on|off|null|~|y|n)$/i.test(value) ||
+    /^[-+]?(\d[\d_]*(\.\d*)?([eE][-+]?\d+)?|\.\d+|\.inf|\.nan|0x[\da-fA-F]+|0o[0-7]+)$/i.test(value);
+
+// A JSON string literal is also a valid YAML double-quoted scalar
+const yamlScalar = (value: Scalar | null | undefined): string => {
+    if (value == null) return 'null';
+    if (typeof value === 'string') return yamlNeedsQuotes(value) ? JSON.stringify(value) : value;
+    if (typeof value === 'number' && !Number.isFinite(value)) return Number.isNaN(value) ? '.nan' : value > 0 ? '.inf' : '-.inf';
+    return String(value);
+};
+
+const yamlLines = (value: SerializableValue, indent: string): string[] => {
+    if (Array.isArray(value)) {
+        if (value.length === 0) return ['[]'];
+        return value.flatMap(item => {
+            const inner = yamlLines(item, indent + '  ');
+            const nested = (isRecord(item) && Object.keys(item).length > 0) || (Array.isArray(item) && item.length > 0);
+            return nested
+                ? [`${indent}- ${inner[0].trimStart()}`, ...inner.slice(1)]
+                : [`${indent}- ${inner[0]}`];
+        });
+    }
+    if (isRecord(value)) {
+        const entries = Object.entries(value);
+        if (entries.length === 0) return ['{}'];
+        return entries.flatMap(([key, item]) => {
+            const label = `${indent}${yamlScalar(key)}:`;
+            const nested = (isRecord(item) && Object.keys(item).length > 0) || (Array.isArray(item) && item.length > 0);
+            if (!nested) return [`${label} ${yamlLines(item, indent)[0]}`];
+            return [label, ...yamlLines(item, indent + '  ')];
+        });
+    }
+    return [yamlScalar(value)];
+};
+
+export const toYaml = (value: object | SerializableValue): string =>
+    yamlLines(value as SerializableValue, '').join('\n') + '\n';
+
+// --- CSV (RFC 4180) ---
+
+export const csvCell = (value: SerializableValue): string => {
+    const text = Array.isArray(value)
+        ? value.map(v => (v == null ? '' : typeof v === 'object' ? JSON.stringify(v) : String(v))).join('; ')
+        : value == null ? '' : isRecord(value) ? JSON.stringify(value) : String(value);
+    // Quote when the cell contains a delimiter, quote or line break; double embedded quotes
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: object[], columns?: string[]): string => {
+    const records = rows.map(asRecord);
+    const header = columns ?? Array.from(new Set(records.flatMap(row => Object.keys(row))));
+    return [
+        header.map(csvCell).join(','),
+        ...records.map(row => header.map(col => csvCell(row[col])).join(',')),
+    ].join('\r\n') + '\r\n';
+};
+
+// --- Markdown ---
+
+export interface MarkdownSection {
+    heading: string;
+    content: string | string[]; // Paragraph text, or a bullet list
+}
+
+// Escape characters that would otherwise start emphasis, code, links, tables or HTML,
+// plus line-leading markers that would turn text into headings or lists
+export const markdownEscape = (text: string) =>
+    text
+        .replace(/([\\`*_[\]<>|~])/g, '\\$1')
+        .replace(/^(\s*)([#+-])(?=\s|$)/gm, '$1\\$2')
+        .replace(/^(\s*\d+)\.(?=\s|$)/gm, '$1\\.');
+
+export const toMarkdown = (title: string, sections: MarkdownSection[]): string => {
+    const lines = [`# ${markdownEscape(title)}`];
+    for (const section of sections) {
+        lines.push('', `## ${markdownEscape(section.heading)}`, '');
+        if (Array.isArray(section.content)) {
+            lines.push(...(section.content.length ? section.content.map(item => `- ${markdownEscape(item)}`) : ['_None_']));
+        } else {
+            // Two trailing spaces keep intentional line breaks inside a paragraph
+            lines.push(markdownEscape(section.content).split('\n').join('  \n') || '_None_');
+        }
+    }
+    return lines.join('\n') + '\n';
+};
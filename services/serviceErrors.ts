@@ -0,0 +1,164 @@
+// Typed failures for every AI provider call, plus the retry and timeout policy around them.
+
+export type ServiceErrorKind =
+    | 'missing-key'
+    | 'invalid-key'
+    | 'config'
+    | 'rate-limit'
+    | 'safety'
+    | 'malformed-response'
+    | 'network'
+    | 'timeout'
+    | 'cancelled'
+    | 'budget'
+    | 'server'
+    | 'unknown';
+
+const RETRYABLE_KINDS: ServiceErrorKind[] = ['rate-limit', 'network', 'timeout', 'server'];
+
+const USER_MESSAGES: Record<ServiceErrorKind, string> = {
+    'missing-key': "No API key is configured. Set GEMINI_API_KEY in .env.local for Gemini, or choose another provider in AI Provider settings.",
+    'invalid-key': "The API key was rejected. Check that it is correct and has access to this model.",
+    'config': "The AI provider is not fully configured. Check the AI Provider settings.",
+    'rate-limit': "Rate limit or quota exceeded. Wait a minute before retrying, or check your plan's quota.",
+    'safety': "The request was blocked by the model's safety filters. Try rephrasing the prompt or using a different image.",
+    'malformed-response': "The model returned a response that couldn't be read. Please try again.",
+    'network': "Couldn't reach the AI service. Check your internet connection and the provider URL.",
+    'timeout': "The request took too long and timed out. Please try again, or raise the timeout in AI Provider settings.",
+    'cancelled': "Request cancelled.",
+    'budget': "The usage budget cap has been reached. Raise or remove it in the Usage panel to keep going.",
+    'server': "The AI service is having problems right now. Please try again shortly.",
+    'unknown': "Something went wrong while talking to the AI service.",
+};
+
+export class ServiceError extends Error {
+    readonly kind: ServiceErrorKind;
+    readonly status?: number;
+    readonly issues: string[]; // Validation problems behind a 'malformed-response'
+
+    constructor(kind: ServiceErrorKind, message: string, status?: number, issues: string[] = []) {
+        super(message);
+        this.name = 'ServiceError';
+        this.kind = kind;
+        this.status = status;
+        this.issues = issues;
+    }
+
+    get retryable(): boolean {
+        return RETRYABLE_KINDS.includes(this.kind);
+    }
+
+    /** Actionable text for the UI; configuration and budget errors already carry their own. */
+    get userMessage(): string {
+        if (this.kind === 'config') return this.message;
+        if (this.kind === 'budget') return `${this.message} ${USER_MESSAGES.budget}`;
+        return this.issues.length > 0 ? `${USER_MESSAGES[this.kind]} Problems: ${this.issues.join(' ')}` : USER_MESSAGES[this.kind];
+    }
+}
+
+/** Maps an HTTP status (and the response body, for providers that reuse 400) to a typed error. */
+export const errorFromStatus = (status: number, detail: string): ServiceError => {
+    const message = `Provider request failed (${status}): ${detail}`;
+    if (status === 401 || status === 403 || /API_KEY_INVALID|API key not valid|invalid_api_key/i.test(detail)) {
+        return new ServiceError('invalid-key', message, status);
+    }
+    if (status === 429 || /RESOURCE_EXHAUSTED|rate limit|quota/i.test(detail)) {
+        return new ServiceError('rate-limit', message, status);
+    }
+    if (status === 408 || status === 504) return new ServiceError('timeout', message, status);
+    if (status >= 500) return new ServiceError('server', message, status);
+    if (/safety|content_policy|moderation|blocked/i.test(detail)) return new ServiceError('safety', message, status);
+    return new ServiceError('unknown', message, status);
+};
+
+/** Normalizes anything thrown by a provider, SDK or fetch into a ServiceError. */
+export function toServiceError(error: unknown): ServiceError {
+    if (error instanceof ServiceError) return error;
+    const message = error instanceof Error ? error.message : String(error);
+
+    if (error instanceof DOMException && error.name === 'TimeoutError') {
+        return new ServiceError('timeout', message);
+    }
+    if (error instanceof DOMException && error.name === 'AbortError') {
+        return new ServiceError('cancelled', message);
+    }
+    // fetch() rejects with a TypeError when the request never got a response
+    if (error instanceof TypeError && /fetch|network|load failed/i.test(message)) {
+        return new ServiceError('network', message);
+    }
+    // The Gemini SDK reports HTTP failures as "got status: 429 Too Many Requests. {...}"
+    const sdkStatus = message.match(/got status: (\d{3})/);
+    if (sdkStatus) return errorFromStatus(Number(sdkStatus[1]), message);
+
+    return new ServiceError('unknown', message);
+}
+
+/** UI text for a failed call: the typed message when there is one, else the caller's fallback. */
+export const getErrorMessage = (error: unknown, fallback: string): string => {
+    const typed = toServiceError(error);
+    return typed.kind === 'unknown' ? fallback : typed.userMessage;
+};
+
+export const isCancelled = (error: unknown) => toServiceError(error).kind === 'cancelled';
+
+export interface RetryOptions {
+    retries?: number; // Extra attempts after the first
+    baseDelayMs?: number;
+    maxDelayMs?: number;
+    signal?: AbortSignal; // Stops retrying (and waiting) once aborted
+}
+
+const cancelledError = () => new ServiceError('cancelled', "Request cancelled.");
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(cancelledError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * A signal that fires when the caller's signal does, or with a TimeoutError after `timeoutMs`.
+ * Call `clear` once the request settles so the timer doesn't linger.
+ */
+export const withTimeout = (signal: AbortSignal | undefined, timeoutMs: number): { signal: AbortSignal; clear: () => void } => {
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal?.reason);
+    if (signal?.aborted) onAbort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+    const timer = setTimeout(() => controller.abort(new DOMException(`Request timed out after ${Math.round(timeoutMs / 1000)}s`, 'TimeoutError')), timeoutMs);
+    return {
+        signal: controller.signal,
+        clear: () => {
+            clearTimeout(timer);
+            signal?.removeEventListener('abort', onAbort);
+        },
+    };
+};
+
+/**
+ * Runs the operation, retrying transient failures with exponential backoff. Half of each
+ * delay is random ("equal jitter") so parallel callers, like the batch queue, spread out.
+ */
+export async function withRetry<T>(operation: () => Promise<T>, options: RetryOptions = {}): Promise<T> {
+    const { retries = 3, baseDelayMs = 1000, maxDelayMs = 16000, signal } = options;
+    for (let attempt = 0; ; attempt++) {
+        if (signal?.aborted) throw cancelledError();
+        try {
+            return await operation();
+        } catch (e) {
+            // Whatever the abort surfaced as (SDK wrapper, fetch error), the caller cancelled
+            const error = signal?.aborted ? cancelledError() : toServiceError(e);
+            if (!error.retryable || attempt >= retries) throw error;
+            const cap = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+            const delay = cap / 2 + Math.random() * (cap / 2);
+            console.warn(`${error.kind} error, retrying in ${Math.round(delay)}ms (attempt ${attempt + 1}/${retries})`, error.message);
+            await sleep(delay, signal);
+        }
+    }
+}
@@ -0,0 +1,183 @@
+import { CachedResult, GeneratedItem, SavedAnalysis, SavedExtraction, StorageUsage, StylePreset, WildcardList } from '../types';
+import { DEFAULT_PRESETS } from './presetService';
+
+// Local persistence layer. Base64 images quickly exceed the ~5MB localStorage limit,
+// so everything lives in IndexedDB instead.
+
+const DB_NAME = 'art-style-scanner';
+const DB_VERSION = 4;
+
+const STORES = {
+    history: 'history',
+    analyses: 'analyses',
+    extractions: 'extractions',
+    presets: 'presets',
+    wildcards: 'wildcards',
+    cache: 'cache',
+} as const;
+
+type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') {
+                reject(new Error("IndexedDB is not available in this browser."));
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                for (const name of Object.values(STORES)) {
+                    if (!db.objectStoreNames.contains(name)) {
+                        const store = db.createObjectStore(name, { keyPath: 'id' });
+                        // Seed the preset library once, when its store is first created
+                        if (name === STORES.presets) DEFAULT_PRESETS.forEach(preset => store.put(preset));
+                    }
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        // Allow a later call to retry if opening failed (e.g. private mode quirks)
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+};
+
+const runRequest = async <T>(
+    storeName: StoreName,
+    mode: IDBTransactionMode,
+    action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+    const db = await openDb();
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction(storeName, mode);
+        const request = action(tx.objectStore(storeName));
+        tx.oncomplete = () => resolve(request.result);
+        tx.onerror = () => reject(tx.error || request.error);
+        tx.onabort = () => reject(tx.error || new Error("Storage transaction aborted."));
+    });
+};
+
+const getAllSorted = async <T extends { timestamp: number }>(storeName: StoreName): Promise<T[]> => {
+    const items = await runRequest<T[]>(storeName, 'readonly', store => store.getAll());
+    // Newest first, matching how the UI renders history
+    return items.sort((a, b) => b.timestamp - a.timestamp);
+};
+
+// --- History ---
+
+export const loadHistory = () => getAllSorted<GeneratedItem>(STORES.history);
+
+export const saveHistoryItem = (item: GeneratedItem) =>
+    runRequest(STORES.history, 'readwrite', store => store.put(item)).then(() => undefined);
+
+export const deleteHistoryItem = (id: string) =>
+    runRequest(STORES.history, 'readwrite', store => store.delete(id));
+
+// --- Analyses ---
+
+export const loadAnalyses = () => getAllSorted<SavedAnalysis>(STORES.analyses);
+
+export const saveAnalysis = (analysis: SavedAnalysis) =>
+    runRequest(STORES.analyses, 'readwrite', store => store.put(analysis)).then(() => undefined);
+
+export const deleteAnalysis = (id: string) =>
+    runRequest(STORES.analyses, 'readwrite', store => store.delete(id));
+
+// --- Style Extractions ---
+
+export const loadExtractions = () => getAllSorted<SavedExtraction>(STORES.extractions);
+
+export const saveExtraction = (extraction: SavedExtraction) =>
+    runRequest(STORES.extractions, 'readwrite', store => store.put(extraction)).then(() => undefined);
+
+export const deleteExtraction = (id: string) =>
+    runRequest(STORES.extractions, 'readwrite', store => store.delete(id));
+
+// --- Style Presets ---
+
+export const loadPresets = () => runRequest<StylePreset[]>(STORES.presets, 'readonly', store => store.getAll());
+
+export async function savePresets(presets: StylePreset[]): Promise<void> {
+    const db = await openDb();
+    await new Promise<void>((resolve, reject) => {
+        const tx = db.transaction(STORES.presets, 'readwrite');
+        const store = tx.objectStore(STORES.presets);
+        presets.forEach(preset => store.put(preset));
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error || new Error("Storage transaction aborted."));
+    });
+}
+
+export const deletePreset = (id: string) =>
+    runRequest(STORES.presets, 'readwrite', store => store.delete(id));
+
+// --- Wildcard word lists ---
+
+export const loadWildcards = () => getAllSorted<WildcardList>(STORES.wildcards);
+
+export const saveWildcard = (list: WildcardList) =>
+    runRequest(STORES.wildcards, 'readwrite', store => store.put(list)).then(() => undefined);
+
+export const deleteWildcard = (id: string) =>
+    runRequest(STORES.wildcards, 'readwrite', store => store.delete(id));
+
+// --- Result cache ---
+
+export const getCachedResult = (id: string) =>
+    runRequest<CachedResult | undefined>(STORES.cache, 'readonly', store => store.get(id));
+
+export const saveCachedResult = (entry: CachedResult) =>
+    runRequest(STORES.cache, 'readwrite', store => store.put(entry)).then(() => undefined);
+
+export const loadCachedResults = () => runRequest<CachedResult[]>(STORES.cache, 'readonly', store => store.getAll());
+
+export async function deleteCachedResults(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    const db = await openDb();
+    await new Promise<void>((resolve, reject) => {
+        const tx = db.transaction(STORES.cache, 'readwrite');
+        const store = tx.objectStore(STORES.cache);
+        ids.forEach(id => store.delete(id));
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error || new Error("Storage transaction aborted."));
+    });
+}
+
+export const clearCachedResults = () =>
+    runRequest(STORES.cache, 'readwrite', store => store.clear()).then(() => undefined);
+
+// --- Maintenance ---
+
+// Presets and word lists are curated by hand and shared between people, so "clear storage" leaves them alone
+const CLEARABLE_STORES: StoreName[] = [STORES.history, STORES.analyses, STORES.extractions, STORES.cache];
+
+export async function clearAllStoredData(): Promise<void> {
+    for (const name of CLEARABLE_STORES) {
+        await runRequest(name, 'readwrite', store => store.clear());
+    }
+}
+
+export async function getStorageUsage(): Promise<StorageUsage | null> {
+    if (!navigator.storage?.estimate) return null;
+    const { usage, quota } = await navigator.storage.estimate();
+    return { usedBytes: usage ?? 0, quotaBytes: quota ?? 0 };
+}
+
+export const formatBytes = (bytes: number): string => {
+    if (bytes < 1024) return `${bytes} B`;
+    const units = ['KB', 'MB', 'GB', 'TB'];
+    let value = bytes / 1024;
+    let unit = 0;
+    while (value >= 1024 && unit < units.length - 1) {
+        value /= 1024;
+        unit++;
+    }
+    return `${value.toFixed(1)} ${units[unit]}`;
+};
@@ -0,0 +1,78 @@
+import { AnalysisResult, StyleExtractionResult } from '../types';
+
+// Set comparison of two analyses or two Style DNA extractions, category by category.
+
+export interface CategoryDiff {
+    key: string;
+    label: string;
+    shared: string[];
+    onlyA: string[];
+    onlyB: string[];
+    overlap: number; // Jaccard index of the two tag sets, 0..1
+}
+
+export interface StyleDiff {
+    categories: CategoryDiff[];
+    overall: number; // Overlap across all tags of both sides, 0..1
+}
+
+// Tags are compared case- and whitespace-insensitively but reported as written on side A
+const normalize = (tag: string) => tag.trim().toLowerCase().replace(/\s+/g, ' ');
+
+export const diffTags = (key: string, label: string, a: string[], b: string[]): CategoryDiff => {
+    const bKeys = new Set(b.map(normalize));
+    const aKeys = new Set(a.map(normalize));
+    const unique = (tags: string[]) => tags.filter((tag, i) => tags.findIndex(t => normalize(t) === normalize(tag)) === i);
+
+    const shared = unique(a.filter(tag => bKeys.has(normalize(tag))));
+    const onlyA = unique(a.filter(tag => !bKeys.has(normalize(tag))));
+    const onlyB = unique(b.filter(tag => !aKeys.has(normalize(tag))));
+    const union = shared.length + onlyA.length + onlyB.length;
+    return { key, label, shared, onlyA, onlyB, overlap: union === 0 ? 1 : shared.length / union };
+};
+
+const summarize = (categories: CategoryDiff[]): StyleDiff => {
+    const shared = categories.reduce((sum, c) => sum + c.shared.length, 0);
+    const union = categories.reduce((sum, c) => sum + c.shared.length + c.onlyA.length + c.onlyB.length, 0);
+    return { categories, overall: union === 0 ? 1 : shared / union };
+};
+
+export const diffAnalyses = (a: AnalysisResult, b: AnalysisResult): StyleDiff => summarize([
+    diffTags('style', 'Style', [a.style], [b.style]),
+    diffTags('artist', 'Artist', [a.artist], [b.artist]),
+    diffTags('mood', 'Mood', [a.mood], [b.mood]),
+    diffTags('techniques', 'Techniques', a.techniques, b.techniques),
+    diffTags('colorPalette', 'Color Palette', a.colorPalette, b.colorPalette),
+    diffTags('composition', 'Composition', a.composition, b.composition),
+]);
+
+export const diffExtractions = (a: StyleExtractionResult, b: StyleExtractionResult): StyleDiff => summarize([
+    diffTags('lighting', 'Lighting', a.lighting, b.lighting),
+    diffTags('medium', 'Medium', a.medium, b.medium),
+    diffTags('textures', 'Textures', a.textures, b.textures),
+    diffTags('techniques', 'Techniques', a.techniques, b.techniques),
+    diffTags('vibe', 'Vibe', a.vibe, b.vibe),
+]);
+
+/**
+ * Merges both sides into one modifier set: shared tags first (they define the common ground),
+ * then each category's unique tags alternating between A and B so neither side dominates.
+ */
+export const blendModifiers = (diff: StyleDiff): string[] => {
+    const seen = new Set<string>();
+    const out: string[] = [];
+    const add = (tag: string) => {
+        if (!seen.has(normalize(tag))) {
+            seen.add(normalize(tag));
+            out.push(tag);
+        }
+    };
+    diff.categories.forEach(c => c.shared.forEach(add));
+    for (const c of diff.categories) {
+        for (let i = 0; i < Math.max(c.onlyA.length, c.onlyB.length); i++) {
+            if (c.onlyA[i]) add(c.onlyA[i]);
+            if (c.onlyB[i]) add(c.onlyB[i]);
+        }
+    }
+    return out;
+};
@@ -0,0 +1,62 @@
+import { AnalysisResult, StyleLock, StyleLockField } from '../types';
+
+// Style transfer: the analysis of one image (the "style lock") becomes the modifiers and
+// instruction for rendering another. Each analysis field can be switched off on its own.
+
+export const STYLE_LOCK_FIELDS: { key: StyleLockField; label: string }[] = [
+    { key: 'style', label: 'Style' },
+    { key: 'artist', label: 'Artist' },
+    { key: 'techniques', label: 'Techniques' },
+    { key: 'colorPalette', label: 'Palette' },
+    { key: 'mood', label: 'Mood' },
+    { key: 'composition', label: 'Composition' },
+];
+
+// Composition would fight the target image's own layout, so it starts switched off
+const DEFAULT_FIELDS: StyleLockField[] = ['style', 'artist', 'techniques', 'colorPalette', 'mood'];
+
+export const createStyleLock = (analysis: AnalysisResult, sourceImageUrl: string): StyleLock => ({
+    analysis,
+    sourceImageUrl,
+    fields: DEFAULT_FIELDS,
+});
+
+export const toggleStyleLockField = (lock: StyleLock, field: StyleLockField): StyleLock => ({
+    ...lock,
+    fields: lock.fields.includes(field) ? lock.fields.filter(f => f !== field) : [...lock.fields, field],
+});
+
+/** The list fields as modifiers, deduplicated against what the user already picked. */
+export const styleLockModifiers = (lock: StyleLock, existing: string[] = []): string[] => {
+    const { analysis, fields } = lock;
+    const tags = [
+        ...(fields.includes('techniques') ? analysis.techniques : []),
+        ...(fields.includes('colorPalette') ? analysis.colorPalette : []),
+        ...(fields.includes('composition') ? analysis.composition : []),
+    ];
+    const seen = new Set(existing.map(t => t.toLowerCase()));
+    return tags.filter(tag => {
+        const key = tag.toLowerCase();
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+    });
+};
+
+/** The instruction that goes ahead of the user's idea; empty when no describing field is on. */
+export const buildStyleTransferInstruction = (lock: StyleLock): string => {
+    const { analysis, fields } = lock;
+    const look = [
+        fields.includes('style') ? analysis.style : '',
+        fields.includes('artist') ? analysis.artist : '',
+    ].filter(Boolean).join(', ');
+    const parts = [
+        look ? `Re-render this image as ${look}.` : '',
+        fields.includes('mood') ? `Give it a ${analysis.mood.toLowerCase()} mood.` : '',
+    ].filter(Boolean);
+    if (parts.length === 0 && styleLockModifiers(lock).length === 0) return '';
+    const keep = fields.includes('composition')
+        ? "Keep this image's subject, but take its look and composition from the reference style."
+        : "Keep this image's subject and layout; take only the look from the reference style.";
+    return [...parts, keep].join(' ');
+};
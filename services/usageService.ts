@@ -0,0 +1,145 @@
+import { ModelPrice, UsageRecord, UsageSettings } from '../types';
+import { ServiceError } from './serviceErrors';
+import { toCsv } from './serializers';
+
+// Token usage and estimated cost of every AI call. The log lives in localStorage (it is small
+// and the budget check must be synchronous) and keeps a rolling window of recent days.
+
+const LOG_KEY = 'art-style-scanner:usage-log';
+const SETTINGS_KEY = 'art-style-scanner:usage-settings';
+const RETENTION_DAYS = 30;
+
+// List prices at the time of writing; edit them in the Usage panel to match your plan
+export const DEFAULT_PRICES: ModelPrice[] = [
+    { model: 'gemini-2.5-flash-image', inputPerMillion: 0.3, outputPerMillion: 30, perImage: 0 },
+    { model: 'gemini-2.5-flash', inputPerMillion: 0.3, outputPerMillion: 2.5, perImage: 0 },
+    { model: 'gpt-image-1', inputPerMillion: 10, outputPerMillion: 40, perImage: 0 },
+    { model: 'gpt-4o-mini', inputPerMillion: 0.15, outputPerMillion: 0.6, perImage: 0 },
+    { model: 'gpt-4o', inputPerMillion: 2.5, outputPerMillion: 10, perImage: 0 },
+    { model: 'dall-e-2', inputPerMillion: 0, outputPerMillion: 0, perImage: 0.02 },
+];
+
+const defaultSettings = (): UsageSettings => ({ prices: DEFAULT_PRICES, budgetCap: 0, budgetScope: 'day' });
+
+// Everything recorded after this moment belongs to the current session
+const SESSION_START = Date.now();
+
+let records: UsageRecord[] | null = null;
+let settings: UsageSettings | null = null;
+const listeners = new Set<() => void>();
+
+const readJson = <T>(key: string, fallback: T): T => {
+    try {
+        const stored = localStorage.getItem(key);
+        return stored ? JSON.parse(stored) : fallback;
+    } catch (e) {
+        console.error(`Failed to read ${key}`, e);
+        return fallback;
+    }
+};
+
+const writeJson = (key: string, value: unknown) => {
+    try {
+        localStorage.setItem(key, JSON.stringify(value));
+    } catch (e) {
+        console.error(`Failed to save ${key}`, e);
+    }
+};
+
+const notify = () => listeners.forEach(listener => listener());
+
+export const getUsageRecords = (): UsageRecord[] => {
+    if (!records) {
+        const cutoff = Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000;
+        records = readJson<UsageRecord[]>(LOG_KEY, []).filter(r => r.timestamp >= cutoff);
+    }
+    return records;
+};
+
+export const getUsageSettings = (): UsageSettings => {
+    if (!settings) settings = { ...defaultSettings(), ...readJson<Partial<UsageSettings>>(SETTINGS_KEY, {}) };
+    return settings;
+};
+
+export const saveUsageSettings = (next: UsageSettings) => {
+    settings = next;
+    writeJson(SETTINGS_KEY, next);
+    notify();
+};
+
+/** Subscribes to log and settings changes; returns the unsubscribe function. */
+export const subscribeUsage = (listener: () => void) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+};
+
+// Exact match first, then the longest price entry the model name starts with
+export const findPrice = (model: string, prices: ModelPrice[]): ModelPrice | undefined =>
+    prices.find(p => p.model === model)
+    ?? [...prices].sort((a, b) => b.model.length - a.model.length).find(p => p.model && model.startsWith(p.model));
+
+export const estimateCost = (model: string, inputTokens: number, outputTokens: number, images: number, prices: ModelPrice[]): number => {
+    const price = findPrice(model, prices);
+    if (!price) return 0;
+    return (inputTokens * price.inputPerMillion + outputTokens * price.outputPerMillion) / 1_000_000 + images * price.perImage;
+};
+
+export const recordUsage = (entry: Omit<UsageRecord, 'id' | 'cost'>) => {
+    const record: UsageRecord = {
+        ...entry,
+        id: `${entry.timestamp}-${Math.random().toString(36).slice(2, 8)}`,
+        cost: estimateCost(entry.model, entry.inputTokens, entry.outputTokens, entry.images, getUsageSettings().prices),
+    };
+    records = [...getUsageRecords(), record];
+    writeJson(LOG_KEY, records);
+    notify();
+};
+
+export const clearUsageLog = () => {
+    records = [];
+    writeJson(LOG_KEY, records);
+    notify();
+};
+
+// --- Totals ---
+
+export interface UsageTotals {
+    calls: number;
+    inputTokens: number;
+    outputTokens: number;
+    images: number;
+    cost: number;
+}
+
+export const summarizeUsage = (list: UsageRecord[]): UsageTotals => list.reduce((totals, r) => ({
+    calls: totals.calls + 1,
+    inputTokens: totals.inputTokens + r.inputTokens,
+    outputTokens: totals.outputTokens + r.outputTokens,
+    images: totals.images + r.images,
+    cost: totals.cost + r.cost,
+}), { calls: 0, inputTokens: 0, outputTokens: 0, images: 0, cost: 0 });
+
+const startOfToday = () => new Date().setHours(0, 0, 0, 0);
+
+export const sessionRecords = () => getUsageRecords().filter(r => r.timestamp >= SESSION_START);
+
+export const todayRecords = () => getUsageRecords().filter(r => r.timestamp >= startOfToday());
+
+export const formatCost = (usd: number) => `$${usd < 1 ? usd.toFixed(4) : usd.toFixed(2)}`;
+
+/** Throws a 'budget' ServiceError when the configured cap has been reached. */
+export const assertWithinBudget = () => {
+    const { budgetCap, budgetScope } = getUsageSettings();
+    if (!budgetCap) return;
+    const spent = summarizeUsage(budgetScope === 'session' ? sessionRecords() : todayRecords()).cost;
+    if (spent >= budgetCap) {
+        throw new ServiceError('budget', `Budget cap of ${formatCost(budgetCap)} per ${budgetScope} reached (spent ${formatCost(spent)}).`);
+    }
+};
+
+// --- Export ---
+
+export const formatUsageCsv = (list: UsageRecord[]): string => toCsv(
+    list.map(r => ({ ...r, time: new Date(r.timestamp).toISOString(), cost: r.cost.toFixed(6) })),
+    ['time', 'operation', 'provider', 'model', 'inputTokens', 'outputTokens', 'images', 'latencyMs', 'cost']
+);
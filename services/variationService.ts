@@ -0,0 +1,48 @@
+import { Variation } from '../types';
+
+// Helpers for the variation grid: one idea rendered N times, optionally nudged in a
+// different direction each time so the results spread out instead of clustering.
+
+export const PERTURBATIONS = [
+    'from a slightly different camera angle',
+    'with different lighting',
+    'with a bolder color treatment',
+    'with a tighter, more intimate framing',
+    'with a wider view and more environment',
+    'with more dramatic contrast',
+    'with a softer, quieter mood',
+    'with richer surface detail and texture',
+    'at a different time of day',
+    'with a more dynamic pose or movement',
+    'with a simpler, more minimal composition',
+    'with an unexpected accent color',
+];
+
+export const MAX_VARIATIONS = 12;
+
+/** The first variation is always the untouched prompt, so there is a baseline to compare against. */
+export const createVariations = (prompt: string, count: number, perturb: boolean): Variation[] => {
+    const batchId = Date.now();
+    return Array.from({ length: Math.min(Math.max(1, count), MAX_VARIATIONS) }, (_, index) => {
+        const perturbation = perturb && index > 0 ? PERTURBATIONS[(index - 1) % PERTURBATIONS.length] : undefined;
+        return {
+            id: `${batchId}-${index}`,
+            prompt: perturbation ? `${prompt}, ${perturbation}` : prompt,
+            perturbation,
+            status: 'queued' as const,
+            starred: false,
+        };
+    });
+};
+
+/** Runs the tasks with at most `limit` in flight. Tasks are expected to handle their own errors. */
+export async function runWithConcurrency(tasks: (() => Promise<void>)[], limit: number): Promise<void> {
+    let next = 0;
+    const lane = async () => {
+        while (next < tasks.length) {
+            const task = tasks[next++];
+            await task();
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), tasks.length) }, lane));
+}
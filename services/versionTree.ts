@@ -0,0 +1,85 @@
+import JSZip from 'jszip';
+import { EditNode, GeneratedItem } from '../types';
+import { exportGeneratedPng } from './pngProvenance';
+import { toJson } from './serializers';
+
+// Pure helpers for the Nano Editor's version tree. Nodes are stored flat and linked by parentId.
+
+export const createRootNode = (item: GeneratedItem): EditNode => ({
+    id: `root-${item.id}`,
+    parentId: null,
+    imageUrl: item.imageUrl,
+    prompt: item.prompt,
+    executedPrompt: item.executedPrompt,
+    model: item.model,
+    timestamp: item.timestamp,
+});
+
+export const getChildren = (nodes: EditNode[], parentId: string): EditNode[] =>
+    nodes.filter(n => n.parentId === parentId).sort((a, b) => a.timestamp - b.timestamp);
+
+/** Every node from the root down to (and including) the given node. */
+export const getBranch = (nodes: EditNode[], id: string): EditNode[] => {
+    const byId = new Map(nodes.map(n => [n.id, n]));
+    const branch: EditNode[] = [];
+    let node = byId.get(id);
+    while (node) {
+        branch.unshift(node);
+        node = node.parentId ? byId.get(node.parentId) : undefined;
+    }
+    return branch;
+};
+
+export interface TreeRow {
+    node: EditNode;
+    depth: number;
+    isLastChild: boolean;
+}
+
+/** Depth-first order with siblings oldest first, ready to render as an indented list. */
+export const flattenTree = (nodes: EditNode[]): TreeRow[] => {
+    const rows: TreeRow[] = [];
+    const visit = (node: EditNode, depth: number, isLastChild: boolean) => {
+        rows.push({ node, depth, isLastChild });
+        const children = getChildren(nodes, node.id);
+        children.forEach((child, i) => visit(child, depth + 1, i === children.length - 1));
+    };
+    nodes.filter(n => n.parentId === null).forEach(root => visit(root, 0, true));
+    return rows;
+};
+
+/**
+ * Zips a branch as numbered PNGs (each carrying its provenance) plus a sequence manifest
+ * listing the prompt that produced every step.
+ */
+export async function exportBranchZip(branch: EditNode[], item: GeneratedItem): Promise<Blob> {
+    const zip = new JSZip();
+    const pad = String(branch.length).length;
+    const steps = [];
+
+    for (const [index, node] of branch.entries()) {
+        const fileName = `${String(index + 1).padStart(Math.max(2, pad), '0')}.png`;
+        const png = await exportGeneratedPng({
+            ...item,
+            id: node.id,
+            imageUrl: node.imageUrl,
+            prompt: node.prompt,
+            executedPrompt: node.executedPrompt,
+            model: node.model,
+            timestamp: node.timestamp,
+        });
+        zip.file(fileName, png);
+        steps.push({
+            step: index + 1,
+            file: fileName,
+            prompt: node.prompt,
+            executed_prompt: node.executedPrompt || '',
+            model: node.model || '',
+            created: new Date(node.timestamp).toISOString(),
+        });
+    }
+
+    zip.file('sequence.json', toJson({ title: item.title, steps }));
+    zip.file('sequence.txt', steps.map(s => `${s.step}. ${s.file}\n${s.prompt}${s.executed_prompt ? `\n\nExecuted: ${s.executed_prompt}` : ''}`).join('\n\n---\n\n') + '\n');
+    return zip.generateAsync({ type: 'blob' });
+}
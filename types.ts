@@ -9,6 +9,15 @@ export interface AnalysisResult {
   creativePrompt: string; // New field for the evocative description
 }
 
+export type StyleLockField = 'style' | 'artist' | 'techniques' | 'colorPalette' | 'composition' | 'mood';
+
+// A scanned image's analysis kept aside to restyle other images with (see services/styleTransfer.ts)
+export interface StyleLock {
+  analysis: AnalysisResult;
+  sourceImageUrl: string; // The image the style was scanned from, for the thumbnail
+  fields: StyleLockField[]; // The parts of the analysis that drive the render
+}
+
 export interface StyleExtractionResult {
   lighting: string[];
   medium: string[];
@@ -17,7 +26,80 @@ export interface StyleExtractionResult {
   vibe: string[];
 }
 
-export type OutputFormat = 'txt' | 'json' | 'toml';
+export interface PaletteColor {
+  hex: string; // "#rrggbb"
+  rgb: [number, number, number];
+  proportion: number; // Share of sampled pixels, 0..1
+}
+
+export type MetadataSource = 'a1111' | 'comfyui' | 'exif' | 'text' | 'provenance';
+
+// Generation parameters recovered from the file itself (PNG text chunks, EXIF)
+export interface EmbeddedMetadata {
+  source: MetadataSource;
+  prompt?: string;
+  negativePrompt?: string;
+  sampler?: string;
+  seed?: string;
+  steps?: string;
+  cfgScale?: string;
+  model?: string;
+  size?: string;
+  raw: Record<string, string>; // Every text entry found, keyed by chunk keyword / EXIF tag
+}
+
+export interface SavedAnalysis {
+  id: string;
+  imageUrl: string; // Source image as a data URL
+  result: AnalysisResult;
+  intensity: number;
+  timestamp: number;
+}
+
+export interface SavedExtraction {
+  id: string;
+  sourceText: string; // The prompt that was distilled
+  result: StyleExtractionResult;
+  timestamp: number;
+}
+
+export interface StorageUsage {
+  usedBytes: number;
+  quotaBytes: number;
+}
+
+// Plain data formats shared by every export (analysis, style reports, history logs)
+export type SerializationFormat = 'txt' | 'json' | 'toml' | 'yaml' | 'csv' | 'markdown';
+
+// Data formats dump the analysis; dialects are ready-to-paste prompts for a specific tool
+export type OutputFormat = SerializationFormat | 'midjourney' | 'sd' | 'comfyui';
+
+export type BatchItemStatus = 'queued' | 'running' | 'done' | 'error';
+
+export interface BatchItem {
+  id: string;
+  fileName: string;
+  imageUrl: string;
+  status: BatchItemStatus;
+  result?: AnalysisResult;
+  issues?: string[]; // Validation problems with the model's response
+  error?: string;
+}
+
+// One cell of the Creative Studio's variation grid
+export interface Variation {
+  id: string;
+  prompt: string; // The idea as sent, including any perturbation
+  perturbation?: string;
+  status: BatchItemStatus;
+  imageUrl?: string;
+  executedPrompt?: string;
+  model?: string;
+  error?: string;
+  starred: boolean;
+}
+
+export type BatchExportFormat = 'json' | 'jsonl' | 'csv';
 
 export interface GeneratedItem {
   id: string;
@@ -26,6 +108,33 @@ export interface GeneratedItem {
   prompt: string;
   modifiers: string[];
   styleContext?: string; // The full text analysis if available
+  executedPrompt?: string; // The full prompt sent to the image model
+  model?: string; // Image model that rendered it
+  timestamp: number;
+  tags?: string[]; // The user's own labels, separate from the style modifiers
+  favorite?: boolean;
+  rating?: number; // 1-5 stars; absent when unrated
+  references?: ReferenceImage[]; // Extra images the render was conditioned on
+}
+
+export type ReferenceRole = 'content' | 'style' | 'character';
+
+// An image passed to the image model next to the source, with what it should be used for
+export interface ReferenceImage {
+  id: string;
+  role: ReferenceRole;
+  imageUrl: string; // Data URL
+  weight: number; // 0-1; how closely the model should follow this reference
+}
+
+// One state in the Nano Editor's version tree; the root is the history item being edited
+export interface EditNode {
+  id: string;
+  parentId: string | null;
+  imageUrl: string;
+  prompt: string; // The instruction that produced this state (the item's own prompt for the root)
+  executedPrompt?: string;
+  model?: string;
   timestamp: number;
 }
 
@@ -35,9 +144,152 @@ export interface ChatMessage {
   text?: string;
   imageUrl?: string;
   executedPrompt?: string; // The full prompt sent to the AI
+  model?: string; // Image model that rendered imageUrl
+  nodeId?: string; // Version tree node this image became
+  timestamp: number;
+}
+
+export type ProviderId = 'gemini' | 'openai-compatible' | 'mock';
+
+export interface ImageEditResult {
+  imageUrl: string;
+  executedPrompt: string; // The full prompt sent to the AI
+  model?: string; // Filled in by the service facade from the active provider
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal; // Aborting rejects the call with a 'cancelled' ServiceError
+  onUsage?: (usage: TokenUsage) => void; // Called by providers once per response
+}
+
+// What one provider response reports about its own size
+export interface TokenUsage {
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export type UsageOperation = 'analysis' | 'render' | 'title' | 'distill';
+
+export interface UsageRecord {
+  id: string;
+  timestamp: number;
+  operation: UsageOperation;
+  provider: ProviderId;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  images: number; // Images sent with the call: the source, plus any mask and references
+  latencyMs: number;
+  cost: number; // Estimated, in USD, from the price table at the time of the call
+}
+
+export interface ModelPrice {
+  model: string; // Matched exactly, or as a prefix of the reported model name
+  inputPerMillion: number; // USD per million input tokens
+  outputPerMillion: number; // USD per million output tokens
+  perImage: number; // USD per image sent, for backends that bill images separately
+}
+
+export interface UsageSettings {
+  prices: ModelPrice[];
+  budgetCap: number; // USD; 0 means no cap
+  budgetScope: 'session' | 'day';
+}
+
+export interface StructuredRequestOptions extends RequestOptions {
+  repairHint?: string; // Problems with the previous response, sent back so the model can fix them
+}
+
+// A model response after runtime validation (see services/responseValidation.ts)
+export interface ValidatedResult<T> {
+  result: T;
+  issues: string[]; // What was wrong with the response, including problems that were fixed
+  cachedAt?: number; // Set when served from the local result cache: when the response was first received
+}
+
+export interface CacheableRequestOptions extends RequestOptions {
+  fresh?: boolean; // Skip the result cache and replace its entry with the new response
+}
+
+// A validated structured response, keyed by a hash of everything that shaped it (see services/resultCache.ts)
+export interface CachedResult {
+  id: string;
+  kind: 'analysis' | 'distill';
+  result: unknown;
+  issues: string[];
+  timestamp: number; // When the response was received
+  lastUsed: number; // Drives least-recently-used eviction
+}
+
+export type PreprocessFormat = 'auto' | 'image/jpeg' | 'image/png';
+
+// How uploads are prepared before they are sent (see services/imagePreprocess.ts)
+export interface PreprocessSettings {
+  maxEdge: number; // Longest side in pixels; 0 keeps the original size
+  quality: number; // JPEG quality, 0.5-1
+  format: PreprocessFormat; // 'auto' keeps PNG/JPEG/WebP and converts anything else
+}
+
+// Crop region as fractions (0-1) of the upright image
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ImageEditOptions extends RequestOptions {
+  mask?: string; // PNG data URL, white where the edit may change pixels (see services/maskUtils.ts)
+  references?: ReferenceImage[]; // Sent after the source (and mask) in this order
+}
+
+export interface AIProvider {
+  id: ProviderId;
+  label: string;
+  imageModel: string; // Shown in the UI and recorded with generated images
+  visionModel: string; // Used for image analysis; part of the result cache key
+  textModel: string; // Used for titles and distillation; part of the result cache key
+  // Structured calls resolve to the parsed JSON as-is; the service facade validates it
+  analyzeImageStyle(base64ImageData: string, mimeType: string, intensity: number, options?: StructuredRequestOptions): Promise<unknown>;
+  editImage(base64ImageData: string, mimeType: string, prompt: string, modifiers: string[], options?: ImageEditOptions): Promise<ImageEditResult>;
+  generateCreativeTitle(prompt: string, modifiers: string[], options?: RequestOptions): Promise<string>;
+  extractStylesFromText(promptText: string, options?: StructuredRequestOptions): Promise<unknown>;
+}
+
+export interface ProviderSettings {
+  providerId: ProviderId;
+  // OpenAI-compatible endpoint (OpenAI, Ollama, LM Studio, ...)
+  openAiBaseUrl: string;
+  openAiApiKey: string;
+  openAiVisionModel: string;
+  openAiTextModel: string;
+  openAiImageModel: string; // Leave empty if the server cannot generate images
+  requestTimeoutSeconds: number; // Per attempt; applies to every provider
+}
+
+// A user-managed word list, referenced from prompt templates as __name__
+export interface WildcardList {
+  id: string;
+  name: string;
+  words: string[];
+  timestamp: number;
+}
+
+// A named, reusable bundle of modifiers for the Creative Studio
+export interface StylePreset {
+  id: string;
+  name: string;
+  modifiers: string[];
+  description?: string;
+  promptPrefix?: string; // Prepended to the user's idea when the preset is active
+  promptSuffix?: string; // Appended to the user's idea when the preset is active
+  folder: string; // Empty string for the top level
+  order: number; // Position within its folder
   timestamp: number;
 }
 
+// Seed for the preset library on first run
 export const STYLE_PRESETS = [
   "Cinematic", 
   "Niji Anime", 